@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Todo" ADD COLUMN "completedAt" DATETIME;
+ALTER TABLE "Todo" ADD COLUMN "description" TEXT;
+ALTER TABLE "Todo" ADD COLUMN "dueAt" DATETIME;
+ALTER TABLE "Todo" ADD COLUMN "priority" TEXT NOT NULL DEFAULT 'MEDIUM';
+
+-- Backfill completedAt for todos that were already completed
+-- updatedAt is the best approximation we have of when that happened
+UPDATE "Todo" SET "completedAt" = "updatedAt" WHERE "completed" = true;
+
+-- CreateIndex
+CREATE INDEX "Todo_userId_dueAt_idx" ON "Todo"("userId", "dueAt");
@@ -0,0 +1,29 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Todo" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" DATETIME,
+    "dueAt" DATETIME,
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "listId" INTEGER,
+    "parentId" INTEGER,
+    "childOrder" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "Todo_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Todo_listId_fkey" FOREIGN KEY ("listId") REFERENCES "TodoList" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Todo_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Todo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Todo" ("completed", "completedAt", "createdAt", "description", "dueAt", "id", "listId", "priority", "title", "updatedAt", "userId") SELECT "completed", "completedAt", "createdAt", "description", "dueAt", "id", "listId", "priority", "title", "updatedAt", "userId" FROM "Todo";
+DROP TABLE "Todo";
+ALTER TABLE "new_Todo" RENAME TO "Todo";
+CREATE INDEX "Todo_userId_dueAt_idx" ON "Todo"("userId", "dueAt");
+CREATE INDEX "Todo_listId_idx" ON "Todo"("listId");
+CREATE INDEX "Todo_parentId_idx" ON "Todo"("parentId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
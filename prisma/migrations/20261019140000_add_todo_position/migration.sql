@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Todo" ADD COLUMN "position" REAL NOT NULL DEFAULT 0;
+
+-- Give existing todos evenly spaced positions in creation order
+UPDATE "Todo" SET "position" = "id" * 1024;
+
+-- CreateIndex
+CREATE INDEX "Todo_userId_position_idx" ON "Todo"("userId", "position");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Todo" ADD COLUMN "recurrence" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Todo" ADD COLUMN "deletedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Todo_deletedAt_idx" ON "Todo"("deletedAt");
@@ -0,0 +1,45 @@
+-- Full-text index over todo titles and descriptions, used by GET /todos/search
+--
+-- "TodoSearch" is an FTS5 external-content table: it stores only the search
+-- index and reads the text itself from "Todo" (content_rowid = Todo.id).
+-- Prisma can't describe virtual tables, so it isn't in schema.prisma and is
+-- queried with $queryRaw.
+--
+-- unicode61 with remove_diacritics folds case and accents: "cafe" finds "Café".
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "TodoSearch" USING fts5(
+    title,
+    description,
+    content = 'Todo',
+    content_rowid = 'id',
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Index the todos that already exist
+INSERT INTO "TodoSearch"("TodoSearch") VALUES ('rebuild');
+
+-- The triggers keep the index in sync with "Todo". An external-content
+-- table has to be told the old text to remove it, hence the special
+-- 'delete' insert. Note: a migration that redefines the "Todo" table drops
+-- these triggers and has to create them again.
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_insert" AFTER INSERT ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"(rowid, title, description)
+    VALUES (new."id", new."title", new."description");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_delete" AFTER DELETE ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"("TodoSearch", rowid, title, description)
+    VALUES ('delete', old."id", old."title", old."description");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_update" AFTER UPDATE OF "title", "description" ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"("TodoSearch", rowid, title, description)
+    VALUES ('delete', old."id", old."title", old."description");
+    INSERT INTO "TodoSearch"(rowid, title, description)
+    VALUES (new."id", new."title", new."description");
+END;
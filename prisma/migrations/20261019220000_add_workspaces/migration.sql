@@ -0,0 +1,135 @@
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "personal" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "workspaceId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("workspaceId", "userId"),
+    CONSTRAINT "WorkspaceMember_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WorkspaceMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceInvite" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "workspaceId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    CONSTRAINT "WorkspaceInvite_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WorkspaceInvite_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceInvite_tokenHash_key" ON "WorkspaceInvite"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceInvite_workspaceId_idx" ON "WorkspaceInvite"("workspaceId");
+
+-- Give every existing user a personal workspace they own. It reuses the
+-- user's ID, so the todos and lists below can be moved into it by userId.
+INSERT INTO "Workspace" ("id", "name", "personal", "createdAt", "updatedAt")
+SELECT "id", 'Personal', true, "createdAt", "createdAt" FROM "User";
+
+INSERT INTO "WorkspaceMember" ("workspaceId", "userId", "role", "createdAt")
+SELECT "id", "id", 'OWNER', "createdAt" FROM "User";
+
+-- RedefineTables
+-- SQLite can't add a NOT NULL foreign key column to an existing table, so
+-- Todo and TodoList are copied into new tables that have workspaceId
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_TodoList" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "workspaceId" INTEGER NOT NULL,
+    CONSTRAINT "TodoList_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TodoList_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_TodoList" ("id", "name", "isDefault", "createdAt", "updatedAt", "userId", "workspaceId")
+SELECT "id", "name", "isDefault", "createdAt", "updatedAt", "userId", "userId" FROM "TodoList";
+DROP TABLE "TodoList";
+ALTER TABLE "new_TodoList" RENAME TO "TodoList";
+CREATE INDEX "TodoList_userId_idx" ON "TodoList"("userId");
+CREATE INDEX "TodoList_workspaceId_idx" ON "TodoList"("workspaceId");
+CREATE TABLE "new_Todo" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" DATETIME,
+    "dueAt" DATETIME,
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "recurrence" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "userId" INTEGER NOT NULL,
+    "workspaceId" INTEGER NOT NULL,
+    "listId" INTEGER,
+    "parentId" INTEGER,
+    "childOrder" INTEGER NOT NULL DEFAULT 0,
+    "position" REAL NOT NULL DEFAULT 0,
+    "deletedAt" DATETIME,
+    CONSTRAINT "Todo_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Todo_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Todo_listId_fkey" FOREIGN KEY ("listId") REFERENCES "TodoList" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Todo_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Todo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Todo" ("id", "title", "description", "completed", "completedAt", "dueAt", "priority", "recurrence", "createdAt", "updatedAt", "version", "userId", "workspaceId", "listId", "parentId", "childOrder", "position", "deletedAt")
+SELECT "id", "title", "description", "completed", "completedAt", "dueAt", "priority", "recurrence", "createdAt", "updatedAt", "version", "userId", "userId", "listId", "parentId", "childOrder", "position", "deletedAt" FROM "Todo";
+DROP TABLE "Todo";
+ALTER TABLE "new_Todo" RENAME TO "Todo";
+CREATE INDEX "Todo_userId_dueAt_idx" ON "Todo"("userId", "dueAt");
+CREATE INDEX "Todo_listId_idx" ON "Todo"("listId");
+CREATE INDEX "Todo_parentId_idx" ON "Todo"("parentId");
+CREATE INDEX "Todo_userId_position_idx" ON "Todo"("userId", "position");
+CREATE INDEX "Todo_workspaceId_dueAt_idx" ON "Todo"("workspaceId", "dueAt");
+CREATE INDEX "Todo_workspaceId_position_idx" ON "Todo"("workspaceId", "position");
+CREATE INDEX "Todo_deletedAt_idx" ON "Todo"("deletedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Dropping the old Todo table dropped the full-text search triggers with it
+-- (see the add_todo_search migration), so they are created again. The
+-- rows kept their IDs, so the search index itself is still correct.
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_insert" AFTER INSERT ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"(rowid, title, description)
+    VALUES (new."id", new."title", new."description");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_delete" AFTER DELETE ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"("TodoSearch", rowid, title, description)
+    VALUES ('delete', old."id", old."title", old."description");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_update" AFTER UPDATE OF "title", "description" ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"("TodoSearch", rowid, title, description)
+    VALUES ('delete', old."id", old."title", old."description");
+    INSERT INTO "TodoSearch"(rowid, title, description)
+    VALUES (new."id", new."title", new."description");
+END;
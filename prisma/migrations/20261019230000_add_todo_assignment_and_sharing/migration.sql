@@ -0,0 +1,97 @@
+-- CreateTable
+CREATE TABLE "TodoShare" (
+    "todoId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "permission" TEXT NOT NULL DEFAULT 'VIEW',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("todoId", "userId"),
+    CONSTRAINT "TodoShare_todoId_fkey" FOREIGN KEY ("todoId") REFERENCES "Todo" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TodoShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "todoId" INTEGER,
+    "actorId" INTEGER,
+    "readAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Notification_todoId_fkey" FOREIGN KEY ("todoId") REFERENCES "Todo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Todo" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" DATETIME,
+    "dueAt" DATETIME,
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "recurrence" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "userId" INTEGER NOT NULL,
+    "assigneeId" INTEGER,
+    "workspaceId" INTEGER NOT NULL,
+    "listId" INTEGER,
+    "parentId" INTEGER,
+    "childOrder" INTEGER NOT NULL DEFAULT 0,
+    "position" REAL NOT NULL DEFAULT 0,
+    "deletedAt" DATETIME,
+    CONSTRAINT "Todo_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Todo_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Todo_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Todo_listId_fkey" FOREIGN KEY ("listId") REFERENCES "TodoList" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Todo_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Todo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Todo" ("id", "title", "description", "completed", "completedAt", "dueAt", "priority", "recurrence", "createdAt", "updatedAt", "version", "userId", "workspaceId", "listId", "parentId", "childOrder", "position", "deletedAt")
+SELECT "id", "title", "description", "completed", "completedAt", "dueAt", "priority", "recurrence", "createdAt", "updatedAt", "version", "userId", "workspaceId", "listId", "parentId", "childOrder", "position", "deletedAt" FROM "Todo";
+DROP TABLE "Todo";
+ALTER TABLE "new_Todo" RENAME TO "Todo";
+CREATE INDEX "Todo_userId_dueAt_idx" ON "Todo"("userId", "dueAt");
+CREATE INDEX "Todo_listId_idx" ON "Todo"("listId");
+CREATE INDEX "Todo_parentId_idx" ON "Todo"("parentId");
+CREATE INDEX "Todo_userId_position_idx" ON "Todo"("userId", "position");
+CREATE INDEX "Todo_workspaceId_dueAt_idx" ON "Todo"("workspaceId", "dueAt");
+CREATE INDEX "Todo_workspaceId_position_idx" ON "Todo"("workspaceId", "position");
+CREATE INDEX "Todo_assigneeId_idx" ON "Todo"("assigneeId");
+CREATE INDEX "Todo_deletedAt_idx" ON "Todo"("deletedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- The full-text search triggers went with the old Todo table
+-- (see the add_workspaces migration)
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_insert" AFTER INSERT ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"(rowid, title, description)
+    VALUES (new."id", new."title", new."description");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_delete" AFTER DELETE ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"("TodoSearch", rowid, title, description)
+    VALUES ('delete', old."id", old."title", old."description");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Todo_search_update" AFTER UPDATE OF "title", "description" ON "Todo" BEGIN
+    INSERT INTO "TodoSearch"("TodoSearch", rowid, title, description)
+    VALUES ('delete', old."id", old."title", old."description");
+    INSERT INTO "TodoSearch"(rowid, title, description)
+    VALUES (new."id", new."title", new."description");
+END;
+
+-- CreateIndex
+CREATE INDEX "TodoShare_userId_idx" ON "TodoShare"("userId");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_createdAt_idx" ON "Notification"("userId", "createdAt");
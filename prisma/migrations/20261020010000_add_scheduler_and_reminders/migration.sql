@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Todo" ADD COLUMN "remindedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "ScheduledJob" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "schedule" TEXT NOT NULL,
+    "nextRunAt" DATETIME NOT NULL,
+    "lockedBy" TEXT,
+    "lockedUntil" DATETIME,
+    "lastStartedAt" DATETIME,
+    "lastFinishedAt" DATETIME,
+    "lastError" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "Todo_dueAt_idx" ON "Todo"("dueAt");
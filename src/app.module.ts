@@ -4,6 +4,20 @@ import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
 import { UserModule } from './user/user.module';
 import { TodoModule } from './todo/todo.module';
+import { AuthModule } from './auth/auth.module';
+import { ListModule } from './list/list.module';
+import { TagModule } from './tag/tag.module';
+import { TrashModule } from './trash/trash.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { WebhookModule } from './webhook/webhook.module';
+import { GraphqlModule } from './graphql/graphql.module';
+import { WorkspaceModule } from './workspace/workspace.module';
+import { NotificationModule } from './notification/notification.module';
+import { AttachmentModule } from './attachment/attachment.module';
+import { StatsModule } from './stats/stats.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
 
 /**
  * AppModule - The root module of the NestJS application
@@ -15,21 +29,51 @@ import { TodoModule } from './todo/todo.module';
  *
  * Module loading order matters:
  * - PrismaModule is loaded first (global database access)
+ * - AuthModule provides signup/login and the global JwtService used by JwtAuthGuard
+ * - WorkspaceModule manages the workspaces that todos and lists belong to
  * - UserModule provides user CRUD functionality
  * - TodoModule depends on PrismaModule and UserModule (but doesn't need to
  *   import them because PrismaModule is marked as @Global() and UserModule
  *   is only used for validation)
+ * - ListModule groups todos into lists and imports TodoModule itself
+ * - TagModule manages the labels that can be put on todos
+ * - TrashModule lists and purges soft-deleted todos and users
+ * - CalendarModule publishes a user's todos as an iCalendar feed
+ * - WebhookModule manages webhooks and delivers their events in the background
+ * - GraphqlModule serves users and todos over GraphQL at /graphql
+ * - NotificationModule keeps the in-app notifications of users and sends
+ *   due-date reminders
+ * - AttachmentModule stores the files attached to todos
+ * - StatsModule reports how many todos get done, per workspace and member
+ * - SchedulerModule runs background jobs (reminders, trash purging) on
+ *   cron schedules
+ * - HealthModule answers the liveness and readiness probes at /health
+ * - MetricsModule times every request and serves Prometheus metrics
  *
  * Why keep AppController and AppService?
- * - They provide a simple health check endpoint (GET /)
- * - Useful for verifying the app is running
+ * - GET / is the original "is it running" check, kept for existing
+ *   clients - probes should use /health/live and /health/ready
  */
 @Module({
   // Import other modules to include their functionality
   imports: [
     PrismaModule, // Global database access - loaded first
+    AuthModule, // Signup, login and access tokens
+    WorkspaceModule, // Workspaces, members and invitations
     UserModule, // User CRUD functionality
     TodoModule, // Todo CRUD functionality
+    ListModule, // Todo lists (projects)
+    TagModule, // Tags (labels) on todos
+    TrashModule, // Trash listing and purging
+    CalendarModule, // iCalendar feed of todos with due dates
+    WebhookModule, // Webhook subscriptions and delivery
+    GraphqlModule, // GraphQL API next to the REST API
+    NotificationModule, // In-app notifications and reminders
+    AttachmentModule, // Files attached to todos
+    StatsModule, // Productivity statistics
+    SchedulerModule, // Background jobs on cron schedules
+    HealthModule, // Liveness and readiness probes
+    MetricsModule, // Prometheus metrics
   ],
 
   // Controllers for this module (root-level routes)
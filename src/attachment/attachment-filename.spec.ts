@@ -0,0 +1,48 @@
+import { cleanFilename, contentDisposition } from './attachment-filename';
+
+describe('attachment filenames', () => {
+  describe('cleanFilename', () => {
+    it('should keep ordinary names as they are', () => {
+      expect(cleanFilename('receipt.pdf')).toBe('receipt.pdf');
+    });
+
+    it('should decode UTF-8 names that multer read as latin1', () => {
+      const latin1 = Buffer.from('café.png', 'utf8').toString('latin1');
+      expect(cleanFilename(latin1)).toBe('café.png');
+    });
+
+    it('should leave names alone that are not UTF-8 read as latin1', () => {
+      expect(cleanFilename('naïve.txt')).toBe('naïve.txt');
+      expect(cleanFilename('日本.png')).toBe('日本.png');
+    });
+
+    it('should drop directories and control characters', () => {
+      expect(cleanFilename('C:\\Users\\me\\scan.jpg')).toBe('scan.jpg');
+      expect(cleanFilename('../../etc/passwd')).toBe('passwd');
+      expect(cleanFilename('a\u0000b\nc.txt')).toBe('abc.txt');
+    });
+
+    it('should fall back to "file" when nothing is left', () => {
+      expect(cleanFilename('')).toBe('file');
+      expect(cleanFilename('uploads/..')).toBe('file');
+    });
+
+    it('should cap the length', () => {
+      expect(cleanFilename('x'.repeat(300))).toHaveLength(255);
+    });
+  });
+
+  describe('contentDisposition', () => {
+    it('should give ASCII names as they are', () => {
+      expect(contentDisposition('scan.jpg')).toBe(
+        `attachment; filename="scan.jpg"; filename*=UTF-8''scan.jpg`,
+      );
+    });
+
+    it('should percent-encode other names next to an ASCII fallback', () => {
+      expect(contentDisposition('café "1".png')).toBe(
+        `attachment; filename="caf_ _1_.png"; filename*=UTF-8''caf%C3%A9%20%221%22.png`,
+      );
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Helpers for the names of attached files
+ *
+ * The name comes from the client, so it is cleaned before it is stored,
+ * and encoded carefully when it is sent back in a Content-Disposition
+ * header on download.
+ */
+
+/** Longest stored file name */
+const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * Turn the name an uploaded file was sent with into a safe display name
+ *
+ * - multer decodes the name as latin1, so "café.png" arrives as
+ *   "cafÃ©.png" - it is decoded again as UTF-8 when that gives a valid name
+ * - Directories are dropped ("C:\\Users\\me\\receipt.pdf" -> "receipt.pdf")
+ * - Control characters are removed and the length is capped
+ *
+ * @param originalName - file.originalname as multer reports it
+ * @returns The cleaned name, or "file" if nothing is left
+ */
+export function cleanFilename(originalName: string): string {
+  let name = originalName;
+
+  // Only names made of single bytes can be UTF-8 read as latin1
+  if ([...name].every((char) => char.charCodeAt(0) <= 0xff)) {
+    const utf8 = Buffer.from(name, 'latin1').toString('utf8');
+    if (!utf8.includes('\ufffd')) {
+      name = utf8;
+    }
+  }
+
+  name = name
+    .split(/[/\\]/)
+    .pop()!
+    .replace(/\p{Cc}/gu, '')
+    .trim()
+    .slice(0, MAX_FILENAME_LENGTH);
+
+  return name === '' || name === '.' || name === '..' ? 'file' : name;
+}
+
+/**
+ * Build the Content-Disposition header that downloads a file under its name
+ *
+ * filename="..." only allows ASCII, so it gets a fallback with the other
+ * characters replaced; filename*= (RFC 6266/5987) carries the real name
+ * percent-encoded as UTF-8, and every current browser prefers it.
+ *
+ * @example contentDisposition('café.png')
+ * // attachment; filename="caf_.png"; filename*=UTF-8''caf%C3%A9.png
+ */
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\u0020-\u007e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*!]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,33 @@
+import { Readable } from 'node:stream';
+
+/**
+ * AttachmentStorage - Where the bytes of attached files are kept
+ *
+ * Why an interface?
+ * - AttachmentService only stores metadata in the database and hands the
+ *   bytes to "some storage" under a key it generates
+ * - The default driver writes to the local disk (LocalDiskStorage); a
+ *   driver for S3 or another object store only has to implement these
+ *   three methods and be registered for ATTACHMENT_STORAGE in
+ *   AttachmentModule - nothing else changes
+ */
+export interface AttachmentStorage {
+  /** Store a file under a new key */
+  save(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Open a stored file for reading
+   * @throws NotFoundException if there is no file under the key
+   */
+  read(key: string): Promise<Readable>;
+
+  /** Delete a stored file - deleting a key that doesn't exist is not an error */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The injection token of the storage driver
+ * Interfaces don't exist at runtime, so NestJS can't use AttachmentStorage
+ * itself as the token - @Inject(ATTACHMENT_STORAGE) asks for it by name
+ */
+export const ATTACHMENT_STORAGE = 'ATTACHMENT_STORAGE';
@@ -0,0 +1,27 @@
+/**
+ * The largest file that can be attached to a todo, in bytes
+ * Set ATTACHMENT_MAX_BYTES to change it (defaults to 10 MB)
+ */
+export const MAX_ATTACHMENT_BYTES = Number(
+  process.env.ATTACHMENT_MAX_BYTES ?? 10 * 1024 * 1024,
+);
+
+/**
+ * The directory LocalDiskStorage keeps attached files in
+ * Set ATTACHMENT_DIR to change it (defaults to ./uploads)
+ */
+export const ATTACHMENT_DIR = process.env.ATTACHMENT_DIR ?? 'uploads';
+
+/**
+ * The kinds of files that can be attached: images (screenshots, photos of
+ * receipts), PDFs and plain text
+ * Anything else is rejected with 415 Unsupported Media Type
+ */
+export const ATTACHMENT_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+] as const;
@@ -0,0 +1,74 @@
+import { ExecutionContext, INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { WorkspaceRole } from '@prisma/client';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { AttachmentController } from './attachment.controller';
+import { MAX_ATTACHMENT_BYTES } from './attachment.constants';
+import { AttachmentService } from './attachment.service';
+
+// The real guard pulls in passport and @nestjs/jwt; it is overridden below
+jest.mock('../auth/jwt-auth.guard', () => ({ JwtAuthGuard: class {} }));
+
+describe('AttachmentController', () => {
+  let app: INestApplication<App>;
+  /** AttachmentService.upload() */
+  let upload: jest.Mock;
+
+  beforeEach(async () => {
+    upload = jest.fn().mockResolvedValue({ id: 1 });
+    // Lets every request in, as a member of workspace 1
+    const signedIn = {
+      canActivate: (context: ExecutionContext) => {
+        const req = context.switchToHttp().getRequest<{ workspace: object }>();
+        req.workspace = {
+          userId: 1,
+          workspaceId: 1,
+          role: WorkspaceRole.OWNER,
+        };
+        return true;
+      },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AttachmentController],
+      providers: [{ provide: AttachmentService, useValue: { upload } }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(signedIn)
+      .overrideGuard(WorkspaceGuard)
+      .useValue(signedIn)
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(() => app.close());
+
+  describe('POST /todos/:id/attachments', () => {
+    it('should pass the uploaded file on', async () => {
+      await request(app.getHttpServer())
+        .post('/todos/7/attachments')
+        .attach('file', Buffer.from('hello'), 'notes.txt')
+        .expect(201);
+
+      expect(upload).toHaveBeenCalledWith(
+        expect.objectContaining({ workspaceId: 1 }),
+        7,
+        expect.objectContaining({ originalname: 'notes.txt', size: 5 }),
+      );
+    });
+
+    it('should reject files over MAX_ATTACHMENT_BYTES with 413', async () => {
+      await request(app.getHttpServer())
+        .post('/todos/7/attachments')
+        .attach('file', Buffer.alloc(MAX_ATTACHMENT_BYTES + 1), 'big.pdf')
+        .expect(413);
+
+      expect(upload).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Param,
+  ParseIntPipe,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AttachmentService } from './attachment.service';
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+} from './attachment.constants';
+import { contentDisposition } from './attachment-filename';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ApiWorkspaceHeader } from '../workspace/api-workspace-header.decorator';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+
+/**
+ * AttachmentController - Files attached to todos, nested under /todos/:id
+ *
+ * Follows the same pattern as the other controllers:
+ * - JwtAuthGuard and WorkspaceGuard on every route
+ * - The access rules of the todo apply (see AttachmentService)
+ */
+@ApiTags('attachments')
+@ApiBearerAuth()
+@ApiWorkspaceHeader()
+@UseGuards(JwtAuthGuard, WorkspaceGuard)
+@Controller('todos/:id/attachments')
+export class AttachmentController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  /**
+   * POST /todos/:id/attachments - Attach a file to a todo
+   *
+   * Works like POST /todos/import: a multipart/form-data request with a
+   * "file" field. Files over MAX_ATTACHMENT_BYTES are rejected with
+   * 413 Payload Too Large, files of other types than
+   * ATTACHMENT_MIME_TYPES with 415 Unsupported Media Type.
+   *
+   * Example: curl -F file=@receipt.pdf localhost:3000/todos/1/attachments
+   */
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_BYTES } }),
+  )
+  @ApiOperation({ summary: 'Attach a file to a todo' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 201, description: "The attachment's metadata" })
+  @ApiResponse({ status: 400, description: 'No file was uploaded' })
+  @ApiResponse({
+    status: 403,
+    description: 'The todo was shared with the caller to view only',
+  })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  @ApiResponse({ status: 413, description: 'The file is too large' })
+  @ApiResponse({
+    status: 415,
+    description: `The file type isn't one of ${ATTACHMENT_MIME_TYPES.join(', ')}`,
+  })
+  upload(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ) {
+    return this.attachmentService.upload(scope, id, file);
+  }
+
+  /**
+   * GET /todos/:id/attachments - The files attached to a todo
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the attachments of a todo' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The attachments, oldest first' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  findAll(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.attachmentService.findAll(scope, id);
+  }
+
+  /**
+   * GET /todos/:id/attachments/:attachmentId - Download an attached file
+   *
+   * The file is streamed (see StreamableFile in GET /todos/export) with the
+   * type and name it was uploaded with. It's always sent as a download,
+   * and nosniff stops browsers from guessing another type - so an
+   * uploaded file can never run as a page of this site.
+   */
+  @Get(':attachmentId')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiOperation({ summary: 'Download an attached file' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiParam({
+    name: 'attachmentId',
+    description: 'The attachment ID',
+    example: 1,
+  })
+  @ApiProduces(...ATTACHMENT_MIME_TYPES)
+  @ApiResponse({ status: 200, description: 'The file' })
+  @ApiResponse({ status: 404, description: 'Todo or attachment not found' })
+  async download(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId', ParseIntPipe) attachmentId: number,
+  ) {
+    const { attachment, stream } = await this.attachmentService.download(
+      scope,
+      id,
+      attachmentId,
+    );
+
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: contentDisposition(attachment.filename),
+    });
+  }
+
+  /**
+   * DELETE /todos/:id/attachments/:attachmentId - Delete an attachment
+   * and its file
+   */
+  @Delete(':attachmentId')
+  @ApiOperation({ summary: 'Delete an attachment' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiParam({
+    name: 'attachmentId',
+    description: 'The attachment ID',
+    example: 1,
+  })
+  @ApiResponse({ status: 200, description: 'The deleted attachment' })
+  @ApiResponse({
+    status: 403,
+    description: 'The todo was shared with the caller to view only',
+  })
+  @ApiResponse({ status: 404, description: 'Todo or attachment not found' })
+  remove(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId', ParseIntPipe) attachmentId: number,
+  ) {
+    return this.attachmentService.remove(scope, id, attachmentId);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { AttachmentService } from './attachment.service';
+import { AttachmentController } from './attachment.controller';
+import { ATTACHMENT_STORAGE } from './attachment-storage';
+import { LocalDiskStorage } from './local-disk.storage';
+import { TodoModule } from '../todo/todo.module';
+
+/**
+ * AttachmentModule - Files attached to todos
+ *
+ * What is { provide, useClass }?
+ * - A custom provider: whoever injects ATTACHMENT_STORAGE gets an instance
+ *   of LocalDiskStorage
+ * - Storing files elsewhere means writing another AttachmentStorage and
+ *   putting it here instead - AttachmentService doesn't change
+ *
+ * Imports TodoModule for the todo access rules, and exports
+ * AttachmentService so TrashModule can delete the files of purged todos.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  imports: [TodoModule],
+  controllers: [AttachmentController],
+  providers: [
+    AttachmentService,
+    { provide: ATTACHMENT_STORAGE, useClass: LocalDiskStorage },
+  ],
+  exports: [AttachmentService],
+})
+export class AttachmentModule {}
@@ -0,0 +1,95 @@
+import { SharePermission, WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestTodoService,
+  createTestUser,
+} from '../../test/test-database';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { AttachmentService } from './attachment.service';
+
+/** What multer hands the controller for an uploaded file */
+const upload = (originalname: string, mimetype: string) =>
+  ({
+    originalname,
+    mimetype,
+    size: 5,
+    buffer: Buffer.from('hello'),
+  }) as Express.Multer.File;
+
+describe('AttachmentService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  /** The storage driver's save() */
+  let saveFile: jest.Mock;
+  let attachments: AttachmentService;
+  let owner: WorkspaceScope;
+  let todoId: number;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    saveFile = jest.fn().mockResolvedValue(undefined);
+    const todos = createTestTodoService(prisma);
+    attachments = new AttachmentService(prisma, todos, {
+      save: saveFile,
+      read: jest.fn(),
+      delete: jest.fn(),
+    });
+
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    owner = { userId: user.id, workspaceId, role: WorkspaceRole.OWNER };
+    ({ id: todoId } = await todos.create(owner, { title: 'Receipts' }));
+  });
+
+  afterEach(() => db.close());
+
+  describe('upload', () => {
+    it('should save the file and its metadata', async () => {
+      const attachment = await attachments.upload(
+        owner,
+        todoId,
+        upload('../notes.txt', 'text/plain'),
+      );
+
+      expect(attachment).toMatchObject({
+        todoId,
+        uploadedById: owner.userId,
+        filename: 'notes.txt',
+        mimeType: 'text/plain',
+        size: 5,
+      });
+      expect(saveFile).toHaveBeenCalledWith(
+        expect.any(String),
+        Buffer.from('hello'),
+      );
+    });
+
+    it('should reject a request without a file', async () => {
+      await expect(
+        attachments.upload(owner, todoId, undefined),
+      ).rejects.toThrow('Upload the file as a "file" form field');
+    });
+
+    it('should reject file types that are not allowed', async () => {
+      await expect(
+        attachments.upload(owner, todoId, upload('run.sh', 'application/x-sh')),
+      ).rejects.toMatchObject({ status: 415 });
+      expect(saveFile).not.toHaveBeenCalled();
+    });
+
+    it('should not let a VIEW share attach files', async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Ben');
+      await prisma.todoShare.create({
+        data: { todoId, userId: user.id, permission: SharePermission.VIEW },
+      });
+      const guest = { userId: user.id, workspaceId, role: WorkspaceRole.OWNER };
+
+      await expect(
+        attachments.upload(guest, todoId, upload('a.txt', 'text/plain')),
+      ).rejects.toMatchObject({ status: 403 });
+      expect(saveFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'node:crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TodoService } from '../todo/todo.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { ATTACHMENT_STORAGE } from './attachment-storage';
+import type { AttachmentStorage } from './attachment-storage';
+import { ATTACHMENT_MIME_TYPES } from './attachment.constants';
+import { cleanFilename } from './attachment-filename';
+
+/**
+ * AttachmentService - Files attached to todos
+ *
+ * The metadata (name, type, size) is a row in the Attachment table, the
+ * bytes are kept by the storage driver (see AttachmentStorage).
+ *
+ * Access follows the todo:
+ * - Whoever can see a todo can list and download its attachments
+ * - Whoever can edit it (see TodoService.findEditable) can add and
+ *   delete them
+ *
+ * Files stay while their todo is in the trash, so restoring it brings the
+ * attachments back too; they are deleted when the trash is purged.
+ */
+@Injectable()
+export class AttachmentService {
+  private readonly logger = new Logger(AttachmentService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private todoService: TodoService,
+    @Inject(ATTACHMENT_STORAGE) private storage: AttachmentStorage,
+  ) {}
+
+  /**
+   * Attach an uploaded file to a todo
+   * @param scope - The caller and the active workspace
+   * @param todoId - The todo's unique identifier
+   * @param file - The file multer read from the "file" form field
+   * @returns The attachment's metadata
+   * @throws BadRequestException if no file was uploaded
+   * @throws UnsupportedMediaTypeException if the file type isn't allowed
+   * @throws NotFoundException if the caller can't see the todo
+   * @throws ForbiddenException if it was only shared with them to view
+   */
+  async upload(
+    scope: WorkspaceScope,
+    todoId: number,
+    file: Express.Multer.File | undefined,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Upload the file as a "file" form field');
+    }
+    // The type is the one the client declared - good enough to keep
+    // unexpected files out, and downloads are always sent as attachment
+    // with X-Content-Type-Options: nosniff, so browsers never run them
+    if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `Files of type ${file.mimetype} can't be attached. Allowed: ${ATTACHMENT_MIME_TYPES.join(', ')}`,
+      );
+    }
+
+    await this.todoService.findEditable(scope, todoId);
+
+    // The file is saved first: a row without a file would be a broken
+    // download, a file without a row is only wasted space
+    const storageKey = randomUUID();
+    await this.storage.save(storageKey, file.buffer);
+
+    try {
+      return await this.prisma.attachment.create({
+        data: {
+          todoId,
+          uploadedById: scope.userId,
+          filename: cleanFilename(file.originalname),
+          mimeType: file.mimetype,
+          size: file.size,
+          storageKey,
+        },
+      });
+    } catch (error) {
+      // e.g. the todo was deleted in the meantime
+      await this.storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the attachments of a todo, oldest first
+   * @param scope - The caller and the active workspace
+   * @param todoId - The todo's unique identifier
+   * @throws NotFoundException if the caller can't see the todo
+   */
+  async findAll(scope: WorkspaceScope, todoId: number) {
+    await this.todoService.findOne(scope, todoId, false);
+
+    return this.prisma.attachment.findMany({
+      where: { todoId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  /**
+   * Open an attached file for download
+   * @param scope - The caller and the active workspace
+   * @param todoId - The todo's unique identifier
+   * @param id - The attachment's unique identifier
+   * @returns The attachment's metadata and a stream of the file
+   * @throws NotFoundException if the caller can't see the todo, or it has
+   *         no such attachment
+   */
+  async download(scope: WorkspaceScope, todoId: number, id: number) {
+    await this.todoService.findOne(scope, todoId, false);
+    const attachment = await this.findAttachment(todoId, id);
+
+    const stream = await this.storage.read(attachment.storageKey);
+    return { attachment, stream };
+  }
+
+  /**
+   * Delete an attachment and its file
+   * @param scope - The caller and the active workspace
+   * @param todoId - The todo's unique identifier
+   * @param id - The attachment's unique identifier
+   * @returns The deleted attachment's metadata
+   * @throws NotFoundException if the caller can't see the todo, or it has
+   *         no such attachment
+   * @throws ForbiddenException if the todo was only shared with them to view
+   */
+  async remove(scope: WorkspaceScope, todoId: number, id: number) {
+    await this.todoService.findEditable(scope, todoId);
+    const { storageKey } = await this.findAttachment(todoId, id);
+
+    // Throws P2025 (a 404) if someone else deleted it in the meantime
+    const attachment = await this.prisma.attachment.delete({ where: { id } });
+    await this.deleteFiles([storageKey]);
+
+    return attachment;
+  }
+
+  /**
+   * Delete the files of the todos that are about to be deleted for good
+   *
+   * The rows go with their todos (onDelete: Cascade), but the database
+   * can't remove the files - so their keys are collected in the same
+   * transaction, and the files are deleted once it commits.
+   *
+   * @param db - The transaction that deletes the todos
+   * @param where - Matches the todos that are being deleted
+   * @returns How many attachments the todos had
+   */
+  async removeFilesOf(
+    db: Prisma.TransactionClient,
+    where: Prisma.TodoWhereInput,
+  ) {
+    const attachments = await db.attachment.findMany({
+      where: { todo: where },
+      select: { storageKey: true },
+    });
+
+    const keys = attachments.map((attachment) => attachment.storageKey);
+    if (keys.length > 0) {
+      this.prisma.afterCommit(db, () => void this.deleteFiles(keys));
+    }
+
+    return keys.length;
+  }
+
+  /**
+   * Load one of a todo's attachments, including its storage key
+   * @throws NotFoundException if the todo has no such attachment
+   */
+  private async findAttachment(todoId: number, id: number) {
+    const attachment = await this.prisma.attachment.findFirst({
+      where: { id, todoId },
+      omit: { storageKey: false },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Delete stored files
+   * The rows are gone already, so a failure can't be undone - it's
+   * logged (the file is left behind) instead of failing the request
+   */
+  private async deleteFiles(keys: string[]) {
+    const results = await Promise.allSettled(
+      keys.map((key) => this.storage.delete(key)),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `Could not delete attachment file ${keys[index]}: ${String(result.reason)}`,
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { mkdir, open, rm, writeFile } from 'node:fs/promises';
+import { resolve, sep } from 'node:path';
+import { Readable } from 'node:stream';
+import { AttachmentStorage } from './attachment-storage';
+import { ATTACHMENT_DIR } from './attachment.constants';
+
+/**
+ * LocalDiskStorage - The default attachment storage: one file per
+ * attachment in ATTACHMENT_DIR
+ *
+ * Fine for a single server. With several instances behind a load balancer
+ * they need a shared directory, or a driver for an object store instead.
+ */
+@Injectable()
+export class LocalDiskStorage implements AttachmentStorage {
+  private readonly root = resolve(ATTACHMENT_DIR);
+
+  async save(key: string, data: Buffer) {
+    await mkdir(this.root, { recursive: true });
+    // flag 'wx' fails instead of overwriting an existing file
+    await writeFile(this.pathOf(key), data, { flag: 'wx' });
+  }
+
+  async read(key: string): Promise<Readable> {
+    try {
+      // Opening first (instead of createReadStream alone) makes a missing
+      // file fail here, before the response has started
+      const handle = await open(this.pathOf(key), 'r');
+      return handle.createReadStream();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundException('The attached file is missing');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  /**
+   * The path of a key's file
+   * Keys are generated by AttachmentService, but a key that would point
+   * outside the root (e.g. "../x") is refused all the same
+   */
+  private pathOf(key: string) {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return path;
+  }
+}
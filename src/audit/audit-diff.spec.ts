@@ -0,0 +1,44 @@
+import { diffSnapshots, toSnapshot } from './audit-diff';
+
+describe('toSnapshot', () => {
+  it('should keep plain values, flatten tags and drop the rest', () => {
+    const snapshot = toSnapshot({
+      id: 1,
+      title: 'Trash',
+      dueAt: new Date('2026-10-20T18:00:00.000Z'),
+      updatedAt: new Date(),
+      tags: [{ name: 'weekly' }, { name: 'chores' }],
+      user: { id: 2, name: 'Ada' },
+    });
+
+    expect(snapshot).toEqual({
+      id: 1,
+      title: 'Trash',
+      dueAt: '2026-10-20T18:00:00.000Z',
+      tags: ['chores', 'weekly'],
+    });
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('should list every field of a created row', () => {
+    expect(diffSnapshots(null, { id: 1, title: 'New' })).toEqual({
+      id: { from: null, to: 1 },
+      title: { from: null, to: 'New' },
+    });
+  });
+
+  it('should only list the fields that changed', () => {
+    const before = { id: 1, completed: false, tags: ['a'] };
+    const after = { id: 1, completed: true, tags: ['a', 'b'] };
+
+    expect(diffSnapshots(before, after)).toEqual({
+      completed: { from: false, to: true },
+      tags: { from: ['a'], to: ['a', 'b'] },
+    });
+  });
+
+  it('should return nothing when no field changed', () => {
+    expect(diffSnapshots({ id: 1 }, { id: 1 })).toEqual({});
+  });
+});
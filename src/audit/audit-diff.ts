@@ -0,0 +1,66 @@
+/**
+ * Helpers that turn database rows into the "changes" stored on an AuditEvent
+ *
+ * A change set lists every field that differs between two snapshots:
+ *   { "title": { "from": "Old title", "to": "New title" } }
+ *
+ * - Created rows have every field with from: null
+ * - Dates are compared and stored as ISO strings
+ * - A list of tags is stored as the sorted tag names
+ * - Other relations (e.g. an included user), updatedAt and version are left out
+ */
+
+export type AuditValue = string | number | boolean | string[] | null;
+export type AuditSnapshot = Record<string, AuditValue>;
+export type AuditChanges = Record<string, { from: AuditValue; to: AuditValue }>;
+
+/** Fields that change on every write, or must never end up in the log */
+const IGNORED_FIELDS = ['updatedAt', 'version', 'passwordHash'];
+
+/**
+ * Reduce a row to the plain values the audit log compares
+ */
+export function toSnapshot(row: object): AuditSnapshot {
+  const snapshot: AuditSnapshot = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    if (IGNORED_FIELDS.includes(key) || value === undefined) continue;
+
+    if (value instanceof Date) {
+      snapshot[key] = value.toISOString();
+    } else if (Array.isArray(value)) {
+      snapshot[key] = (value as { name?: unknown }[])
+        .map((item) => String(item.name))
+        .sort();
+    } else if (value === null || typeof value !== 'object') {
+      snapshot[key] = value as AuditValue;
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots field by field
+ * @param before - The row before the change (null for a create)
+ * @param after - The row after the change
+ * @returns Only the fields whose value changed
+ */
+export function diffSnapshots(
+  before: AuditSnapshot | null,
+  after: AuditSnapshot,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const from = before?.[key] ?? null;
+    const to = after[key] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
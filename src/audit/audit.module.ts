@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+
+/**
+ * AuditModule - The change history of todos and users
+ *
+ * It has no controller of its own: the history is served by the routes
+ * of the audited resources (GET /todos/:id/history, GET /users/:id/activity),
+ * which already know who may see it.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,112 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { paginate } from '../common/pagination';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { diffSnapshots, toSnapshot } from './audit-diff';
+
+/** The kinds of rows the audit log tracks */
+export type AuditEntityType = 'Todo' | 'User';
+
+/** What happened to the row - delete means "moved to the trash" */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * One change to record
+ * - before is null (or left out) for a create
+ * - after is the row as it is once the change is applied
+ */
+export interface AuditEntry {
+  actorId: number;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before?: object | null;
+  after: object;
+}
+
+/**
+ * AuditService - Writes and reads the change history (AuditEvent rows)
+ *
+ * Why pass a transaction client to record()?
+ * - TodoService and UserService call it with the `tx` of the transaction
+ *   that makes the change, so the change and its audit event are committed
+ *   together - or rolled back together if anything fails
+ */
+@Injectable()
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record a single change
+   * Updates that didn't actually change any field are skipped
+   * @param db - The transaction the change is made in
+   */
+  async record(db: Prisma.TransactionClient, entry: AuditEntry) {
+    await this.recordMany(db, [entry]);
+  }
+
+  /**
+   * Record several changes with one INSERT, e.g. all the subtasks that
+   * were completed together with their parent
+   * @param db - The transaction the changes are made in
+   */
+  async recordMany(db: Prisma.TransactionClient, entries: AuditEntry[]) {
+    const data = entries
+      .map(({ before, after, ...event }) => ({
+        ...event,
+        changes: diffSnapshots(
+          before ? toSnapshot(before) : null,
+          toSnapshot(after),
+        ),
+      }))
+      .filter(
+        (event) =>
+          event.action !== 'update' || Object.keys(event.changes).length > 0,
+      );
+
+    if (data.length > 0) {
+      await db.auditEvent.createMany({ data });
+    }
+  }
+
+  /**
+   * Get one page of the history of a single row, newest first
+   * Callers are responsible for checking that the row is visible to the user
+   * @param path - The route used for the next/prev links
+   */
+  async findForEntity(
+    entityType: AuditEntityType,
+    entityId: number,
+    query: PaginationQueryDto,
+    path: string,
+  ) {
+    return this.findPage({ entityType, entityId }, query, path);
+  }
+
+  /**
+   * Get one page of everything a user has changed, newest first
+   * @param path - The route used for the next/prev links
+   */
+  async findForActor(actorId: number, query: PaginationQueryDto, path: string) {
+    return this.findPage({ actorId }, query, path);
+  }
+
+  private async findPage(
+    where: Prisma.AuditEventWhereInput,
+    query: PaginationQueryDto,
+    path: string,
+  ) {
+    const [events, total] = await this.prisma.$transaction([
+      this.prisma.auditEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: query.offset,
+        take: query.limit,
+      }),
+      this.prisma.auditEvent.count({ where }),
+    ]);
+
+    return paginate(events, total, query, path);
+  }
+}
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_QUERY_TOKEN = 'allowQueryToken';
+
+/**
+ * @AllowQueryToken() - Lets JwtAuthGuard also read the token from ?access_token=
+ *
+ * Why would a route need this?
+ * - The browser's EventSource (used for GET /todos/stream) can't send
+ *   an Authorization header, so the token has to go in the URL
+ *
+ * Why not allow it everywhere?
+ * - URLs end up in server logs and browser history, so tokens in them
+ *   leak more easily - only routes that can't use the header opt in
+ */
+export const AllowQueryToken = () => SetMetadata(ALLOW_QUERY_TOKEN, true);
@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_TRASHED_USER = 'allowTrashedUser';
+
+/**
+ * @AllowTrashedUser() - Lets JwtAuthGuard through callers whose account is
+ * in the trash
+ *
+ * Why would a route need this?
+ * - A trashed account can't do anything else, but its owner must still be
+ *   able to undo the deletion with POST /users/:id/restore
+ */
+export const AllowTrashedUser = () => SetMetadata(ALLOW_TRASHED_USER, true);
@@ -0,0 +1,19 @@
+/**
+ * AuthUser - The authenticated caller, as decoded from the access token
+ *
+ * JwtAuthGuard attaches this object to the request (request.user),
+ * and the @CurrentUser() decorator reads it back in controllers.
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+}
+
+/**
+ * JwtPayload - The claims stored inside a signed access token
+ * - sub: "subject", the standard JWT claim for the user's ID
+ */
+export interface JwtPayload {
+  sub: number;
+  email: string;
+}
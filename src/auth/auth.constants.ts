@@ -0,0 +1,16 @@
+/**
+ * Settings used to sign and verify JWT access tokens
+ *
+ * The secret should always come from the JWT_SECRET environment variable
+ * outside of local development - anyone who knows it can forge tokens.
+ */
+export const jwtConstants = {
+  secret: process.env.JWT_SECRET ?? 'dev-only-jwt-secret',
+  expiresIn: '1h',
+} as const;
+
+/**
+ * Cost factor for bcrypt - each +1 doubles the time needed to hash
+ * 10 is the commonly recommended default for web applications
+ */
+export const BCRYPT_SALT_ROUNDS = 10;
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { SignupDto } from './dto/signup.dto';
+import { LoginDto } from './dto/login.dto';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { CurrentUser } from './current-user.decorator';
+import type { AuthUser } from './auth-user.interface';
+
+/**
+ * AuthController - Public endpoints for getting an access token
+ *
+ * Send the returned accessToken on later requests as:
+ *   Authorization: Bearer <accessToken>
+ */
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * POST /auth/signup - Register a new account and log in
+   */
+  @Post('signup')
+  @ApiOperation({ summary: 'Register a new account' })
+  @ApiResponse({ status: 201, description: 'Account created, token issued' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 409, description: 'Email already registered' })
+  signup(@Body() signupDto: SignupDto) {
+    return this.authService.signup(signupDto);
+  }
+
+  /**
+   * POST /auth/login - Exchange credentials for an access token
+   *
+   * @HttpCode(200): POST defaults to 201 Created, but logging in
+   * doesn't create a resource
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Log in and receive an access token' })
+  @ApiResponse({ status: 200, description: 'Token issued' })
+  @ApiResponse({ status: 401, description: 'Invalid email or password' })
+  login(@Body() loginDto: LoginDto) {
+    return this.authService.login(loginDto);
+  }
+
+  /**
+   * GET /auth/me - Who does this token belong to?
+   */
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the authenticated user' })
+  @ApiResponse({ status: 200, description: 'The token owner' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid token' })
+  me(@CurrentUser() user: AuthUser) {
+    return user;
+  }
+}
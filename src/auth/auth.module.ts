@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { jwtConstants } from './auth.constants';
+import { AuditModule } from '../audit/audit.module';
+
+/**
+ * AuthModule - Feature module for signup, login and access tokens
+ *
+ * JwtModule.register({ global: true }):
+ * - Configures JwtService with our secret and token lifetime
+ * - global: true makes JwtService injectable everywhere, so JwtAuthGuard
+ *   can be used by TodoModule and UserModule without importing AuthModule
+ */
+@Module({
+  imports: [
+    JwtModule.register({
+      global: true,
+      secret: jwtConstants.secret,
+      signOptions: { expiresIn: jwtConstants.expiresIn },
+    }),
+    AuditModule, // Signups are recorded in the audit log
+  ],
+  controllers: [AuthController],
+  providers: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,113 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcryptjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { BCRYPT_SALT_ROUNDS } from './auth.constants';
+import { JwtPayload } from './auth-user.interface';
+import { SignupDto } from './dto/signup.dto';
+import { LoginDto } from './dto/login.dto';
+import { PERSONAL_WORKSPACE } from '../workspace/workspace-roles';
+
+/**
+ * AuthService - Business logic for signing up and logging in
+ *
+ * Passwords are hashed with bcrypt before they reach the database,
+ * and successful logins receive a signed JWT access token that
+ * JwtAuthGuard verifies on every protected request.
+ */
+@Injectable()
+export class AuthService {
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private audit: AuditService,
+  ) {}
+
+  /**
+   * Register a new account
+   * @param signupDto - Name, email and plain-text password
+   * @returns The access token and the created user (without the password hash)
+   * @throws Prisma P2002 (a 409, see PrismaExceptionFilter) if the email is
+   *         already registered - the unique index on email checks it, even
+   *         for two signups racing each other
+   */
+  async signup(signupDto: SignupDto) {
+    const passwordHash = await bcrypt.hash(
+      signupDto.password,
+      BCRYPT_SALT_ROUNDS,
+    );
+
+    // A new account is its own actor in the audit log
+    const user = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          name: signupDto.name,
+          email: signupDto.email,
+          passwordHash,
+          // Every account starts with a workspace of its own
+          memberships: PERSONAL_WORKSPACE,
+        },
+      });
+
+      await this.audit.record(tx, {
+        actorId: created.id,
+        entityType: 'User',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      });
+      return created;
+    });
+
+    return {
+      accessToken: await this.signToken(user.id, signupDto.email),
+      user,
+    };
+  }
+
+  /**
+   * Exchange an email and password for an access token
+   * @param loginDto - The credentials to check
+   * @returns The access token and the logged-in user
+   * @throws UnauthorizedException if the email or password is wrong, or the
+   *         account is in the trash
+   */
+  async login(loginDto: LoginDto) {
+    // passwordHash is omitted from every query by default (see PrismaService),
+    // so we explicitly ask for it here - the only place that needs it
+    const user = await this.prisma.user.findUnique({
+      where: { email: loginDto.email },
+      omit: { passwordHash: false },
+    });
+
+    // Use the same message for "unknown email" and "wrong password"
+    // so the response doesn't reveal which emails are registered
+    if (!user?.passwordHash) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    const { passwordHash, ...profile } = user;
+    const valid = await bcrypt.compare(loginDto.password, passwordHash);
+
+    if (!valid) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    // Checked after the password, so it doesn't reveal anything about
+    // accounts the caller can't log in to
+    if (user.deletedAt) {
+      throw new UnauthorizedException('This account is in the trash');
+    }
+
+    return {
+      accessToken: await this.signToken(user.id, loginDto.email),
+      user: profile,
+    };
+  }
+
+  private signToken(userId: number, email: string) {
+    const payload: JwtPayload = { sub: userId, email };
+    return this.jwtService.signAsync(payload);
+  }
+}
@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { getRequest } from '../common/get-request';
+import { AuthUser } from './auth-user.interface';
+
+/**
+ * @CurrentUser() - Injects the authenticated caller into a route handler
+ *
+ * Only works on routes (and GraphQL resolvers) protected by JwtAuthGuard,
+ * which sets request.user
+ *
+ * Example:
+ *   @Get()
+ *   findAll(@CurrentUser() user: AuthUser) { ... }
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser => {
+    return getRequest<Request & { user: AuthUser }>(context).user;
+  },
+);
@@ -0,0 +1,22 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * LoginDto - Data Transfer Object for exchanging credentials for a token
+ */
+export class LoginDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'john@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Account password',
+    example: 'correct-horse-battery',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
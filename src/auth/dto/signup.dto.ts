@@ -0,0 +1,34 @@
+import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * SignupDto - Data Transfer Object for registering a new account
+ *
+ * - @IsEmail() rejects anything that isn't a well-formed email address
+ * - @MinLength(8) enforces a minimum password length
+ */
+export class SignupDto {
+  @ApiProperty({
+    description: 'The name of the user',
+    example: 'John Doe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Email address used to log in (must be unique)',
+    example: 'john@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Account password (at least 8 characters)',
+    example: 'correct-horse-battery',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  password: string;
+}
@@ -0,0 +1,110 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { Request } from 'express';
+import { getRequest } from '../common/get-request';
+import { PrismaService } from '../prisma/prisma.service';
+import { jwtConstants } from './auth.constants';
+import { AuthUser, JwtPayload } from './auth-user.interface';
+import { ALLOW_QUERY_TOKEN } from './allow-query-token.decorator';
+import { ALLOW_TRASHED_USER } from './allow-trashed-user.decorator';
+
+/**
+ * JwtAuthGuard - Protects routes that require a logged-in user
+ *
+ * What is a Guard?
+ * - Guards run before the route handler and decide if the request may continue
+ * - Returning true lets the request through, throwing stops it
+ * - Apply them with @UseGuards(JwtAuthGuard) on a controller or a single route
+ *   - or on a GraphQL resolver, which gets the same request (see getRequest)
+ *
+ * How it works:
+ * 1. Reads the token from the "Authorization: Bearer <token>" header
+ *    (or from ?access_token= on routes marked with @AllowQueryToken())
+ * 2. Verifies the signature and expiry with JwtService
+ * 3. Checks the account still exists and isn't in the trash - a token
+ *    stays valid until it expires, even after its account is deleted
+ *    (only routes marked with @AllowTrashedUser() accept trashed accounts)
+ * 4. Attaches the caller to request.user so handlers know who is calling
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private jwtService: JwtService,
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = getRequest<Request & { user?: AuthUser }>(context);
+    const token =
+      this.extractToken(request) ?? this.extractQueryToken(context, request);
+
+    if (!token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
+        secret: jwtConstants.secret,
+      });
+    } catch {
+      // Bad signature, malformed token or expired token
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    await this.assertActiveAccount(context, payload.sub);
+    request.user = { id: payload.sub, email: payload.email };
+    return true;
+  }
+
+  /**
+   * @throws UnauthorizedException if the account was purged
+   * @throws ForbiddenException if the account is in the trash, unless the
+   *         route is marked with @AllowTrashedUser()
+   */
+  private async assertActiveAccount(context: ExecutionContext, id: number) {
+    const account = await this.prisma.user.findUnique({
+      where: { id },
+      select: { deletedAt: true },
+    });
+
+    if (!account) {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    const allowTrashed = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_TRASHED_USER,
+      [context.getHandler(), context.getClass()],
+    );
+    if (account.deletedAt && !allowTrashed) {
+      throw new ForbiddenException(
+        'This account is in the trash - restore it first',
+      );
+    }
+  }
+
+  private extractToken(request: Request): string | undefined {
+    const [type, token] = request.headers.authorization?.split(' ') ?? [];
+    return type === 'Bearer' ? token : undefined;
+  }
+
+  private extractQueryToken(context: ExecutionContext, request: Request) {
+    // Reflector reads the metadata set by @AllowQueryToken() on the
+    // handler, or on the whole controller
+    const allowed = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_QUERY_TOKEN,
+      [context.getHandler(), context.getClass()],
+    );
+    const token = request.query.access_token;
+
+    return allowed && typeof token === 'string' ? token : undefined;
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CalendarService } from './calendar.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+
+/**
+ * CalendarController - The iCalendar feed and its feed token
+ *
+ * Why isn't JwtAuthGuard on the whole controller?
+ * - The feed itself is fetched by calendar apps, which can't send an
+ *   access token - it is protected by the token in its URL instead
+ * - Managing the feed token still requires a logged-in account owner, so
+ *   those routes add the guard themselves
+ */
+@ApiTags('calendar')
+@Controller('users')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  /**
+   * GET /users/:id/calendar.ics?token=... - The user's todos as a calendar
+   *
+   * Subscribe to the full URL in a calendar app ("Add calendar from URL").
+   * Each todo with a due date appears as a task (VTODO) and an event
+   * (VEVENT) at its due date; completed todos are marked as such.
+   */
+  @Get(':id/calendar.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'inline; filename="todos.ics"')
+  @ApiOperation({ summary: "Get a user's todos as an iCalendar feed" })
+  @ApiProduces('text/calendar')
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiQuery({
+    name: 'token',
+    description: 'The feed token from POST /users/:id/calendar-token',
+  })
+  @ApiResponse({ status: 200, description: 'The iCalendar (.ics) file' })
+  @ApiResponse({ status: 404, description: 'Unknown user or wrong token' })
+  feed(@Param('id', ParseIntPipe) id: number, @Query('token') token?: string) {
+    return this.calendarService.renderFeed(id, token);
+  }
+
+  /**
+   * POST /users/:id/calendar-token - Create the secret feed URL
+   *
+   * Calling it again replaces the token, so the previous URL stops working.
+   * The token is shown only once - store the returned URL.
+   */
+  @Post(':id/calendar-token')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create (or replace) the calendar feed token' })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiResponse({ status: 201, description: 'The new token and feed URL' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid token' })
+  @ApiResponse({ status: 403, description: 'Not your account' })
+  createToken(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.calendarService.createToken(user.id, id);
+  }
+
+  /**
+   * DELETE /users/:id/calendar-token - Revoke the feed URL
+   *
+   * 204 No Content: there is nothing left to return
+   */
+  @Delete(':id/calendar-token')
+  @HttpCode(204)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke the calendar feed token' })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiResponse({ status: 204, description: 'The feed URL no longer works' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid token' })
+  @ApiResponse({ status: 403, description: 'Not your account' })
+  revokeToken(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.calendarService.revokeToken(user.id, id);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { CalendarService } from './calendar.service';
+import { CalendarController } from './calendar.controller';
+import { UserModule } from '../user/user.module';
+
+/**
+ * CalendarModule - The iCalendar (.ics) feed of a user's todos
+ *
+ * Imports UserModule for UserService, which checks that only the account
+ * owner manages their feed token.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  imports: [UserModule],
+  controllers: [CalendarController],
+  providers: [CalendarService],
+})
+export class CalendarModule {}
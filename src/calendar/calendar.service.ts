@@ -0,0 +1,112 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { createSecretToken, hashSecretToken } from '../common/secret-token';
+import { UserService } from '../user/user.service';
+import { CalendarTodo, renderCalendar } from './ical';
+
+/**
+ * CalendarService - The iCalendar feed of a user's todos
+ *
+ * How do calendar subscriptions authenticate?
+ * - Calendar apps fetch a subscribed URL on their own, every few hours,
+ *   and can't send an Authorization header or log in
+ * - So the feed URL itself carries a long random secret (the feed token)
+ * - The token only grants read access to the feed - nothing else
+ * - Creating a new token replaces the old one, and revoking it deletes it,
+ *   so a leaked URL stops working immediately
+ */
+@Injectable()
+export class CalendarService {
+  constructor(
+    private prisma: PrismaService,
+    private userService: UserService,
+  ) {}
+
+  /**
+   * Create a new feed token, replacing (and so revoking) any previous one
+   *
+   * The token is only ever returned here - the database keeps a hash of
+   * it - so a lost feed URL can't be looked up, only replaced.
+   *
+   * @param actorId - The authenticated user making the change
+   * @param id - The user whose feed it is
+   * @returns The token and the feed URL to subscribe to
+   * @throws ForbiddenException if the caller isn't the account owner
+   * @throws NotFoundException if user doesn't exist
+   */
+  async createToken(actorId: number, id: number) {
+    this.userService.assertSelf(actorId, id);
+    await this.userService.findAccount(id);
+
+    const token = createSecretToken();
+
+    await this.prisma.user.update({
+      where: { id },
+      data: { calendarTokenHash: hashSecretToken(token) },
+    });
+
+    return { token, url: `/users/${id}/calendar.ics?token=${token}` };
+  }
+
+  /**
+   * Revoke the feed token - subscribed calendars stop receiving updates
+   * @param actorId - The authenticated user making the change
+   * @param id - The user whose feed it is
+   * @throws ForbiddenException if the caller isn't the account owner
+   * @throws NotFoundException if user doesn't exist
+   */
+  async revokeToken(actorId: number, id: number) {
+    this.userService.assertSelf(actorId, id);
+    await this.userService.findAccount(id);
+
+    await this.prisma.user.update({
+      where: { id },
+      data: { calendarTokenHash: null },
+    });
+  }
+
+  /**
+   * Render the user's todos that have a due date as an .ics file
+   *
+   * Only todos from workspaces the user is still a member of: someone who
+   * was removed from a workspace loses its todos here too, like everywhere
+   * else - even the ones they created.
+   *
+   * A wrong token gets the same 404 as a missing user, so the endpoint
+   * doesn't reveal which user IDs exist or have a feed.
+   *
+   * @param id - The user whose feed it is
+   * @param token - The secret from the feed URL
+   * @returns The iCalendar text
+   * @throws NotFoundException if the user doesn't exist or the token is wrong
+   */
+  async renderFeed(id: number, token: string | undefined) {
+    // The unique hash column doubles as the lookup index
+    const user = token
+      ? await this.prisma.user.findFirst({
+          where: {
+            id,
+            deletedAt: null,
+            calendarTokenHash: hashSecretToken(token),
+          },
+        })
+      : null;
+
+    if (!user) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const todos = await this.prisma.todo.findMany({
+      where: {
+        userId: id,
+        deletedAt: null,
+        dueAt: { not: null },
+        workspace: { members: { some: { userId: id } } },
+      },
+      orderBy: [{ dueAt: 'asc' }, { id: 'asc' }],
+    });
+
+    // The where clause guarantees a dueAt, which the type can't express
+    return renderCalendar(`${user.name}'s todos`, todos as CalendarTodo[]);
+  }
+}
@@ -0,0 +1,82 @@
+import { CalendarTodo, escapeText, foldLine, renderCalendar } from './ical';
+
+const todo = (overrides: Partial<CalendarTodo> = {}): CalendarTodo => ({
+  id: 7,
+  title: 'Pay rent',
+  description: null,
+  completed: false,
+  completedAt: null,
+  priority: 'HIGH',
+  dueAt: new Date('2026-11-01T09:00:00.000Z'),
+  createdAt: new Date('2026-10-19T08:00:00.000Z'),
+  updatedAt: new Date('2026-10-19T08:30:00.000Z'),
+  ...overrides,
+});
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+describe('renderCalendar', () => {
+  it('should render a VTODO and a VEVENT with stable UIDs', () => {
+    const ics = renderCalendar('Ann', [todo()], now);
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:todo-7@todos.prismademo',
+        'UID:todo-7-due@todos.prismademo',
+        'DUE:20261101T090000Z',
+        'DTSTART:20261101T090000Z',
+        'DTSTAMP:20261019T120000Z',
+        'STATUS:NEEDS-ACTION',
+        'PRIORITY:3',
+      ]),
+    );
+    // Rendering again later must not change the UIDs
+    expect(renderCalendar('Ann', [todo()])).toContain(
+      'UID:todo-7@todos.prismademo',
+    );
+  });
+
+  it('should mark completed todos', () => {
+    const ics = renderCalendar(
+      'Ann',
+      [
+        todo({
+          completed: true,
+          completedAt: new Date('2026-10-20T10:00:00.000Z'),
+        }),
+      ],
+      now,
+    );
+
+    expect(ics).toContain('STATUS:COMPLETED\r\n');
+    expect(ics).toContain('COMPLETED:20261020T100000Z\r\n');
+    expect(ics).toContain('SUMMARY:✓ Pay rent\r\n');
+  });
+});
+
+describe('escapeText', () => {
+  it('should escape special characters', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+});
+
+describe('foldLine', () => {
+  it('should fold lines longer than 75 bytes without splitting characters', () => {
+    const line = 'SUMMARY:' + 'é'.repeat(60);
+    const parts = foldLine(line).split('\r\n');
+
+    expect(parts.length).toBe(2);
+    expect(Buffer.byteLength(parts[0])).toBeLessThanOrEqual(75);
+    expect(parts[1].startsWith(' ')).toBe(true);
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(
+      line,
+    );
+  });
+
+  it('should leave short lines alone', () => {
+    expect(foldLine('VERSION:2.0')).toBe('VERSION:2.0');
+  });
+});
@@ -0,0 +1,183 @@
+import { Priority, Todo } from '@prisma/client';
+
+/**
+ * Minimal iCalendar (RFC 5545) writer for the calendar feed
+ *
+ * What does an .ics file look like?
+ * - Plain text lines of NAME:VALUE, wrapped in BEGIN:/END: blocks
+ * - A VCALENDAR contains components such as VTODO (a task) and VEVENT
+ *   (something at a point in time)
+ * - Lines end in \r\n and are "folded" after 75 bytes: the rest of the line
+ *   continues on the next line, which starts with a space
+ *
+ * Every todo becomes two components:
+ * - A VTODO, for task-aware clients (Apple Reminders, Thunderbird, ...)
+ * - A VEVENT at the due date, because many calendar apps (e.g. Google
+ *   Calendar) ignore VTODOs entirely
+ *
+ * Why stable UIDs?
+ * - Calendar clients match entries by UID when they refresh the feed, so
+ *   a todo must keep the same UID for its whole life - otherwise every
+ *   refresh would look like "delete everything, add everything"
+ * - The UIDs are derived from the todo id, which never changes
+ *
+ * Why no RRULE for recurring todos?
+ * - Every occurrence is its own todo, created when the previous one is
+ *   completed - repeating the entry in the calendar as well would show
+ *   each upcoming occurrence twice
+ */
+
+/** The todo fields the feed needs - todos without a due date are left out */
+export type CalendarTodo = Pick<
+  Todo,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'completed'
+  | 'completedAt'
+  | 'priority'
+  | 'createdAt'
+  | 'updatedAt'
+> & { dueAt: Date };
+
+/** Identifies the app that produced the file (required by RFC 5545) */
+const PRODUCT_ID = '-//PrismaDemo//Todo Calendar Feed//EN';
+
+/** The right-hand side of every UID, so ours don't clash with other feeds */
+const UID_DOMAIN = 'todos.prismademo';
+
+/** iCalendar priorities run from 1 (highest) to 9 (lowest) */
+const ICAL_PRIORITY: Record<Priority, number> = {
+  URGENT: 1,
+  HIGH: 3,
+  MEDIUM: 5,
+  LOW: 9,
+};
+
+/** The longest line allowed before folding, in bytes */
+const MAX_LINE_BYTES = 75;
+
+/** The UIDs of a todo's two components */
+export function todoUids(id: number) {
+  return {
+    todo: `todo-${id}@${UID_DOMAIN}`,
+    event: `todo-${id}-due@${UID_DOMAIN}`,
+  };
+}
+
+/**
+ * Render a whole calendar
+ * @param name - Shown by calendar apps as the name of the subscription
+ * @param todos - The todos to include, each with a due date
+ * @param now - The DTSTAMP of every component (when the feed was generated)
+ */
+export function renderCalendar(
+  name: string,
+  todos: CalendarTodo[],
+  now = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...todos.flatMap((todo) => [
+      ...renderTodo(todo, now),
+      ...renderEvent(todo, now),
+    ]),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function renderTodo(todo: CalendarTodo, now: Date): string[] {
+  return [
+    'BEGIN:VTODO',
+    `UID:${todoUids(todo.id).todo}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(todo.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(todo.updatedAt)}`,
+    `SUMMARY:${escapeText(todo.title)}`,
+    ...(todo.description
+      ? [`DESCRIPTION:${escapeText(todo.description)}`]
+      : []),
+    `DUE:${formatDateTime(todo.dueAt)}`,
+    `PRIORITY:${ICAL_PRIORITY[todo.priority]}`,
+    `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    ...(todo.completed && todo.completedAt
+      ? [
+          `COMPLETED:${formatDateTime(todo.completedAt)}`,
+          'PERCENT-COMPLETE:100',
+        ]
+      : []),
+    'END:VTODO',
+  ];
+}
+
+function renderEvent(todo: CalendarTodo, now: Date): string[] {
+  // VEVENTs have no "completed" status, so the title says it instead
+  const summary = todo.completed ? `✓ ${todo.title}` : todo.title;
+
+  // With a DTSTART but no DTEND, the event is a single point in time
+  return [
+    'BEGIN:VEVENT',
+    `UID:${todoUids(todo.id).event}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(todo.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(todo.updatedAt)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(todo.description
+      ? [`DESCRIPTION:${escapeText(todo.description)}`]
+      : []),
+    `DTSTART:${formatDateTime(todo.dueAt)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/** 2026-10-19T09:05:00.000Z -> 20261019T090500Z (always UTC) */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/** Backslashes, semicolons, commas and newlines must be escaped in text values */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a line into chunks of at most 75 bytes, joined by \r\n + space
+ * Counts UTF-8 bytes, and never splits a multi-byte character in two
+ */
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let bytes = 0;
+  // Continuation lines start with a space, which counts towards their length
+  let limit = MAX_LINE_BYTES;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      bytes = 0;
+      limit = MAX_LINE_BYTES - 1;
+    }
+    chunk += char;
+    bytes += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
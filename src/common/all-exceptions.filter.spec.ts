@@ -0,0 +1,88 @@
+import { ArgumentsHost, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+
+/** An HTTP request to the path, and the response the filter writes to */
+const httpHost = (path: string) => {
+  const response = {
+    headersSent: false,
+    status: jest.fn().mockReturnThis(),
+    type: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+  const host = {
+    getType: () => 'http',
+    switchToHttp: () => ({
+      getRequest: () => ({ originalUrl: path }),
+      getResponse: () => response,
+    }),
+  } as unknown as ArgumentsHost;
+  return { host, response };
+};
+
+const graphqlHost = { getType: () => 'graphql' } as unknown as ArgumentsHost;
+
+describe('AllExceptionsFilter', () => {
+  const filter = new AllExceptionsFilter();
+
+  let logError: jest.SpyInstance;
+
+  beforeEach(() => {
+    logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should send an unexpected error as a 500 problem and log it', () => {
+    const { host, response } = httpHost('/todos');
+    const error = new TypeError(
+      "Cannot read properties of undefined (reading 'id')",
+    );
+
+    filter.catch(error, host);
+
+    expect(response.status).toHaveBeenCalledWith(500);
+    expect(response.type).toHaveBeenCalledWith('application/problem+json');
+    expect(response.json).toHaveBeenCalledWith({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Something went wrong on our side',
+      instance: '/todos',
+    });
+    expect(logError).toHaveBeenCalledWith(error.message, error.stack);
+  });
+
+  it('should send a Prisma validation error as a 400', () => {
+    const { host, response } = httpHost('/todos/1');
+    const error = new Prisma.PrismaClientValidationError(
+      'Argument `priority` must not be null.',
+      { clientVersion: '7.0.0' },
+    );
+
+    filter.catch(error, host);
+
+    expect(response.status).toHaveBeenCalledWith(400);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Bad Request', status: 400 }),
+    );
+  });
+
+  it('should return the problem as a GraphQL error', () => {
+    const result = filter.catch(new Error('Boom'), graphqlHost);
+
+    expect(result).toBeInstanceOf(GraphQLError);
+    expect((result as GraphQLError).extensions).toMatchObject({
+      code: 'INTERNAL_SERVER_ERROR',
+      problem: { status: 500 },
+    });
+  });
+
+  it("should leave GraphQL's own errors alone", () => {
+    const error = new GraphQLError('Query is too complex');
+
+    expect(filter.catch(error, graphqlHost)).toBe(error);
+  });
+});
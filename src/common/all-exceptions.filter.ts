@@ -0,0 +1,91 @@
+import { ArgumentsHost, Catch, HttpStatus, Logger } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { GqlContextType } from '@nestjs/graphql';
+import { GraphQLError } from 'graphql';
+import { Prisma } from '@prisma/client';
+import type { Request, Response } from 'express';
+import { ProblemDetails, statusTitle } from './problem-details';
+
+/**
+ * AllExceptionsFilter - Sends every other error as problem+json
+ *
+ * @Catch() without a type catches everything, so this is the filter for
+ * what HttpExceptionFilter and PrismaExceptionFilter don't handle: a bug
+ * (TypeError, ...), a database error Prisma doesn't give a code for, ...
+ * Without it those would get Nest's { statusCode, message } body instead.
+ *
+ * What does the client get?
+ * - A PrismaClientValidationError (a query with a value of the wrong type
+ *   that got past the DTOs) -> 400 Bad Request
+ * - Anything else -> 500 Internal Server Error; the detail doesn't say
+ *   what went wrong, that is only logged (with the stack trace)
+ * - GraphQL: an error for the field that failed, with the same body in
+ *   its extensions (GraphQL's own errors are returned unchanged)
+ * - A response that has already started (a stream) is handed to
+ *   BaseExceptionFilter, like in HttpExceptionFilter
+ *
+ * Registered first in main.ts: Nest tries the global filters from the last
+ * one back, so the filters for a specific type get their errors first.
+ */
+@Catch()
+export class AllExceptionsFilter extends BaseExceptionFilter {
+  private readonly logger = new Logger('ExceptionsHandler');
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    if (host.getType<GqlContextType>() === 'graphql') {
+      if (exception instanceof GraphQLError) {
+        return exception;
+      }
+
+      const problem = this.toProblemDetails(exception);
+      return new GraphQLError(problem.detail, {
+        extensions: { code: HttpStatus[problem.status], problem },
+      });
+    }
+
+    const http = host.switchToHttp();
+    const response = http.getResponse<Response>();
+
+    if (response.headersSent) {
+      return super.catch(exception, host);
+    }
+
+    const request = http.getRequest<Request>();
+    const problem = this.toProblemDetails(exception, request.originalUrl);
+
+    response
+      .status(problem.status)
+      .type('application/problem+json')
+      .json(problem);
+  }
+
+  /** The body for an error no other filter handled; logs the error */
+  private toProblemDetails(
+    exception: unknown,
+    instance?: string,
+  ): ProblemDetails {
+    if (exception instanceof Prisma.PrismaClientValidationError) {
+      // Prisma's message quotes the whole query, so it isn't sent back
+      this.logger.warn(exception.message);
+      return {
+        type: 'about:blank',
+        title: statusTitle(HttpStatus.BAD_REQUEST),
+        status: HttpStatus.BAD_REQUEST,
+        detail: 'The request contains a value the database cannot store',
+        instance,
+      };
+    }
+
+    this.logger.error(
+      exception instanceof Error ? exception.message : String(exception),
+      exception instanceof Error ? exception.stack : undefined,
+    );
+    return {
+      type: 'about:blank',
+      title: statusTitle(HttpStatus.INTERNAL_SERVER_ERROR),
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      detail: 'Something went wrong on our side',
+      instance,
+    };
+  }
+}
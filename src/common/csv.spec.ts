@@ -0,0 +1,45 @@
+import { parseCsv, parseCsvObjects, toCsvLine } from './csv';
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and CRLF', () => {
+    const text = '\uFEFFtitle,notes\r\n"Buy milk","say ""hi"", twice"\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['title', 'notes'],
+      ['Buy milk', 'say "hi", twice'],
+    ]);
+  });
+
+  it('should keep newlines inside quotes and skip blank lines', () => {
+    expect(parseCsv('a\n\n"line 1\nline 2"\n')).toEqual([
+      ['a'],
+      ['line 1\nline 2'],
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('"open')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('parseCsvObjects', () => {
+  it('should key rows by the header and leave out empty cells', () => {
+    expect(parseCsvObjects('title, priority\nA,HIGH\nB,\n')).toEqual([
+      { title: 'A', priority: 'HIGH' },
+      { title: 'B' },
+    ]);
+  });
+});
+
+describe('toCsvLine', () => {
+  it('should quote only when needed and format dates', () => {
+    const date = new Date('2026-10-19T09:00:00.000Z');
+    expect(toCsvLine([1, 'a,b', 'say "hi"', null, date, true])).toBe(
+      '1,"a,b","say ""hi""",,2026-10-19T09:00:00.000Z,true\r\n',
+    );
+  });
+
+  it('should round-trip through parseCsv', () => {
+    const values = ['x', 'multi\nline', '"quoted"', ''];
+    expect(parseCsv(toCsvLine(values))).toEqual([values]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Minimal CSV reading and writing (RFC 4180)
+ *
+ * - Fields are separated by commas and records by newlines (\n or \r\n)
+ * - Fields containing a comma, quote or newline are wrapped in double quotes
+ * - A double quote inside a quoted field is written twice: "say ""hi"""
+ */
+
+/**
+ * Split CSV text into records of raw string fields
+ * Blank lines are skipped, and a leading byte order mark is ignored.
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    // A blank line parses as a single empty field - leave it out
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Turn CSV text with a header line into one object per record
+ * Empty cells are left out, so optional fields can simply be blank.
+ */
+export function parseCsvObjects(text: string): Record<string, string>[] {
+  const [header = [], ...records] = parseCsv(text);
+  const columns = header.map((column) => column.trim());
+
+  return records.map((record) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const value = record[index] ?? '';
+      if (column && value !== '') {
+        row[column] = value;
+      }
+    });
+    return row;
+  });
+}
+
+/**
+ * Format one record as a CSV line (including the trailing \r\n)
+ * Dates become ISO strings and null/undefined become empty cells.
+ */
+export function toCsvLine(values: unknown[]): string {
+  return values.map(toCsvField).join(',') + '\r\n';
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value as string | number | boolean);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,28 @@
+/**
+ * Small date helpers shared by the planning features
+ *
+ * All calculations use the server's local time zone, which is what
+ * "today" means for the due-today and agenda views.
+ */
+
+/** Midnight at the start of the given day */
+export function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/** The same time of day, `days` days later (negative values go back) */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Format a date as YYYY-MM-DD, e.g. for grouping by calendar day */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,44 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Largest page a client may ask for in one request */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * PaginationQueryDto - Shared query parameters for paged list endpoints
+ *
+ * Feature-specific query DTOs (TodoQueryDto, UserQueryDto) extend this class
+ * and add their own filters and the list of fields they can be sorted by.
+ *
+ * Why @Type(() => Number)?
+ * - Query string values are always strings ("20", not 20)
+ * - @Type tells class-transformer to convert them before @IsInt() runs
+ *
+ * Example: GET /todos?limit=10&offset=20 returns items 21-30
+ */
+export class PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Maximum number of items to return',
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    default: 20,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  @IsOptional()
+  limit: number = 20;
+
+  @ApiPropertyOptional({
+    description: 'Number of items to skip before the first returned item',
+    minimum: 0,
+    default: 0,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+}
@@ -0,0 +1,37 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import { formatEtag } from './etag';
+
+/**
+ * EtagInterceptor - Sends the version of the returned record, plus a hash
+ * of the whole body, as its ETag (see formatEtag)
+ *
+ * What is an Interceptor?
+ * - Code that wraps a route handler: it can act before the handler runs
+ *   and on the value it returns (an RxJS Observable)
+ * - Apply it with @UseInterceptors(EtagInterceptor) on a route
+ *
+ * Why is If-None-Match handled for free?
+ * - Express compares If-None-Match to the ETag header of a GET response
+ *   before sending it, and answers 304 Not Modified if they match
+ */
+@Injectable()
+export class EtagInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const response = context.switchToHttp().getResponse<Response>();
+
+    return next.handle().pipe(
+      tap((body: { version?: unknown } | undefined) => {
+        if (typeof body?.version === 'number') {
+          response.setHeader('ETag', formatEtag(body.version, body));
+        }
+      }),
+    );
+  }
+}
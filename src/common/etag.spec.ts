@@ -0,0 +1,47 @@
+import { PreconditionFailedException } from '@nestjs/common';
+import { assertIfMatch, formatEtag, parseIfMatch } from './etag';
+
+describe('etag', () => {
+  it('should format a version as a strong ETag', () => {
+    expect(formatEtag(3)).toBe('"3"');
+  });
+
+  it('should add a hash of the body that changes with it', () => {
+    const etag = formatEtag(3, { version: 3, progress: { done: 1 } });
+
+    expect(etag).toMatch(/^"3-[\w-]{16}"$/);
+    expect(formatEtag(3, { version: 3, progress: { done: 1 } })).toBe(etag);
+    expect(formatEtag(3, { version: 3, progress: { done: 2 } })).not.toBe(etag);
+  });
+
+  describe('parseIfMatch', () => {
+    it('should accept any version without a header or with *', () => {
+      expect(parseIfMatch(undefined)).toBeUndefined();
+      expect(parseIfMatch(' * ')).toBeUndefined();
+    });
+
+    it('should list the versions of the strong ETags', () => {
+      expect(parseIfMatch('"3", W/"4" ,"5", "abc"')).toEqual([3, 5]);
+    });
+
+    it('should read the version of an ETag with a body hash', () => {
+      expect(parseIfMatch('"7-q2Vh1c0X_gLw8a-b"')).toEqual([7]);
+    });
+  });
+
+  describe('assertIfMatch', () => {
+    it('should pass when the version is listed', () => {
+      expect(() => assertIfMatch('"2", "3"', 3)).not.toThrow();
+      expect(() => assertIfMatch(undefined, 3)).not.toThrow();
+    });
+
+    it('should throw 412 when the version is not listed', () => {
+      expect(() => assertIfMatch('"2"', 3)).toThrow(
+        PreconditionFailedException,
+      );
+      expect(() => assertIfMatch('W/"3"', 3)).toThrow(
+        PreconditionFailedException,
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { PreconditionFailedException } from '@nestjs/common';
+import { createHash } from 'node:crypto';
+
+/**
+ * ETag helpers for optimistic concurrency
+ *
+ * What is an ETag?
+ * - A response header that identifies one version of a resource,
+ *   e.g. ETag: "3" for version 3 of a todo
+ * - Clients send it back to make a request conditional:
+ *   - If-None-Match: "3" on a GET - "only send it if it changed"
+ *     (otherwise the answer is 304 Not Modified, without a body)
+ *   - If-Match: "3" on a PATCH/DELETE - "only change it if it's still
+ *     version 3" (otherwise the answer is 412 Precondition Failed)
+ *
+ * Why "optimistic" concurrency?
+ * - Nothing is locked while a user edits; instead, a save that started from
+ *   an old version is refused, so it can't silently overwrite someone
+ *   else's change. The client reloads, merges and tries again.
+ *
+ * Our ETags start with the record's version column, which goes up on every
+ * write, e.g. "3-q2Vh1c0XgLw8aX0b":
+ * - The hash after the dash covers the rest of the response body: a todo's
+ *   subtask progress, tags and user can change without a new version, and
+ *   If-None-Match must not answer 304 for a body that has changed
+ * - If-Match only compares the version: a PATCH changes the record's own
+ *   fields, so it only conflicts with changes to those. A bare "3" works
+ *   there too
+ */
+
+/**
+ * The ETag of a version, e.g. 3 -> "3"
+ * @param body - The response body, whose hash is added: 3 -> "3-q2Vh1c..."
+ */
+export function formatEtag(version: number, body?: unknown): string {
+  if (body === undefined) {
+    return `"${version}"`;
+  }
+
+  const digest = createHash('sha256')
+    .update(JSON.stringify(body))
+    .digest('base64url')
+    .slice(0, 16);
+  return `"${version}-${digest}"`;
+}
+
+/**
+ * The versions an If-Match header accepts
+ * - If-Match: "3", "4-q2Vh1c..." -> [3, 4]
+ * - Weak ETags (W/"3") never match for If-Match, and unknown ones are skipped
+ * @returns undefined when any version will do (no header, or *)
+ */
+export function parseIfMatch(header?: string): number[] | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  return header
+    .split(',')
+    .map((tag) => /^"(\d+)(?:-[\w-]+)?"$/.exec(tag.trim()))
+    .filter((match) => match !== null)
+    .map((match) => Number(match[1]));
+}
+
+/**
+ * Refuse a change when the client's copy is out of date
+ * @param header - The If-Match header of the request
+ * @param version - The record's current version
+ * @throws PreconditionFailedException (412) if the header names other versions
+ */
+export function assertIfMatch(header: string | undefined, version: number) {
+  const versions = parseIfMatch(header);
+
+  if (versions && !versions.includes(version)) {
+    throw new PreconditionFailedException(
+      `The resource has changed since you read it (current ETag ${formatEtag(version)})`,
+    );
+  }
+}
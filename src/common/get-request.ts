@@ -0,0 +1,22 @@
+import { ExecutionContext } from '@nestjs/common';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { Request } from 'express';
+
+/**
+ * Get the HTTP request behind a REST route or a GraphQL resolver
+ *
+ * Why is this needed?
+ * - For REST, Nest hands guards and decorators the request directly
+ *   (context.switchToHttp().getRequest())
+ * - For GraphQL, the request is tucked away in the GraphQL context that
+ *   GraphQLModule builds for every operation (see GraphqlModule)
+ *
+ * Guards and decorators that use this helper work for both APIs.
+ */
+export function getRequest<T = Request>(context: ExecutionContext): T {
+  if (context.getType<GqlContextType>() === 'graphql') {
+    return GqlExecutionContext.create(context).getContext<{ req: T }>().req;
+  }
+
+  return context.switchToHttp().getRequest<T>();
+}
@@ -0,0 +1,54 @@
+import {
+  ArgumentsHost,
+  Catch,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { GqlContextType } from '@nestjs/graphql';
+import { GraphQLError } from 'graphql';
+import type { Request, Response } from 'express';
+import { httpProblemDetails } from './problem-details';
+
+/**
+ * HttpExceptionFilter - Sends every HttpException as problem+json
+ *
+ * Works like PrismaExceptionFilter, for the errors our own code (and Nest's
+ * pipes and guards) throw: NotFoundException, the 412 of a stale If-Match,
+ * ValidationPipe's 400, ... So a 404 has the same body whether the service
+ * checked first or the database said so.
+ *
+ * What does the client get?
+ * - REST: the problem+json body with Content-Type application/problem+json
+ * - GraphQL: an error for the field that failed, with the same body in
+ *   its extensions (and e.g. NOT_FOUND as its code)
+ * - A response that has already started (a stream) can't be changed any
+ *   more, so those are handed to BaseExceptionFilter, Nest's default
+ */
+@Catch(HttpException)
+export class HttpExceptionFilter extends BaseExceptionFilter {
+  catch(exception: HttpException, host: ArgumentsHost) {
+    if (host.getType<GqlContextType>() === 'graphql') {
+      const problem = httpProblemDetails(exception);
+      // GraphQL reports the returned error for the field being resolved
+      return new GraphQLError(problem.detail, {
+        extensions: { code: HttpStatus[problem.status], problem },
+      });
+    }
+
+    const http = host.switchToHttp();
+    const response = http.getResponse<Response>();
+
+    if (response.headersSent) {
+      return super.catch(exception, host);
+    }
+
+    const request = http.getRequest<Request>();
+    const problem = httpProblemDetails(exception, request.originalUrl);
+
+    response
+      .status(problem.status)
+      .type('application/problem+json')
+      .json(problem);
+  }
+}
@@ -0,0 +1,260 @@
+import { BadRequestException, HttpException } from '@nestjs/common';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { ValidationError, validate } from 'class-validator';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseCsvObjects } from './csv';
+
+/**
+ * Shared helpers for the file import endpoints (POST /todos/import, POST /users/import)
+ *
+ * An import goes through three steps:
+ * 1. readImportFile() turns the uploaded file into plain row objects
+ * 2. validateImportRows() checks every row against the Create DTO, exactly
+ *    like the ValidationPipe checks a JSON body, and collects the errors
+ * 3. runImport() inserts the valid rows in one transaction (or, in dry-run
+ *    mode, rolls that transaction back) and returns an ImportReport
+ */
+
+/** Largest file accepted by the import endpoints (1 MB) */
+export const MAX_IMPORT_BYTES = 1024 * 1024;
+
+/** Most rows accepted in one import */
+export const MAX_IMPORT_ROWS = 5000;
+
+/** How long one import transaction may run */
+const IMPORT_TIMEOUT_MS = 30_000;
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson';
+
+/** Everything wrong with one row, e.g. { row: 3, errors: ['title should not be empty'] } */
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+/** The response of an import */
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  failed: number;
+  ids: number[];
+  errors: ImportRowError[];
+  ignoredColumns: string[];
+}
+
+/**
+ * CSV cells are always text, so columns that aren't strings in the DTO
+ * need a converter, e.g. { completed: csvBoolean, listId: csvNumber }
+ */
+export type CsvConverters = Record<string, (value: string) => unknown>;
+
+/** "true"/"1"/"yes" -> true, "false"/"0"/"no" -> false, anything else as-is */
+export const csvBoolean = (value: string): unknown => {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  return value;
+};
+
+/** "42" -> 42, anything that isn't a number is left for the validator to reject */
+export const csvNumber = (value: string): unknown =>
+  value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+
+/** "work, errands" -> ['work', 'errands'] */
+export const csvList = (value: string): unknown =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Work out the format from the file name (or, failing that, its MIME type)
+ * and parse the file into one plain object per row
+ * @param converters - Applied to CSV cells only (JSON already has types)
+ * @throws BadRequestException if the file is missing, unsupported or malformed
+ */
+export function readImportFile(
+  file: Express.Multer.File | undefined,
+  converters: CsvConverters = {},
+): Record<string, unknown>[] {
+  if (!file) {
+    throw new BadRequestException('Upload the data as a "file" form field');
+  }
+
+  const format = detectFormat(file);
+  const text = file.buffer.toString('utf8');
+  let rows: unknown[];
+
+  try {
+    if (format === 'csv') {
+      rows = parseCsvObjects(text).map((row) => convertCells(row, converters));
+    } else if (format === 'ndjson') {
+      rows = text
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== '')
+        .map((line) => JSON.parse(line) as unknown);
+    } else {
+      const parsed = JSON.parse(text) as unknown;
+      if (!Array.isArray(parsed)) {
+        throw new Error('A JSON import must be an array of objects');
+      }
+      rows = parsed;
+    }
+  } catch (error) {
+    throw new BadRequestException(
+      `Could not read the ${format} file: ${(error as Error).message}`,
+    );
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestException(
+      `An import may contain at most ${MAX_IMPORT_ROWS} rows`,
+    );
+  }
+
+  // Anything that isn't an object (e.g. a bare number in NDJSON) becomes
+  // an empty row, which then fails validation with a useful message
+  return rows.map((row) =>
+    typeof row === 'object' && row !== null && !Array.isArray(row)
+      ? (row as Record<string, unknown>)
+      : {},
+  );
+}
+
+/**
+ * Validate every row against a DTO class
+ *
+ * Unlike the global ValidationPipe, unknown columns are ignored instead of
+ * rejected - files often carry extra columns (e.g. an "id" from an export).
+ * They are reported once in ignoredColumns so typos don't go unnoticed.
+ *
+ * Row numbers start at 1 for the first data row (the CSV header isn't counted).
+ */
+export async function validateImportRows<T extends object>(
+  dtoClass: ClassConstructor<T>,
+  rows: Record<string, unknown>[],
+) {
+  const valid: { row: number; dto: T }[] = [];
+  const errors: ImportRowError[] = [];
+  const ignoredColumns = new Set<string>();
+
+  for (const [index, plain] of rows.entries()) {
+    const dto = plainToInstance(dtoClass, plain);
+    const validationErrors = await validate(dto, { whitelist: true });
+
+    for (const column of Object.keys(plain)) {
+      if (!(column in dto)) ignoredColumns.add(column);
+    }
+
+    if (validationErrors.length > 0) {
+      errors.push({ row: index + 1, errors: flattenErrors(validationErrors) });
+    } else {
+      valid.push({ row: index + 1, dto });
+    }
+  }
+
+  return { valid, errors, ignoredColumns: [...ignoredColumns].sort() };
+}
+
+/** Thrown to roll back the import transaction in dry-run mode */
+class DryRunRollback extends Error {}
+
+/**
+ * Validate the rows and insert the valid ones in ONE transaction
+ *
+ * Rows that pass validation can still be rejected by the service (e.g. a
+ * listId that isn't the caller's). Those HttpExceptions are reported as row
+ * errors and the remaining rows are still imported; any other error (e.g.
+ * the database going away) rolls back the whole import.
+ *
+ * Dry run: every row goes through exactly the same checks and inserts, then
+ * the transaction is rolled back - so the report is what a real run would do.
+ *
+ * @param insert - Creates one record inside the transaction, e.g. createWith()
+ */
+export async function runImport<T extends object>(
+  prisma: PrismaService,
+  dtoClass: ClassConstructor<T>,
+  rows: Record<string, unknown>[],
+  dryRun: boolean,
+  insert: (db: Prisma.TransactionClient, dto: T) => Promise<{ id: number }>,
+): Promise<ImportReport> {
+  const { valid, errors, ignoredColumns } = await validateImportRows(
+    dtoClass,
+    rows,
+  );
+  const ids: number[] = [];
+
+  const finish = (): ImportReport => ({
+    dryRun,
+    total: rows.length,
+    imported: ids.length,
+    failed: errors.length,
+    ids: dryRun ? [] : ids,
+    errors: errors.sort((a, b) => a.row - b.row),
+    ignoredColumns,
+  });
+
+  try {
+    return await prisma.transaction(
+      async (tx) => {
+        for (const { row, dto } of valid) {
+          try {
+            const record = await insert(tx, dto);
+            ids.push(record.id);
+          } catch (error) {
+            if (!(error instanceof HttpException)) throw error;
+            errors.push({ row, errors: [error.message] });
+          }
+        }
+
+        // Throwing is the only way to roll back an interactive transaction
+        if (dryRun) throw new DryRunRollback();
+        return finish();
+      },
+      { timeout: IMPORT_TIMEOUT_MS },
+    );
+  } catch (error) {
+    if (error instanceof DryRunRollback) return finish();
+    throw error;
+  }
+}
+
+function detectFormat(file: Express.Multer.File): ImportFormat {
+  const extension = file.originalname.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv' || file.mimetype === 'text/csv') return 'csv';
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+  if (extension === 'json' || file.mimetype === 'application/json') {
+    return 'json';
+  }
+
+  throw new BadRequestException(
+    'Unsupported file type - upload a .csv, .json or .ndjson file',
+  );
+}
+
+function convertCells(row: Record<string, string>, converters: CsvConverters) {
+  const converted: Record<string, unknown> = { ...row };
+  for (const [column, convert] of Object.entries(converters)) {
+    if (row[column] !== undefined) {
+      converted[column] = convert(row[column]);
+    }
+  }
+  return converted;
+}
+
+/**
+ * Turn nested class-validator errors into messages like
+ * "title should not be empty" or "tags.0 must be a string"
+ */
+function flattenErrors(errors: ValidationError[], prefix = ''): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}).map((message) =>
+      prefix ? `${prefix}${message}` : message,
+    ),
+    ...flattenErrors(error.children ?? [], `${prefix}${error.property}.`),
+  ]);
+}
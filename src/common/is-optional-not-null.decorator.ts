@@ -0,0 +1,22 @@
+import { ValidateIf, ValidationOptions } from 'class-validator';
+
+/**
+ * @IsOptionalNotNull() - Like @IsOptional(), but only for a missing field
+ *
+ * Why not @IsOptional()?
+ * - @IsOptional() skips the other validators for null as well as for a
+ *   missing value - right for nullable columns, where null clears them
+ * - For a NOT NULL column (a todo's title, completed or priority) null
+ *   would get through to Prisma and fail there as a 500
+ * - This decorator only skips the validators when the field is left out,
+ *   so { "priority": null } is rejected with a 400 like any wrong type
+ *
+ * Update DTOs get the same behaviour for inherited required fields from
+ * PartialType(..., { skipNullProperties: false })
+ */
+export function IsOptionalNotNull(validationOptions?: ValidationOptions) {
+  return ValidateIf(
+    (_object: object, value: unknown) => value !== undefined,
+    validationOptions,
+  );
+}
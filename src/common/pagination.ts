@@ -0,0 +1,135 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+
+/**
+ * PageMeta - Describes where a page sits within the full result set
+ */
+export class PageMeta {
+  @ApiProperty({ description: 'Total number of matching items', example: 57 })
+  total: number;
+
+  @ApiProperty({ description: 'Page size that was applied', example: 20 })
+  limit: number;
+
+  @ApiProperty({ description: 'Number of items skipped', example: 20 })
+  offset: number;
+}
+
+/**
+ * PageLinks - Ready-to-use URLs for the neighbouring pages
+ * A link is null when there is no page in that direction
+ */
+export class PageLinks {
+  @ApiPropertyOptional({
+    description: 'URL of the next page',
+    example: '/todos?limit=20&offset=40',
+    nullable: true,
+    type: String,
+  })
+  next: string | null;
+
+  @ApiPropertyOptional({
+    description: 'URL of the previous page',
+    example: '/todos?limit=20&offset=0',
+    nullable: true,
+    type: String,
+  })
+  prev: string | null;
+}
+
+/**
+ * Paginated<T> - The envelope returned by every paged list endpoint
+ *
+ * {
+ *   "data": [ ...items... ],
+ *   "meta": { "total": 57, "limit": 20, "offset": 20 },
+ *   "links": { "next": "/todos?limit=20&offset=40", "prev": "/todos?limit=20&offset=0" }
+ * }
+ */
+export class Paginated<T> {
+  @ApiProperty({
+    description: 'The items on this page',
+    type: Object,
+    isArray: true,
+  })
+  data: T[];
+
+  @ApiProperty({ type: PageMeta })
+  meta: PageMeta;
+
+  @ApiProperty({ type: PageLinks })
+  links: PageLinks;
+}
+
+/**
+ * Wrap one page of results in the Paginated envelope
+ *
+ * @param data - The items returned by findMany (already limited/offset)
+ * @param total - The count of ALL matching items (from prisma.model.count)
+ * @param query - The validated query DTO, reused so links keep the same filters
+ * @param path - The route the links point to, e.g. '/todos'
+ */
+export function paginate<T>(
+  data: T[],
+  total: number,
+  query: PaginationQueryDto,
+  path: string,
+): Paginated<T> {
+  const { limit, offset } = query;
+
+  const hasNext = offset + limit < total;
+  const hasPrev = offset > 0;
+
+  return {
+    data,
+    meta: { total, limit, offset },
+    links: {
+      next: hasNext ? buildLink(path, query, offset + limit) : null,
+      prev: hasPrev
+        ? buildLink(path, query, Math.max(offset - limit, 0))
+        : null,
+    },
+  };
+}
+
+/**
+ * Build a URL for the same query at a different offset
+ * Every other query parameter (filters, sort, limit) is kept as-is
+ */
+function buildLink(
+  path: string,
+  query: PaginationQueryDto,
+  offset: number,
+): string {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || key === 'offset') continue;
+    params.set(key, String(value));
+  }
+  params.set('offset', String(offset));
+
+  return `${path}?${params.toString()}`;
+}
+
+/**
+ * Turn a "field:direction" sort parameter into a Prisma orderBy object
+ *
+ * Examples:
+ * - 'title:asc'  -> { title: 'asc' }
+ * - 'createdAt'  -> { createdAt: 'desc' } (direction defaults to desc)
+ * - 'position'   -> { position: 'asc' } if 'position' is in ascByDefault
+ *
+ * The field name must already be validated against an allow-list by the
+ * query DTO (@Matches), so it is safe to use as an object key here.
+ *
+ * @param ascByDefault - Fields whose natural order is ascending
+ */
+export function parseSort(
+  sort: string,
+  ascByDefault: string[] = [],
+): Record<string, 'asc' | 'desc'> {
+  const [field, direction] = sort.split(':');
+  const fallback = ascByDefault.includes(field) ? 'asc' : 'desc';
+  return { [field]: (direction as 'asc' | 'desc' | undefined) ?? fallback };
+}
@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { toProblemDetails } from './prisma-errors';
+
+const prismaError = (code: string, meta: Record<string, unknown>) =>
+  new Prisma.PrismaClientKnownRequestError('Prisma error', {
+    code,
+    clientVersion: 'test',
+    meta,
+  });
+
+describe('toProblemDetails', () => {
+  it('should turn a unique violation into a 409 naming the fields', () => {
+    const error = prismaError('P2002', {
+      modelName: 'Tag',
+      driverAdapterError: {
+        cause: { constraint: { fields: ['userId', 'name'] } },
+      },
+    });
+
+    expect(toProblemDetails(error, '/tags')).toEqual({
+      type: 'about:blank',
+      title: 'Conflict',
+      status: 409,
+      detail: 'Tag with this userId and name already exists',
+      instance: '/tags',
+      code: 'P2002',
+      model: 'Tag',
+      fields: ['userId', 'name'],
+    });
+  });
+
+  it('should read the fields the classic engine reports', () => {
+    const error = prismaError('P2002', {
+      modelName: 'User',
+      target: ['email'],
+    });
+
+    expect(toProblemDetails(error)?.fields).toEqual(['email']);
+  });
+
+  it('should turn a foreign key violation into a 400', () => {
+    const error = prismaError('P2003', {
+      modelName: 'Todo',
+      field_name: 'listId',
+    });
+
+    expect(toProblemDetails(error)).toMatchObject({
+      status: 400,
+      title: 'Bad Request',
+      fields: ['listId'],
+    });
+  });
+
+  it('should turn a missing record into a 404', () => {
+    const error = prismaError('P2025', {
+      modelName: 'Todo',
+      operation: 'an update',
+    });
+
+    expect(toProblemDetails(error)).toMatchObject({
+      status: 404,
+      title: 'Not Found',
+      detail: 'Todo not found',
+      fields: [],
+    });
+  });
+
+  it('should leave other errors alone', () => {
+    expect(toProblemDetails(prismaError('P1001', {}))).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { HttpStatus } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ProblemDetails, statusTitle } from './problem-details';
+
+/**
+ * The problem+json body of a database error, e.g.
+ *
+ * {
+ *   "type": "about:blank",
+ *   "title": "Conflict",
+ *   "status": 409,
+ *   "detail": "User with this email already exists",
+ *   "instance": "/auth/signup",
+ *   "code": "P2002",
+ *   "model": "User",
+ *   "fields": ["email"]
+ * }
+ *
+ * code, model and fields are our extensions: the Prisma error code, and
+ * the model and fields involved
+ */
+export interface PrismaProblemDetails extends ProblemDetails {
+  code: string;
+  model?: string;
+  fields: string[];
+}
+
+/** What Prisma puts in error.meta - which keys are set depends on the error */
+interface PrismaErrorMeta {
+  modelName?: string;
+  model?: string;
+  operation?: string;
+  cause?: string;
+  target?: string | string[];
+  field_name?: string;
+  column_name?: string;
+  constraint?: string;
+  driverAdapterError?: {
+    cause?: { constraint?: { fields?: string[]; index?: string } };
+  };
+}
+
+/** The HTTP status and message of every Prisma error we translate */
+const PRISMA_ERRORS: Record<
+  string,
+  { status: HttpStatus; detail: (model: string, fields: string[]) => string }
+> = {
+  // The value is longer than its column allows
+  P2000: {
+    status: HttpStatus.BAD_REQUEST,
+    detail: (model, fields) => `Value too long for ${describe(model, fields)}`,
+  },
+  // Unique constraint failed, e.g. an email that is already registered
+  P2002: {
+    status: HttpStatus.CONFLICT,
+    detail: (model, fields) =>
+      fields.length > 0
+        ? `${model} with this ${fields.join(' and ')} already exists`
+        : `${model} already exists`,
+  },
+  // Foreign key constraint failed: the referenced record doesn't exist
+  P2003: {
+    status: HttpStatus.BAD_REQUEST,
+    detail: (model, fields) =>
+      `A record referenced by ${describe(model, fields)} does not exist`,
+  },
+  // Null constraint failed on a required field
+  P2011: {
+    status: HttpStatus.BAD_REQUEST,
+    detail: (model, fields) => `${describe(model, fields)} is required`,
+  },
+  // The change would break a required relation
+  P2014: {
+    status: HttpStatus.BAD_REQUEST,
+    detail: (model) => `The change would break a required relation of ${model}`,
+  },
+  // The record to update/delete (or to connect to) doesn't exist
+  P2025: {
+    status: HttpStatus.NOT_FOUND,
+    detail: (model) => `${model} not found`,
+  },
+  // Two transactions wrote the same rows at the same time
+  P2034: {
+    status: HttpStatus.CONFLICT,
+    detail: () => 'The change conflicted with another one, please retry',
+  },
+};
+
+/**
+ * Translate a Prisma error into a problem+json body
+ *
+ * Why translate instead of checking first?
+ * - Looking a record up before writing costs a round trip, and another
+ *   request can still change it in between (a "race")
+ * - The database enforces unique keys, foreign keys and existence anyway,
+ *   so the write itself is the most reliable check - we only have to turn
+ *   its error into the right HTTP status
+ *
+ * @param error - The error thrown by a Prisma query
+ * @param instance - The path of the request that failed
+ * @returns The problem, or null for errors that aren't the client's fault
+ */
+export function toProblemDetails(
+  error: Prisma.PrismaClientKnownRequestError,
+  instance?: string,
+): PrismaProblemDetails | null {
+  const known = PRISMA_ERRORS[error.code];
+  if (!known) {
+    return null;
+  }
+
+  const meta = (error.meta ?? {}) as PrismaErrorMeta;
+  // For a failed connect, model is the missing record's model
+  const model = meta.model ?? meta.modelName ?? 'Record';
+  const fields = fieldsOf(meta);
+
+  return {
+    type: 'about:blank',
+    title: statusTitle(known.status),
+    status: known.status,
+    detail: known.detail(model, fields),
+    instance,
+    code: error.code,
+    model,
+    fields,
+  };
+}
+
+/**
+ * The fields named in the error
+ * The classic query engine and the driver adapters report them differently
+ */
+function fieldsOf(meta: PrismaErrorMeta): string[] {
+  const adapterFields = meta.driverAdapterError?.cause?.constraint?.fields;
+  if (adapterFields) return adapterFields;
+
+  if (Array.isArray(meta.target)) return meta.target;
+  const field =
+    meta.target ?? meta.field_name ?? meta.column_name ?? meta.constraint;
+  return field ? [field] : [];
+}
+
+function describe(model: string, fields: string[]) {
+  return fields.length > 0 ? `${model}.${fields.join(', ')}` : model;
+}
@@ -0,0 +1,54 @@
+import { ArgumentsHost, Catch, HttpStatus } from '@nestjs/common';
+import { GqlContextType } from '@nestjs/graphql';
+import { GraphQLError } from 'graphql';
+import { Prisma } from '@prisma/client';
+import type { Request, Response } from 'express';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+import { toProblemDetails } from './prisma-errors';
+
+/**
+ * PrismaExceptionFilter - Turns database errors into 4xx responses
+ *
+ * What is an Exception Filter?
+ * - Nest runs it when a route handler (or anything it calls) throws
+ * - @Catch(X) limits it to errors of type X - here, the known request
+ *   errors of Prisma (unique/foreign key violations, missing records, ...)
+ * - Registered globally in main.ts, so services can let the database do
+ *   the checking (see toProblemDetails)
+ *
+ * What does the client get?
+ * - REST: the problem+json body with Content-Type application/problem+json,
+ *   e.g. 409 for an email that is already registered
+ * - GraphQL: an error for the field that failed, with the same body in
+ *   its extensions
+ * - Errors that aren't translated are handed to AllExceptionsFilter, which
+ *   logs them and sends a 500 problem+json
+ */
+@Catch(Prisma.PrismaClientKnownRequestError)
+export class PrismaExceptionFilter extends AllExceptionsFilter {
+  catch(exception: Prisma.PrismaClientKnownRequestError, host: ArgumentsHost) {
+    if (host.getType<GqlContextType>() === 'graphql') {
+      const problem = toProblemDetails(exception);
+      // GraphQL reports the returned error for the field being resolved
+      return problem
+        ? new GraphQLError(problem.detail, {
+            extensions: { code: HttpStatus[problem.status], problem },
+          })
+        : super.catch(exception, host);
+    }
+
+    const http = host.switchToHttp();
+    const request = http.getRequest<Request>();
+    const problem = toProblemDetails(exception, request.originalUrl);
+
+    if (!problem) {
+      return super.catch(exception, host);
+    }
+
+    http
+      .getResponse<Response>()
+      .status(problem.status)
+      .type('application/problem+json')
+      .json(problem);
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  BadRequestException,
+  NotFoundException,
+  PreconditionFailedException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { httpProblemDetails } from './problem-details';
+
+describe('httpProblemDetails', () => {
+  it('should turn the message into the detail', () => {
+    expect(
+      httpProblemDetails(
+        new NotFoundException('Todo with ID 7 not found'),
+        '/todos/7',
+      ),
+    ).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Todo with ID 7 not found',
+      instance: '/todos/7',
+    });
+  });
+
+  it('should name the status when there is no message', () => {
+    expect(httpProblemDetails(new PreconditionFailedException())).toMatchObject(
+      {
+        title: 'Precondition Failed',
+        status: 412,
+        detail: 'Precondition Failed',
+      },
+    );
+  });
+
+  it('should list every validation message', () => {
+    const exception = new BadRequestException([
+      'title should not be empty',
+      'priority must be one of LOW, MEDIUM, HIGH',
+    ]);
+
+    expect(httpProblemDetails(exception)).toMatchObject({
+      status: 400,
+      detail:
+        'title should not be empty, priority must be one of LOW, MEDIUM, HIGH',
+      errors: [
+        'title should not be empty',
+        'priority must be one of LOW, MEDIUM, HIGH',
+      ],
+    });
+  });
+
+  it('should keep the other members of a custom body', () => {
+    const exception = new ServiceUnavailableException({
+      status: 'error',
+      checks: { database: { status: 'down' } },
+    });
+
+    expect(httpProblemDetails(exception)).toEqual({
+      type: 'about:blank',
+      title: 'Service Unavailable',
+      status: 503,
+      detail: 'Service Unavailable',
+      instance: undefined,
+      checks: { database: { status: 'down' } },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * ProblemDetails - The error body of RFC 9457 ("problem+json")
+ *
+ * {
+ *   "type": "about:blank",
+ *   "title": "Not Found",
+ *   "status": 404,
+ *   "detail": "Todo with ID 7 not found",
+ *   "instance": "/todos/7"
+ * }
+ *
+ * - type, title, status, detail and instance are the standard members
+ *   (type "about:blank" means: the status code says it all)
+ * - Every error response of the API has this shape, whether it comes from
+ *   an HttpException (HttpExceptionFilter) or from the database
+ *   (PrismaExceptionFilter, which adds a few members of its own)
+ * - Any other member is an extension, e.g. "errors" below
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  /** Every message of a failed validation (ValidationPipe sends a list) */
+  errors?: string[];
+  [extension: string]: unknown;
+}
+
+/**
+ * The members of Nest's default error body, replaced by the standard ones,
+ * and the standard ones themselves, which an extension mustn't overwrite
+ */
+const RESERVED_MEMBERS = new Set([
+  'statusCode',
+  'message',
+  'error',
+  'type',
+  'title',
+  'status',
+  'detail',
+  'instance',
+]);
+
+/**
+ * Translate an HttpException (NotFoundException, a ValidationPipe 400, ...)
+ * into a problem+json body
+ *
+ * Nest's default body is { statusCode, message, error }; message becomes
+ * the detail. Anything else the exception was given as its body - e.g. the
+ * checks of a failed readiness probe - is kept as an extension.
+ *
+ * @param exception - The exception a handler (or a pipe or guard) threw
+ * @param instance - The path of the request that failed
+ */
+export function httpProblemDetails(
+  exception: HttpException,
+  instance?: string,
+): ProblemDetails {
+  const status = exception.getStatus();
+  const title = statusTitle(status);
+  const response = exception.getResponse();
+  const body: Record<string, unknown> =
+    typeof response === 'object' ? { ...response } : { message: response };
+
+  const extensions = Object.fromEntries(
+    Object.entries(body).filter(([name]) => !RESERVED_MEMBERS.has(name)),
+  );
+  const errors = Array.isArray(body.message)
+    ? body.message.map(String)
+    : undefined;
+
+  return {
+    type: 'about:blank',
+    title,
+    status,
+    detail: errors
+      ? errors.join(', ')
+      : typeof body.message === 'string'
+        ? body.message
+        : title,
+    instance,
+    ...(errors && { errors }),
+    ...extensions,
+  };
+}
+
+/** 409 -> "Conflict", 404 -> "Not Found", ... */
+export function statusTitle(status: HttpStatus) {
+  const name = HttpStatus[status] as string | undefined;
+  if (!name) {
+    return 'Error';
+  }
+
+  return name
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Secret tokens in URLs and links (calendar feeds, workspace invitations)
+ *
+ * - The token is handed out once; the database only keeps its hash, so a
+ *   leaked database doesn't contain working tokens
+ * - A hashed token can still be looked up: hash what the client sends and
+ *   search for the hash
+ */
+
+/** A new random token - 32 random bytes = 256 bits, far too many to guess */
+export function createSecretToken() {
+  return randomBytes(32).toString('base64url');
+}
+
+/** SHA-256 is enough here: the token is random, so it can't be brute-forced */
+export function hashSecretToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,18 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * @ToBoolean() - Converts "true"/"false" query strings into booleans
+ *
+ * Why is this needed?
+ * - Everything in a query string arrives as text, so ?completed=false is
+ *   the string "false" - which is truthy in JavaScript!
+ * - The global ValidationPipe (transform: true) runs this before validating
+ * - Anything else is passed through unchanged so @IsBoolean() can reject it
+ */
+export function ToBoolean() {
+  return Transform(({ value }: { value: unknown }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  });
+}
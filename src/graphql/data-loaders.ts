@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { Tag, Todo, User } from '@prisma/client';
+import DataLoader from 'dataloader';
+import type { Request } from 'express';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+
+/** The loaders of one GraphQL request */
+export interface Loaders {
+  /** A user by ID */
+  user: DataLoader<number, User | null>;
+  /** A user's todos in the active workspace that are not in the trash */
+  todosByUser: DataLoader<number, Todo[]>;
+  /** The tags on a todo */
+  tagsByTodo: DataLoader<number, Tag[]>;
+}
+
+/**
+ * DataLoaders - Batches the lookups GraphQL resolvers make for nested fields
+ *
+ * What is the N+1 problem?
+ * - { todos { data { user { name } } } } resolves `user` once per todo
+ * - Done naively, 20 todos mean 1 query for the page + 20 user queries
+ *
+ * How does DataLoader help?
+ * - Every resolver calls loader.load(id) instead of querying directly
+ * - DataLoader collects the IDs requested in the same tick and calls the
+ *   batch function ONCE with all of them - a single findMany({ in: ids })
+ * - The same ID is only loaded once (it is cached for the request)
+ *
+ * Why one set of loaders per request?
+ * - The cache must not outlive the request, or other requests (and other
+ *   users) would see stale data
+ * - forRequest() creates the loaders the first time a request asks for them
+ *   and keeps them in a WeakMap keyed by the request, so they are garbage
+ *   collected together with it
+ * - It also knows the request's workspace (set by WorkspaceGuard), so
+ *   nested todos never reach outside it
+ */
+@Injectable()
+export class DataLoaders {
+  private readonly loaders = new WeakMap<object, Loaders>();
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * The loaders of the request a resolver is handling
+   * @param request - The request from the GraphQL context
+   */
+  forRequest(request: Request): Loaders {
+    let loaders = this.loaders.get(request);
+    if (!loaders) {
+      const { workspace } = request as Request & { workspace: WorkspaceScope };
+      loaders = this.create(workspace.workspaceId);
+      this.loaders.set(request, loaders);
+    }
+    return loaders;
+  }
+
+  private create(workspaceId: number): Loaders {
+    return {
+      user: new DataLoader(async (ids: readonly number[]) => {
+        const users = await this.prisma.user.findMany({
+          where: { id: { in: [...ids] } },
+        });
+        return ids.map((id) => users.find((user) => user.id === id) ?? null);
+      }),
+
+      todosByUser: new DataLoader(async (userIds: readonly number[]) => {
+        const todos = await this.prisma.todo.findMany({
+          where: {
+            userId: { in: [...userIds] },
+            workspaceId,
+            deletedAt: null,
+          },
+          orderBy: { id: 'asc' },
+        });
+        return userIds.map((userId) =>
+          todos.filter((todo) => todo.userId === userId),
+        );
+      }),
+
+      tagsByTodo: new DataLoader(async (todoIds: readonly number[]) => {
+        const tags = await this.prisma.tag.findMany({
+          where: { todos: { some: { id: { in: [...todoIds] } } } },
+          // Only the todos of this batch, not every todo with the tag
+          include: {
+            todos: {
+              where: { id: { in: [...todoIds] } },
+              select: { id: true },
+            },
+          },
+          orderBy: { name: 'asc' },
+        });
+        return todoIds.map((todoId) =>
+          tags.filter((tag) => tag.todos.some((todo) => todo.id === todoId)),
+        );
+      }),
+    };
+  }
+}
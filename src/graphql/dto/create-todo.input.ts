@@ -0,0 +1,52 @@
+import { Field, InputType, Int } from '@nestjs/graphql';
+import { Priority } from '@prisma/client';
+import { CreateTodoDto } from '../../todo/dto/create-todo.dto';
+
+/**
+ * CreateTodoInput - The input of the createTodo mutation
+ *
+ * Why extend CreateTodoDto?
+ * - The class-validator rules are inherited, so the global ValidationPipe
+ *   checks GraphQL input exactly like a POST /todos body
+ * - Only the @Field() decorators are added, which tell GraphQL about the
+ *   fields (the same pattern as the Swagger decorators for REST)
+ *
+ * Why `declare`?
+ * - It re-states an inherited property just to decorate it, without
+ *   redefining it - so the DTO's defaults and validators stay in place
+ */
+@InputType()
+export class CreateTodoInput extends CreateTodoDto {
+  @Field()
+  declare title: string;
+
+  @Field({ nullable: true })
+  declare completed?: boolean;
+
+  @Field({ nullable: true })
+  declare description?: string;
+
+  @Field({ nullable: true })
+  declare dueAt?: Date;
+
+  @Field(() => Priority, { nullable: true })
+  declare priority?: Priority;
+
+  @Field({
+    nullable: true,
+    description: 'Repeat rule, e.g. FREQ=WEEKLY;BYDAY=TU. Requires dueAt',
+  })
+  declare recurrence?: string;
+
+  @Field(() => Int, { nullable: true })
+  declare listId?: number;
+
+  @Field(() => Int, { nullable: true })
+  declare parentId?: number;
+
+  @Field(() => Int, { nullable: true })
+  declare assigneeId?: number;
+
+  @Field(() => [String], { nullable: true })
+  declare tags?: string[];
+}
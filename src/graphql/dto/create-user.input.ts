@@ -0,0 +1,12 @@
+import { Field, InputType } from '@nestjs/graphql';
+import { CreateUserDto } from '../../user/dto/create-user.dto';
+
+/**
+ * CreateUserInput - The input of the createUser mutation
+ * Extends CreateUserDto for its validation rules (see CreateTodoInput)
+ */
+@InputType()
+export class CreateUserInput extends CreateUserDto {
+  @Field()
+  declare name: string;
+}
@@ -0,0 +1,61 @@
+import { ArgsType, Field, Int } from '@nestjs/graphql';
+import { Priority } from '@prisma/client';
+import { TodoQueryDto } from '../../todo/dto/todo-query.dto';
+
+/**
+ * TodosArgs - The arguments of the todos query
+ *
+ * What is an @ArgsType()?
+ * - It turns the fields into separate arguments, so queries read
+ *   todos(completed: false, tags: ["work"], limit: 10) instead of
+ *   todos(filter: { ... })
+ *
+ * Extends TodoQueryDto, so the filters and their validation are the same
+ * as for GET /todos. includeUser has no @Field(): in GraphQL the client
+ * picks the fields it wants, including the user.
+ */
+@ArgsType()
+export class TodosArgs extends TodoQueryDto {
+  @Field(() => Int, { defaultValue: 20 })
+  declare limit: number;
+
+  @Field(() => Int, { defaultValue: 0 })
+  declare offset: number;
+
+  @Field({
+    defaultValue: 'createdAt:desc',
+    description:
+      'field:direction. Fields: createdAt, updatedAt, title, completed, dueAt, position',
+  })
+  declare sort: string;
+
+  @Field({ nullable: true })
+  declare completed?: boolean;
+
+  @Field(() => Priority, { nullable: true })
+  declare priority?: Priority;
+
+  @Field(() => Int, { nullable: true })
+  declare listId?: number;
+
+  @Field(() => Int, { nullable: true })
+  declare assigneeId?: number;
+
+  @Field(() => [String], { nullable: true })
+  declare tags?: string[];
+
+  @Field({
+    nullable: true,
+    description: 'any: at least one of the tags, all: every tag',
+  })
+  declare tagMatch?: 'any' | 'all';
+
+  @Field({ nullable: true, description: 'Text the title contains' })
+  declare contains?: string;
+
+  @Field({ nullable: true, description: 'ISO 8601 date' })
+  declare createdBefore?: string;
+
+  @Field({ nullable: true, description: 'ISO 8601 date' })
+  declare createdAfter?: string;
+}
@@ -0,0 +1,52 @@
+import { Field, InputType, Int } from '@nestjs/graphql';
+import { Priority } from '@prisma/client';
+import { UpdateTodoDto } from '../../todo/dto/update-todo.dto';
+
+/**
+ * UpdateTodoInput - The input of the updateTodo mutation
+ *
+ * Extends UpdateTodoDto for its validation rules, like CreateTodoInput.
+ * Every field is optional, and null clears dueAt, listId, parentId or
+ * assigneeId - just like PATCH /todos/:id.
+ */
+@InputType()
+export class UpdateTodoInput extends UpdateTodoDto {
+  @Field({ nullable: true })
+  declare title?: string;
+
+  @Field({ nullable: true })
+  declare completed?: boolean;
+
+  @Field({ nullable: true })
+  declare description?: string;
+
+  @Field({ nullable: true })
+  declare dueAt?: Date;
+
+  @Field(() => Priority, { nullable: true })
+  declare priority?: Priority;
+
+  @Field({ nullable: true })
+  declare recurrence?: string;
+
+  @Field(() => Int, { nullable: true })
+  declare listId?: number;
+
+  @Field(() => Int, { nullable: true })
+  declare parentId?: number;
+
+  @Field(() => Int, { nullable: true })
+  declare assigneeId?: number;
+
+  @Field(() => [String], {
+    nullable: true,
+    description: 'Replaces all of the todo’s tags',
+  })
+  declare tags?: string[];
+
+  @Field(() => [String], { nullable: true })
+  declare addTags?: string[];
+
+  @Field(() => [String], { nullable: true })
+  declare removeTags?: string[];
+}
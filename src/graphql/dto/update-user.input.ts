@@ -0,0 +1,12 @@
+import { Field, InputType } from '@nestjs/graphql';
+import { UpdateUserDto } from '../../user/dto/update-user.dto';
+
+/**
+ * UpdateUserInput - The input of the updateUser mutation
+ * Extends UpdateUserDto for its validation rules (see CreateTodoInput)
+ */
+@InputType()
+export class UpdateUserInput extends UpdateUserDto {
+  @Field({ nullable: true })
+  declare name?: string;
+}
@@ -0,0 +1,30 @@
+import { ArgsType, Field, Int } from '@nestjs/graphql';
+import { UserQueryDto } from '../../user/dto/user-query.dto';
+
+/**
+ * UsersArgs - The arguments of the users query
+ * Extends UserQueryDto for the same filters and validation as GET /users
+ */
+@ArgsType()
+export class UsersArgs extends UserQueryDto {
+  @Field(() => Int, { defaultValue: 20 })
+  declare limit: number;
+
+  @Field(() => Int, { defaultValue: 0 })
+  declare offset: number;
+
+  @Field({
+    defaultValue: 'createdAt:desc',
+    description: 'field:direction. Fields: createdAt, updatedAt, name',
+  })
+  declare sort: string;
+
+  @Field({ nullable: true, description: 'Text the name contains' })
+  declare contains?: string;
+
+  @Field({ nullable: true, description: 'ISO 8601 date' })
+  declare createdBefore?: string;
+
+  @Field({ nullable: true, description: 'ISO 8601 date' })
+  declare createdAfter?: string;
+}
@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { GraphQLModule } from '@nestjs/graphql';
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { Request } from 'express';
+import { TodoModule } from '../todo/todo.module';
+import { UserModule } from '../user/user.module';
+import { DataLoaders } from './data-loaders';
+import { TodoResolver } from './todo.resolver';
+import { UserResolver } from './user.resolver';
+
+/**
+ * GraphqlModule - A GraphQL API at /graphql, next to the REST API
+ *
+ * What does GraphQL add?
+ * - One endpoint, and the client decides which fields (and which nested
+ *   objects) it gets back - e.g. users with their todos in one request
+ * - The schema is typed, and can be explored at /graphql in the browser
+ *   (GraphiQL)
+ *
+ * How is it built?
+ * - Code first: the schema is generated from the @ObjectType(),
+ *   @InputType() and @Resolver() classes in this folder
+ *   (autoSchemaFile: true keeps it in memory instead of writing a file)
+ * - The resolvers call the same services as the REST controllers, and
+ *   their inputs extend the REST DTOs, so validation is shared too
+ * - Requests are authenticated by the same JwtAuthGuard: send the access
+ *   token in the Authorization header
+ * - context hands every resolver the Express request, which JwtAuthGuard,
+ *   @CurrentUser() and DataLoaders need
+ * - Errors only carry extensions.stacktrace when NODE_ENV is development;
+ *   anywhere else the stack (file paths, library versions) stays private
+ */
+@Module({
+  imports: [
+    GraphQLModule.forRoot<ApolloDriverConfig>({
+      driver: ApolloDriver,
+      autoSchemaFile: true,
+      sortSchema: true,
+      playground: false,
+      graphiql: true,
+      includeStacktraceInErrorResponses: process.env.NODE_ENV === 'development',
+      context: ({ req }: { req: Request }) => ({ req }),
+    }),
+    TodoModule,
+    UserModule,
+  ],
+  providers: [TodoResolver, UserResolver, DataLoaders],
+})
+export class GraphqlModule {}
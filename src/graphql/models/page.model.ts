@@ -0,0 +1,45 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { Type } from '@nestjs/common';
+import { Todo } from './todo.model';
+import { User } from './user.model';
+
+/** Where a page sits within the full result set (see PageMeta in REST) */
+@ObjectType()
+export class PageInfo {
+  @Field(() => Int, { description: 'Total number of matching items' })
+  total: number;
+
+  @Field(() => Int, { description: 'Page size that was applied' })
+  limit: number;
+
+  @Field(() => Int, { description: 'Number of items skipped' })
+  offset: number;
+}
+
+/**
+ * Build a page type for one item type, e.g. TodoPage extends Page(Todo)
+ *
+ * GraphQL has no generics, so every item type needs its own page type.
+ * The fields match the REST Paginated envelope, so the results of the
+ * services' findAll() can be returned as they are (the REST-only links
+ * are left out).
+ */
+function Page<T>(classRef: Type<T>) {
+  // isAbstract: only the subclasses below end up in the schema
+  @ObjectType({ isAbstract: true })
+  class PageType {
+    @Field(() => [classRef])
+    data: T[];
+
+    @Field(() => PageInfo)
+    meta: PageInfo;
+  }
+
+  return PageType;
+}
+
+@ObjectType()
+export class TodoPage extends Page(Todo) {}
+
+@ObjectType()
+export class UserPage extends Page(User) {}
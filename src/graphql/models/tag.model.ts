@@ -0,0 +1,11 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/** A label on a todo - the GraphQL view of the Tag table */
+@ObjectType()
+export class Tag {
+  @Field(() => Int)
+  id: number;
+
+  @Field()
+  name: string;
+}
@@ -0,0 +1,92 @@
+import {
+  Field,
+  Float,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { Priority } from '@prisma/client';
+import { Tag } from './tag.model';
+import { User } from './user.model';
+
+// Makes the Prisma enum usable as a GraphQL type (enum Priority { ... })
+registerEnumType(Priority, { name: 'Priority' });
+
+/**
+ * Todo - The GraphQL type of a todo item
+ *
+ * What is an @ObjectType()?
+ * - The code-first way to describe a GraphQL type: Nest reads these
+ *   decorators and generates the schema from them
+ * - @Field() exposes a property; `() => Int` picks the GraphQL type where
+ *   TypeScript's `number` is ambiguous (Int or Float)
+ * - nullable: true marks fields that may be null
+ *
+ * user, assignee and tags are resolved separately by TodoResolver, and
+ * only when a query asks for them.
+ */
+@ObjectType()
+export class Todo {
+  @Field(() => Int)
+  id: number;
+
+  @Field()
+  title: string;
+
+  @Field(() => String, { nullable: true })
+  description: string | null;
+
+  @Field()
+  completed: boolean;
+
+  @Field(() => Date, { nullable: true })
+  completedAt: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  dueAt: Date | null;
+
+  @Field(() => Priority)
+  priority: Priority;
+
+  @Field(() => String, {
+    nullable: true,
+    description: 'Repeat rule, e.g. FREQ=WEEKLY;BYDAY=TU',
+  })
+  recurrence: string | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: 'The creator - null once their account has been purged',
+  })
+  userId: number | null;
+
+  @Field(() => Int, { nullable: true })
+  assigneeId: number | null;
+
+  @Field(() => Int)
+  workspaceId: number;
+
+  @Field(() => Int, { nullable: true })
+  listId: number | null;
+
+  @Field(() => Int, { nullable: true })
+  parentId: number | null;
+
+  @Field(() => Float, { description: 'Manual order, lowest first' })
+  position: number;
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+
+  @Field(() => User, { nullable: true })
+  user?: User | null;
+
+  @Field(() => User, { nullable: true })
+  assignee?: User | null;
+
+  @Field(() => [Tag])
+  tags?: Tag[];
+}
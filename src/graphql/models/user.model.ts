@@ -0,0 +1,30 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { Todo } from './todo.model';
+
+/**
+ * User - The GraphQL type of a user
+ *
+ * Follows the same pattern as Todo. Password and calendar token hashes
+ * have no @Field(), so they can't be queried (PrismaService doesn't even
+ * load them).
+ */
+@ObjectType()
+export class User {
+  @Field(() => Int)
+  id: number;
+
+  @Field()
+  name: string;
+
+  @Field(() => String, { nullable: true })
+  email: string | null;
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+
+  @Field(() => [Todo], { description: 'The todos that are not in the trash' })
+  todos?: Todo[];
+}
@@ -0,0 +1,129 @@
+import { UseGuards } from '@nestjs/common';
+import {
+  Args,
+  Context,
+  Int,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from '@nestjs/graphql';
+import type { Request } from 'express';
+import { TodoService } from '../todo/todo.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { DataLoaders } from './data-loaders';
+import { Todo } from './models/todo.model';
+import { Tag } from './models/tag.model';
+import { User } from './models/user.model';
+import { TodoPage } from './models/page.model';
+import { TodosArgs } from './dto/todos.args';
+import { CreateTodoInput } from './dto/create-todo.input';
+import { UpdateTodoInput } from './dto/update-todo.input';
+
+/**
+ * TodoResolver - The GraphQL counterpart of TodoController
+ *
+ * What is a Resolver?
+ * - Where a controller maps routes to methods, a resolver maps the fields
+ *   of the schema: @Query() and @Mutation() are the entry points, and
+ *   @ResolveField() computes a field of a Todo when a query selects it
+ * - Like the controller it stays thin: all the work is done by TodoService,
+ *   so both APIs share the same rules, audit log, webhooks and events
+ * - The X-Workspace-Id header picks the workspace, as it does for REST
+ *
+ * Example:
+ *   query {
+ *     todos(completed: false, limit: 5) {
+ *       meta { total }
+ *       data { id title user { name } tags { name } }
+ *     }
+ *   }
+ */
+@Resolver(() => Todo)
+@UseGuards(JwtAuthGuard, WorkspaceGuard)
+export class TodoResolver {
+  constructor(
+    private readonly todoService: TodoService,
+    private readonly loaders: DataLoaders,
+  ) {}
+
+  @Query(() => TodoPage, {
+    description:
+      "One page of the workspace's todos, with the filters of GET /todos",
+  })
+  todos(@ActiveWorkspace() scope: WorkspaceScope, @Args() args: TodosArgs) {
+    // The user field is loaded by the resolver below, if it's asked for
+    return this.todoService.findAll(scope, { ...args, includeUser: false });
+  }
+
+  @Query(() => Todo, { description: "One of the workspace's todos" })
+  todo(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Args('id', { type: () => Int }) id: number,
+  ) {
+    return this.todoService.findOne(scope, id, false);
+  }
+
+  @Mutation(() => Todo)
+  createTodo(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Args('input') input: CreateTodoInput,
+  ) {
+    return this.todoService.create(scope, input);
+  }
+
+  @Mutation(() => Todo)
+  updateTodo(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Args('id', { type: () => Int }) id: number,
+    @Args('input') input: UpdateTodoInput,
+  ) {
+    return this.todoService.update(scope, id, input);
+  }
+
+  @Mutation(() => Todo, {
+    description: "Move one of the workspace's todos to the trash",
+  })
+  deleteTodo(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Args('id', { type: () => Int }) id: number,
+  ) {
+    return this.todoService.remove(scope, id);
+  }
+
+  /**
+   * The todo's creator - batched, so a page of todos costs one user query
+   * null once the creator's account has been purged
+   */
+  @ResolveField(() => User, { nullable: true })
+  user(@Parent() todo: Todo, @Context('req') request: Request) {
+    return todo.userId === null
+      ? null
+      : this.loaders.forRequest(request).user.load(todo.userId);
+  }
+
+  /**
+   * The member responsible for the todo, if any - batched like user
+   */
+  @ResolveField(() => User, { nullable: true })
+  assignee(@Parent() todo: Todo, @Context('req') request: Request) {
+    return todo.assigneeId === null
+      ? null
+      : this.loaders.forRequest(request).user.load(todo.assigneeId);
+  }
+
+  /**
+   * The todo's tags - most queries already include them, the rest are
+   * batched
+   */
+  @ResolveField(() => [Tag])
+  tags(@Parent() todo: Todo, @Context('req') request: Request) {
+    return (
+      todo.tags ?? this.loaders.forRequest(request).tagsByTodo.load(todo.id)
+    );
+  }
+}
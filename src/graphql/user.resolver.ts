@@ -0,0 +1,114 @@
+import { UseGuards } from '@nestjs/common';
+import {
+  Args,
+  Context,
+  Int,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from '@nestjs/graphql';
+import type { Request } from 'express';
+import { WorkspaceRole } from '@prisma/client';
+import { UserService } from '../user/user.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import { RequireRole } from '../workspace/require-role.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { DataLoaders } from './data-loaders';
+import { Todo } from './models/todo.model';
+import { User } from './models/user.model';
+import { UserPage } from './models/page.model';
+import { UsersArgs } from './dto/users.args';
+import { CreateUserInput } from './dto/create-user.input';
+import { UpdateUserInput } from './dto/update-user.input';
+
+/**
+ * UserResolver - The GraphQL counterpart of UserController
+ *
+ * Follows the same pattern as TodoResolver. A user's todos are a field
+ * like any other, so users and their todos come back in one request:
+ *
+ *   query {
+ *     users(limit: 10) {
+ *       data { name todos { title completed } }
+ *     }
+ *   }
+ *
+ * Only the members of the active workspace are found, with their todos in
+ * that workspace. Unlike the REST routes for the caller's own account,
+ * the mutations go through WorkspaceGuard too - without an X-Workspace-Id
+ * header that is the caller's personal workspace, where they are the owner.
+ */
+@Resolver(() => User)
+@UseGuards(JwtAuthGuard, WorkspaceGuard)
+export class UserResolver {
+  constructor(
+    private readonly userService: UserService,
+    private readonly loaders: DataLoaders,
+  ) {}
+
+  @Query(() => UserPage, {
+    description:
+      'One page of the members of the workspace, with the filters of GET /users',
+  })
+  users(@ActiveWorkspace() scope: WorkspaceScope, @Args() args: UsersArgs) {
+    return this.userService.findAll(scope, args);
+  }
+
+  @Query(() => User, { description: 'A member of the workspace' })
+  user(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Args('id', { type: () => Int }) id: number,
+  ) {
+    return this.userService.findOne(scope, id);
+  }
+
+  @Query(() => User, { description: 'The authenticated user' })
+  me(@ActiveWorkspace() scope: WorkspaceScope) {
+    return this.userService.findOne(scope, scope.userId);
+  }
+
+  @Mutation(() => User, {
+    description: 'Create a member of the workspace (admins only)',
+  })
+  @RequireRole(WorkspaceRole.ADMIN)
+  createUser(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Args('input') input: CreateUserInput,
+  ) {
+    return this.userService.create(scope, input);
+  }
+
+  @Mutation(() => User, { description: 'Update your own account' })
+  updateUser(
+    @CurrentUser() user: AuthUser,
+    @Args('id', { type: () => Int }) id: number,
+    @Args('input') input: UpdateUserInput,
+  ) {
+    return this.userService.update(user.id, id, input);
+  }
+
+  @Mutation(() => User, {
+    description: 'Move your own account (and its todos) to the trash',
+  })
+  deleteUser(
+    @CurrentUser() user: AuthUser,
+    @Args('id', { type: () => Int }) id: number,
+  ) {
+    return this.userService.remove(user.id, id);
+  }
+
+  /**
+   * The user's todos in the workspace - batched, so a page of users costs
+   * one todo query
+   */
+  @ResolveField(() => [Todo])
+  todos(@Parent() user: User, @Context('req') request: Request) {
+    return this.loaders.forRequest(request).todosByUser.load(user.id);
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * The migrations that must be applied for the app to be ready: one
+ * directory each, as created by `prisma migrate dev`
+ * Set MIGRATIONS_DIR to change it (defaults to ./prisma/migrations, like
+ * prisma.config.ts)
+ */
+export const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR ?? 'prisma/migrations';
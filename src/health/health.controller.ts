@@ -0,0 +1,55 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { HealthService } from './health.service';
+
+/**
+ * HealthController - Probes for load balancers and orchestrators
+ *
+ * - GET /health/live: the process is up and answering. If it fails, the
+ *   app is stuck and should be restarted
+ * - GET /health/ready: the app can serve requests. If it fails, send the
+ *   traffic elsewhere for now - restarting won't bring the database back
+ *
+ * Both are public, a probe has no access token.
+ */
+@ApiTags('health')
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * GET /health/live - Liveness probe
+   * Doesn't touch the database: a database outage must not get every
+   * instance restarted
+   */
+  @Get('live')
+  @ApiOperation({ summary: 'Check that the app is running' })
+  @ApiResponse({ status: 200, description: 'The app is running' })
+  live() {
+    return { status: 'ok' };
+  }
+
+  /**
+   * GET /health/ready - Readiness probe
+   * 200 with the checks when everything is up, 503 when something is
+   * down - a problem+json body with the same checks
+   */
+  @Get('ready')
+  @ApiOperation({ summary: 'Check that the app can serve requests' })
+  @ApiResponse({ status: 200, description: 'The database is ready' })
+  @ApiResponse({
+    status: 503,
+    description: 'The database is down or migrations are pending',
+  })
+  async ready() {
+    const report = await this.healthService.readiness();
+
+    if (report.status !== 'ok') {
+      throw new ServiceUnavailableException({
+        message: 'The app is not ready to serve requests',
+        checks: report.checks,
+      });
+    }
+    return report;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+/**
+ * HealthModule - Liveness and readiness probes at /health
+ *
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
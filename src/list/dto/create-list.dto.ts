@@ -0,0 +1,20 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * CreateListDto - Data Transfer Object for creating a new todo list
+ *
+ * Follows the same pattern as CreateTodoDto:
+ * - The owner comes from the access token, not the request body
+ */
+export class CreateListDto {
+  @ApiProperty({
+    description: 'The name of the list',
+    example: 'Groceries',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
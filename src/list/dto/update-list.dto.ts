@@ -0,0 +1,11 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateListDto } from './create-list.dto';
+
+/**
+ * UpdateListDto - Data Transfer Object for renaming a todo list
+ *
+ * Uses PartialType like UpdateTodoDto, so every field is optional
+ */
+export class UpdateListDto extends PartialType(CreateListDto, {
+  skipNullProperties: false,
+}) {}
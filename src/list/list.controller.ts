@@ -0,0 +1,183 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  ParseBoolPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ListService } from './list.service';
+import { CreateListDto } from './dto/create-list.dto';
+import { UpdateListDto } from './dto/update-list.dto';
+import { TodoService } from '../todo/todo.service';
+import { CreateTodoDto } from '../todo/dto/create-todo.dto';
+import { TodoQueryDto } from '../todo/dto/todo-query.dto';
+import { Paginated } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ApiWorkspaceHeader } from '../workspace/api-workspace-header.decorator';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+
+/**
+ * ListController - HTTP request handler for todo lists (projects)
+ *
+ * Follows the same pattern as TodoController:
+ * - JwtAuthGuard and WorkspaceGuard on every route, the caller only sees
+ *   the lists of the active workspace
+ * - Nested routes (/lists/:id/todos) reuse TodoService for the todos
+ */
+@ApiTags('lists')
+@ApiBearerAuth()
+@ApiWorkspaceHeader()
+@UseGuards(JwtAuthGuard, WorkspaceGuard)
+@Controller('lists')
+export class ListController {
+  constructor(
+    private readonly listService: ListService,
+    private readonly todoService: TodoService,
+  ) {}
+
+  /**
+   * POST /lists - Create a new list
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a new list' })
+  @ApiResponse({ status: 201, description: 'List created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  create(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Body() createListDto: CreateListDto,
+  ) {
+    return this.listService.create(scope, createListDto);
+  }
+
+  /**
+   * GET /lists - Get all lists of the workspace with their todo counts
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all lists of the workspace' })
+  @ApiResponse({ status: 200, description: 'List of the lists' })
+  findAll(@ActiveWorkspace() scope: WorkspaceScope) {
+    return this.listService.findAll(scope);
+  }
+
+  /**
+   * GET /lists/:id - Get a single list by ID
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a list by ID' })
+  @ApiParam({ name: 'id', description: 'The list ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The list' })
+  @ApiResponse({ status: 404, description: 'List not found' })
+  findOne(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.listService.findOne(scope, id);
+  }
+
+  /**
+   * PATCH /lists/:id - Rename a list
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a list' })
+  @ApiParam({ name: 'id', description: 'The list ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'List updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'List not found' })
+  update(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateListDto: UpdateListDto,
+  ) {
+    return this.listService.update(scope, id, updateListDto);
+  }
+
+  /**
+   * DELETE /lists/:id - Delete a list
+   *
+   * Query parameters:
+   * - cascade: true moves the list's todos to the trash as well
+   *            false (default) moves them to the default "Inbox" list
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a list, moving or deleting its todos' })
+  @ApiParam({ name: 'id', description: 'The list ID', example: 1 })
+  @ApiQuery({
+    name: 'cascade',
+    required: false,
+    type: Boolean,
+    description:
+      "Delete the list's todos too (otherwise they move to the default list)",
+    default: false,
+  })
+  @ApiResponse({ status: 200, description: 'List deleted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The default list cannot be deleted',
+  })
+  @ApiResponse({ status: 404, description: 'List not found' })
+  remove(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Query('cascade', new ParseBoolPipe({ optional: true })) cascade?: boolean,
+  ) {
+    return this.listService.remove(scope, id, cascade === true);
+  }
+
+  /**
+   * GET /lists/:id/todos - Get a page of the todos in a list
+   * Accepts the same query parameters as GET /todos
+   */
+  @Get(':id/todos')
+  @ApiOperation({ summary: 'Get a page of the todos in a list' })
+  @ApiParam({ name: 'id', description: 'The list ID', example: 1 })
+  @ApiOkResponse({ description: 'A page of todos', type: Paginated })
+  @ApiResponse({ status: 404, description: 'List not found' })
+  async findTodos(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: TodoQueryDto,
+  ) {
+    // 404 for lists that don't exist or are in another workspace
+    await this.listService.findOne(scope, id);
+    return this.todoService.findAll(
+      scope,
+      { ...query, listId: id },
+      `/lists/${id}/todos`,
+    );
+  }
+
+  /**
+   * POST /lists/:id/todos - Create a todo directly inside a list
+   */
+  @Post(':id/todos')
+  @ApiOperation({ summary: 'Create a todo in a list' })
+  @ApiParam({ name: 'id', description: 'The list ID', example: 1 })
+  @ApiResponse({ status: 201, description: 'Todo created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'List not found' })
+  async createTodo(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createTodoDto: CreateTodoDto,
+  ) {
+    await this.listService.findOne(scope, id);
+    return this.todoService.create(scope, { ...createTodoDto, listId: id });
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ListService } from './list.service';
+import { ListController } from './list.controller';
+import { TodoModule } from '../todo/todo.module';
+
+/**
+ * ListModule - Feature module for todo lists (projects)
+ *
+ * Follows the same pattern as UserModule:
+ * - Imports TodoModule for TodoService, used by the nested /lists/:id/todos routes
+ * - PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  imports: [TodoModule],
+  controllers: [ListController],
+  providers: [ListService],
+})
+export class ListModule {}
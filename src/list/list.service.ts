@@ -0,0 +1,199 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateListDto } from './dto/create-list.dto';
+import { UpdateListDto } from './dto/update-list.dto';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { TodoService } from '../todo/todo.service';
+
+/** Name given to the default list when it is created automatically */
+export const DEFAULT_LIST_NAME = 'Inbox';
+
+/**
+ * ListService - Business logic layer for todo lists (projects)
+ *
+ * Mirrors the pattern used in TodoService:
+ * - Every method takes the caller's scope and only touches the lists of
+ *   the active workspace
+ * - Other workspaces' lists get the same 404 as lists that don't exist
+ */
+@Injectable()
+export class ListService {
+  constructor(
+    private prisma: PrismaService,
+    private todoService: TodoService,
+  ) {}
+
+  /**
+   * Create a new list in the active workspace
+   * @param scope - The caller, who creates the list, and the workspace
+   * @param createListDto - The data for the new list
+   * @returns The created list
+   */
+  async create(scope: WorkspaceScope, createListDto: CreateListDto) {
+    return this.prisma.todoList.create({
+      data: {
+        ...createListDto,
+        userId: scope.userId,
+        workspaceId: scope.workspaceId,
+      },
+    });
+  }
+
+  /**
+   * Get all lists of the active workspace
+   * @param scope - The caller and the workspace whose lists are returned
+   * @returns The lists (default list first, then A-Z) with a todo count
+   */
+  async findAll(scope: WorkspaceScope) {
+    // _count adds the number of related records without loading them
+    return this.prisma.todoList.findMany({
+      where: { workspaceId: scope.workspaceId },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      include: {
+        _count: { select: { todos: { where: { deletedAt: null } } } },
+      },
+    });
+  }
+
+  /**
+   * Get a single list by ID
+   * @param scope - The caller and the workspace the list must be in
+   * @param id - The list's unique identifier
+   * @returns The list with a todo count
+   * @throws NotFoundException if the list doesn't exist or is in another workspace
+   */
+  async findOne(scope: WorkspaceScope, id: number) {
+    const list = await this.prisma.todoList.findFirst({
+      where: { id, workspaceId: scope.workspaceId },
+      include: {
+        _count: { select: { todos: { where: { deletedAt: null } } } },
+      },
+    });
+
+    if (!list) {
+      throw new NotFoundException(`List with ID ${id} not found`);
+    }
+
+    return list;
+  }
+
+  /**
+   * Rename one of the workspace's lists
+   * @param scope - The caller and the workspace the list must be in
+   * @param id - The list's unique identifier
+   * @param updateListDto - The fields to update
+   * @returns The updated list
+   * @throws Prisma P2025 (a 404, see PrismaExceptionFilter) if the list
+   *         doesn't exist or is in another workspace
+   */
+  async update(
+    scope: WorkspaceScope,
+    id: number,
+    updateListDto: UpdateListDto,
+  ) {
+    // workspaceId in the where clause: other workspaces' lists simply don't match
+    return this.prisma.todoList.update({
+      where: { id, workspaceId: scope.workspaceId },
+      data: updateListDto,
+    });
+  }
+
+  /**
+   * Delete one of the workspace's lists
+   *
+   * What happens to the todos in the list?
+   * - cascade = false (default): they are moved to the workspace's default list
+   * - cascade = true: they are moved to the trash together with the list,
+   *   and so are their subtasks (see TodoService.remove)
+   *
+   * The todos change through TodoService.updateManyWithAudit, so each one
+   * gets an audit event, webhook deliveries and a stream event like any
+   * other change. Everything runs in one transaction, so a failure never
+   * leaves todos pointing at a half-deleted list.
+   *
+   * @param scope - The caller and the workspace the list must be in
+   * @param id - The list's unique identifier
+   * @param cascade - Delete the list's todos instead of moving them
+   * @returns The deleted list
+   * @throws NotFoundException if the list doesn't exist or is in another workspace
+   * @throws BadRequestException if the list is the workspace's default list
+   */
+  async remove(scope: WorkspaceScope, id: number, cascade = false) {
+    const list = await this.findOne(scope, id);
+
+    if (list.isDefault) {
+      throw new BadRequestException('The default list cannot be deleted');
+    }
+
+    // transaction() rather than $transaction(): the stream events are
+    // only sent once the change is committed (see PrismaService)
+    return this.prisma.transaction(async (tx) => {
+      if (cascade) {
+        // The todos go to the trash, not away for good
+        const ids = (
+          await tx.todo.findMany({
+            where: { listId: id, deletedAt: null },
+            select: { id: true },
+          })
+        ).map((todo) => todo.id);
+        const descendantIds = await this.todoService.findDescendantIds(
+          ids,
+          undefined,
+          tx,
+        );
+
+        await this.todoService.updateManyWithAudit(
+          tx,
+          scope.userId,
+          { id: { in: [...new Set([...ids, ...descendantIds])] } },
+          { deletedAt: new Date() },
+          'delete',
+        );
+      } else {
+        // Trashed todos move too, so they're back in a list when restored
+        const defaultList = await this.getOrCreateDefault(scope, tx);
+        await this.todoService.updateManyWithAudit(
+          tx,
+          scope.userId,
+          { listId: id },
+          { listId: defaultList.id },
+          'update',
+        );
+      }
+
+      return tx.todoList.delete({ where: { id } });
+    });
+  }
+
+  /**
+   * Find the workspace's default list, creating it the first time it's needed
+   * @param scope - The caller, who creates the list if needed, and the
+   *                workspace whose default list is returned
+   * @param db - Pass a transaction client to run inside an existing transaction
+   */
+  async getOrCreateDefault(
+    scope: WorkspaceScope,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const existing = await db.todoList.findFirst({
+      where: { workspaceId: scope.workspaceId, isDefault: true },
+    });
+
+    return (
+      existing ??
+      db.todoList.create({
+        data: {
+          name: DEFAULT_LIST_NAME,
+          isDefault: true,
+          userId: scope.userId,
+          workspaceId: scope.workspaceId,
+        },
+      })
+    );
+  }
+}
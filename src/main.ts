@@ -1,14 +1,17 @@
-import { NestFactory } from '@nestjs/core';
+import { HttpAdapterHost, NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { PrismaExceptionFilter } from './common/prisma-exception.filter';
+import { HttpExceptionFilter } from './common/http-exception.filter';
+import { AllExceptionsFilter } from './common/all-exceptions.filter';
 
 /**
  * Bootstrap function - Entry point of the NestJS application
  *
  * This function:
  * 1. Creates the NestJS application instance
- * 2. Configures global middleware (validation, swagger)
+ * 2. Configures global middleware (validation, error handling, swagger)
  * 3. Starts the HTTP server
  */
 async function bootstrap() {
@@ -41,6 +44,28 @@ async function bootstrap() {
     }),
   );
 
+  /**
+   * Global Exception Filters
+   *
+   * Every error response is a problem+json body (see ProblemDetails):
+   * - HttpExceptionFilter: the exceptions our code, pipes and guards throw,
+   *   e.g. NotFoundException or a failed validation
+   * - PrismaExceptionFilter: database errors, translated into client errors
+   *   - P2002 (unique constraint failed) -> 409 Conflict
+   *   - P2003 (foreign key constraint failed) -> 400 Bad Request
+   *   - P2025 (record to update/delete not found) -> 404 Not Found
+   * - AllExceptionsFilter: everything else, logged and sent as a 500
+   *   (or a 400 for a PrismaClientValidationError)
+   *
+   * Nest tries them from the last one back, so the catch-all comes first
+   */
+  const { httpAdapter } = app.get(HttpAdapterHost);
+  app.useGlobalFilters(
+    new AllExceptionsFilter(httpAdapter),
+    new HttpExceptionFilter(httpAdapter),
+    new PrismaExceptionFilter(httpAdapter),
+  );
+
   /**
    * Swagger/OpenAPI Configuration
    *
@@ -51,12 +76,14 @@ async function bootstrap() {
    * - setTitle: API name shown in the docs
    * - setDescription: Brief description of what the API does
    * - setVersion: API version for tracking changes
+   * - addBearerAuth: Adds an "Authorize" button for pasting an access token
    * - build: Generates the final configuration object
    */
   const config = new DocumentBuilder()
     .setTitle('Todo API')
     .setDescription('A simple CRUD API for managing todo items')
     .setVersion('1.0')
+    .addBearerAuth()
     .build();
 
   // Create the Swagger document from our app and config
@@ -0,0 +1,39 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * HttpMetricsMiddleware - Times every request for MetricsService
+ *
+ * The route is only known once Express has matched the request, so it's
+ * read when the response is finished. Requests no route matched (404s for
+ * made-up paths) are grouped under one "(unmatched)" route.
+ *
+ * Nest mounts middleware as a catch-all route itself, so req.route is
+ * already set in use() - a request still on that route was never matched.
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metrics: MetricsService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const start = process.hrtime.bigint();
+    const middlewareRoute: unknown = req.route;
+
+    res.on('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      const route = req.route as { path?: string } | undefined;
+
+      this.metrics.recordRequest(
+        req.method,
+        route && route !== middlewareRoute && route.path
+          ? route.path
+          : '(unmatched)',
+        res.statusCode,
+        seconds,
+      );
+    });
+
+    next();
+  }
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { MetricsService } from './metrics.service';
+
+/**
+ * MetricsController - Metrics for Prometheus to scrape
+ *
+ * Public like the health checks: keep it reachable from the monitoring
+ * network only, e.g. by not routing /metrics through the public proxy.
+ */
+@ApiTags('metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  /**
+   * GET /metrics - Request, query and data metrics in the Prometheus format
+   */
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @ApiOperation({ summary: 'Get metrics in the Prometheus text format' })
+  @ApiOkResponse({ description: 'The metrics', type: String })
+  render() {
+    return this.metricsService.render();
+  }
+}
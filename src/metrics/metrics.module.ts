@@ -0,0 +1,30 @@
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { MetricsController } from './metrics.controller';
+import { HttpMetricsMiddleware } from './http-metrics.middleware';
+
+/**
+ * MetricsModule - Prometheus metrics at GET /metrics
+ *
+ * - MetricsService keeps the counters and histograms
+ * - HttpMetricsMiddleware times every request of the app, whichever
+ *   module's controller answers it
+ *
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  controllers: [MetricsController],
+  providers: [MetricsService],
+})
+export class MetricsModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(HttpMetricsMiddleware)
+      .forRoutes({ path: '{*path}', method: RequestMethod.ALL });
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Counter, Histogram, describeQuery, renderGauge } from './prometheus';
+
+/**
+ * MetricsService - Collects the numbers served at GET /metrics
+ *
+ * - http_requests_total / http_request_duration_seconds: recorded by
+ *   HttpMetricsMiddleware for every request
+ * - prisma_query_duration_seconds: recorded from PrismaService's query events
+ * - todos / users: counted in the database on every scrape
+ *
+ * The counters live in memory, so they start from zero on every restart -
+ * Prometheus expects that and handles it in rate() and increase().
+ */
+@Injectable()
+export class MetricsService implements OnModuleInit {
+  private readonly httpRequests = new Counter(
+    'http_requests_total',
+    'HTTP requests handled',
+  );
+
+  private readonly httpDuration = new Histogram(
+    'http_request_duration_seconds',
+    'How long HTTP requests took to answer, in seconds',
+  );
+
+  private readonly queryDuration = new Histogram(
+    'prisma_query_duration_seconds',
+    'How long database queries took, in seconds',
+  );
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleInit() {
+    this.prisma.onQuery((event) => {
+      // Prisma reports the duration in milliseconds
+      this.queryDuration.observe(
+        describeQuery(event.query),
+        event.duration / 1000,
+      );
+    });
+  }
+
+  /**
+   * Record one answered request
+   * @param route - The route pattern, e.g. /todos/:id, never the real path:
+   *   one series per todo ID would grow without limit
+   */
+  recordRequest(
+    method: string,
+    route: string,
+    status: number,
+    seconds: number,
+  ) {
+    this.httpRequests.inc({ method, route, status: String(status) });
+    this.httpDuration.observe({ method, route }, seconds);
+  }
+
+  /** All metrics in the Prometheus text format */
+  async render(): Promise<string> {
+    const [openTodos, completedTodos, trashedTodos, activeUsers, trashedUsers] =
+      await this.prisma.$transaction([
+        this.prisma.todo.count({
+          where: { deletedAt: null, completed: false },
+        }),
+        this.prisma.todo.count({ where: { deletedAt: null, completed: true } }),
+        this.prisma.todo.count({ where: { deletedAt: { not: null } } }),
+        this.prisma.user.count({ where: { deletedAt: null } }),
+        this.prisma.user.count({ where: { deletedAt: { not: null } } }),
+      ]);
+
+    return [
+      this.httpRequests.render(),
+      this.httpDuration.render(),
+      this.queryDuration.render(),
+      renderGauge('todos', 'Todos in the database, by state', [
+        { labels: { state: 'open' }, value: openTodos },
+        { labels: { state: 'completed' }, value: completedTodos },
+        { labels: { state: 'trashed' }, value: trashedTodos },
+      ]),
+      renderGauge('users', 'Users in the database, by state', [
+        { labels: { state: 'active' }, value: activeUsers },
+        { labels: { state: 'trashed' }, value: trashedUsers },
+      ]),
+      '', // the format ends with a line break
+    ].join('\n');
+  }
+}
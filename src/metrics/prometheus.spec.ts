@@ -0,0 +1,90 @@
+import {
+  Counter,
+  Histogram,
+  describeQuery,
+  formatLabels,
+  renderGauge,
+} from './prometheus';
+
+describe('prometheus', () => {
+  describe('formatLabels', () => {
+    it('should quote and escape the values', () => {
+      expect(formatLabels({ route: '/todos', note: 'a "b"\\\n' })).toBe(
+        '{route="/todos",note="a \\"b\\"\\\\\\n"}',
+      );
+    });
+
+    it('should leave out the braces without labels', () => {
+      expect(formatLabels({})).toBe('');
+    });
+  });
+
+  describe('Counter', () => {
+    it('should add up each set of labels, in any order', () => {
+      const counter = new Counter('requests_total', 'Requests');
+      counter.inc({ method: 'GET', status: '200' });
+      counter.inc({ status: '200', method: 'GET' }, 2);
+      counter.inc({ method: 'POST', status: '201' });
+
+      expect(counter.render()).toBe(
+        [
+          '# HELP requests_total Requests',
+          '# TYPE requests_total counter',
+          'requests_total{method="GET",status="200"} 3',
+          'requests_total{method="POST",status="201"} 1',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('Histogram', () => {
+    it('should count observations in cumulative buckets', () => {
+      const histogram = new Histogram('latency_seconds', 'Latency', [0.1, 1]);
+      histogram.observe({ route: '/' }, 0.05);
+      histogram.observe({ route: '/' }, 0.5);
+      histogram.observe({ route: '/' }, 3);
+
+      expect(histogram.render()).toBe(
+        [
+          '# HELP latency_seconds Latency',
+          '# TYPE latency_seconds histogram',
+          'latency_seconds_bucket{route="/",le="0.1"} 1',
+          'latency_seconds_bucket{route="/",le="1"} 2',
+          'latency_seconds_bucket{route="/",le="+Inf"} 3',
+          'latency_seconds_sum{route="/"} 3.55',
+          'latency_seconds_count{route="/"} 3',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('renderGauge', () => {
+    it('should render the samples', () => {
+      expect(
+        renderGauge('todos', 'Todos', [
+          { labels: { state: 'open' }, value: 4 },
+        ]),
+      ).toBe('# HELP todos Todos\n# TYPE todos gauge\ntodos{state="open"} 4');
+    });
+  });
+
+  describe('describeQuery', () => {
+    it('should find the kind of statement and its table', () => {
+      expect(
+        describeQuery('SELECT `main`.`Todo`.`id` FROM `main`.`Todo` WHERE 1'),
+      ).toEqual({ operation: 'SELECT', table: 'Todo' });
+      expect(describeQuery('INSERT INTO "User" ("name") VALUES (?)')).toEqual({
+        operation: 'INSERT',
+        table: 'User',
+      });
+      expect(describeQuery('UPDATE `main`.`Tag` SET x = ?')).toEqual({
+        operation: 'UPDATE',
+        table: 'Tag',
+      });
+    });
+
+    it('should group everything else as OTHER', () => {
+      expect(describeQuery('BEGIN')).toEqual({ operation: 'OTHER', table: '' });
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * A small Prometheus metrics registry
+ *
+ * Prometheus scrapes GET /metrics and reads plain text like:
+ *
+ *   # HELP http_requests_total HTTP requests handled
+ *   # TYPE http_requests_total counter
+ *   http_requests_total{method="GET",route="/todos",status="200"} 42
+ *
+ * Only what this app needs is implemented:
+ * - Counter: a number that only goes up (requests handled)
+ * - Histogram: how observed values are spread over buckets (latencies)
+ * - renderGauge(): a value read at scrape time (todos in the database)
+ *
+ * See https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+/** The labels of one series, e.g. { method: 'GET', route: '/todos' } */
+export type Labels = Record<string, string>;
+
+/** The default latency buckets of the Prometheus clients, in seconds */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Format labels as {a="1",b="2"}, or nothing when there are none
+ * Backslashes, quotes and newlines in values are escaped
+ */
+export function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/** The HELP and TYPE lines every metric starts with */
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/** A stable key for a set of labels, whatever order they were given in */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+/** A value that only goes up, one series per set of labels */
+export class Counter {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; value: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = seriesKey(labels);
+    const current = this.series.get(key) ?? { labels, value: 0 };
+    current.value += value;
+    this.series.set(key, current);
+  }
+
+  render(): string {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...[...this.series.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+      ),
+    ].join('\n');
+  }
+}
+
+/**
+ * Counts observations per bucket, one series per set of labels
+ *
+ * Buckets are cumulative: le="0.1" counts every observation up to 0.1,
+ * including those also counted in le="0.05". +Inf counts all of them.
+ */
+export class Histogram {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly bounds: number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const current = this.series.get(key) ?? {
+      labels,
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) current.buckets[i]++;
+    });
+    current.sum += value;
+    current.count++;
+    this.series.set(key, current);
+  }
+
+  render(): string {
+    const lines = header(this.name, this.help, 'histogram');
+
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
+
+/** Render a gauge from values read just now */
+export function renderGauge(
+  name: string,
+  help: string,
+  samples: { labels: Labels; value: number }[],
+): string {
+  return [
+    ...header(name, help, 'gauge'),
+    ...samples.map(
+      ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+    ),
+  ].join('\n');
+}
+
+/**
+ * Describe an SQL statement for the query metrics: its kind and the table
+ * it's about, e.g. SELECT ... FROM `main`.`Todo` -> SELECT on Todo
+ * Keeps the label values few - never the whole query
+ */
+export function describeQuery(sql: string): {
+  operation: string;
+  table: string;
+} {
+  const keyword = /^\s*(\w+)/.exec(sql)?.[1]?.toUpperCase() ?? '';
+  const operation = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'].includes(keyword)
+    ? keyword
+    : 'OTHER';
+  const table =
+    /\b(?:FROM|INTO|UPDATE)\s+(?:[`"]?main[`"]?\.)?[`"]?(\w+)/i.exec(
+      sql,
+    )?.[1] ?? '';
+
+  return { operation, table };
+}
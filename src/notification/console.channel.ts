@@ -0,0 +1,27 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  NotificationChannel,
+  NotificationMessage,
+} from './notification-channel';
+
+/**
+ * ConsoleChannel - The default delivery channel for local development
+ *
+ * Like a mail catcher, it doesn't send anything: every message is printed
+ * to the log the way an email would look, so you can see what users
+ * would receive without setting up a mail server.
+ */
+@Injectable()
+export class ConsoleChannel implements NotificationChannel {
+  private readonly logger = new Logger(ConsoleChannel.name);
+
+  send(message: NotificationMessage) {
+    const { name, email } = message.to;
+    const to = email ? `${name} <${email}>` : name;
+
+    this.logger.log(
+      [`To: ${to}`, `Subject: ${message.subject}`, '', message.text].join('\n'),
+    );
+    return Promise.resolve();
+  }
+}
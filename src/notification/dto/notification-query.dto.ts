@@ -0,0 +1,21 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ToBoolean } from '../../common/transforms';
+
+/**
+ * NotificationQueryDto - Query parameters accepted by GET /notifications
+ *
+ * Example:
+ *   GET /notifications?unread=true&limit=10
+ */
+export class NotificationQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only return notifications that have not been read yet',
+    type: Boolean,
+  })
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  unread?: boolean;
+}
@@ -0,0 +1,25 @@
+/** A notification, ready to be sent to its user */
+export interface NotificationMessage {
+  to: { name: string; email: string | null };
+  subject: string;
+  text: string;
+}
+
+/**
+ * NotificationChannel - How notifications reach users outside the app
+ *
+ * Every notification is kept in the user's inbox (GET /notifications);
+ * the channel sends a copy on top of that, e.g. as an email. The default
+ * is ConsoleChannel, which only prints it. A channel for real email,
+ * push or chat messages implements send() and is registered for
+ * NOTIFICATION_CHANNEL in NotificationModule instead.
+ */
+export interface NotificationChannel {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * The injection token of the delivery channel
+ * (an interface can't be a token, see ATTACHMENT_STORAGE)
+ */
+export const NOTIFICATION_CHANNEL = 'NOTIFICATION_CHANNEL';
@@ -0,0 +1,35 @@
+import { NotificationType } from '@prisma/client';
+import { renderNotification } from './notification-message';
+
+describe('renderNotification', () => {
+  const todo = {
+    id: 3,
+    title: 'Pay rent',
+    dueAt: new Date('2026-10-20T09:00:00Z'),
+  };
+
+  it('should tell assignees which todo is theirs', () => {
+    expect(
+      renderNotification({ type: NotificationType.TODO_ASSIGNED, todo }),
+    ).toEqual({
+      subject: 'You were assigned "Pay rent"',
+      text: 'You are now the assignee of "Pay rent" (todo #3).',
+    });
+  });
+
+  it('should give the due date of reminders', () => {
+    expect(
+      renderNotification({ type: NotificationType.TODO_DUE_SOON, todo }),
+    ).toEqual({
+      subject: 'Due soon: "Pay rent"',
+      text: '"Pay rent" (todo #3) is due at 2026-10-20T09:00:00.000Z.',
+    });
+  });
+
+  it('should cope with notifications whose todo is gone', () => {
+    expect(
+      renderNotification({ type: NotificationType.TODO_ASSIGNED, todo: null })
+        .subject,
+    ).toBe('You were assigned a todo');
+  });
+});
@@ -0,0 +1,34 @@
+import { NotificationType } from '@prisma/client';
+
+/** What renderNotification() needs to know about a notification */
+export interface NotificationDetails {
+  type: NotificationType;
+  todo: { id: number; title: string; dueAt: Date | null } | null;
+}
+
+/**
+ * Write the subject and text of a notification, for the delivery channel
+ * @example renderNotification({ type: 'TODO_DUE_SOON', todo })
+ * // { subject: 'Due soon: "Pay rent"', text: '"Pay rent" (todo #3) is due at 2026-10-20T09:00:00.000Z.' }
+ */
+export function renderNotification(notification: NotificationDetails): {
+  subject: string;
+  text: string;
+} {
+  const { todo } = notification;
+  const title = todo ? `"${todo.title}"` : 'a todo';
+  const ref = todo ? ` (todo #${todo.id})` : '';
+
+  switch (notification.type) {
+    case NotificationType.TODO_ASSIGNED:
+      return {
+        subject: `You were assigned ${title}`,
+        text: `You are now the assignee of ${title}${ref}.`,
+      };
+    case NotificationType.TODO_DUE_SOON:
+      return {
+        subject: `Due soon: ${title}`,
+        text: `${title}${ref} is due at ${todo?.dueAt?.toISOString() ?? 'an unknown time'}.`,
+      };
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * How long before its due date a todo's reminder goes out, in minutes
+ * Set REMINDER_LEAD_MINUTES to change it (defaults to 60)
+ */
+export const REMINDER_LEAD_MINUTES = Number(
+  process.env.REMINDER_LEAD_MINUTES ?? 60,
+);
+
+/** When the scheduler looks for todos to remind about: every minute */
+export const REMINDER_SCHEDULE = '* * * * *';
+
+/** Most reminders sent per run - the rest go out on the next one */
+export const REMINDER_BATCH_SIZE = 100;
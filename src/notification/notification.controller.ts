@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NotificationService } from './notification.service';
+import { NotificationQueryDto } from './dto/notification-query.dto';
+import { Paginated } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+
+/**
+ * NotificationController - The caller's notifications inbox
+ *
+ * Follows the same pattern as WebhookController:
+ * - JwtAuthGuard on every route, the caller only sees their own
+ *   notifications - from every workspace
+ */
+@ApiTags('notifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  /**
+   * GET /notifications - One page of the caller's notifications, newest first
+   *
+   * Query parameters (all optional):
+   * - limit / offset: Page size and items to skip
+   * - unread: true returns the unread ones only - the total of that page
+   *   is the number for an "unread" badge
+   */
+  @Get()
+  @ApiOperation({ summary: "Get a page of the caller's notifications" })
+  @ApiOkResponse({ description: 'A page of notifications', type: Paginated })
+  findAll(@CurrentUser() user: AuthUser, @Query() query: NotificationQueryDto) {
+    return this.notificationService.findAll(user.id, query);
+  }
+
+  /**
+   * POST /notifications/read - Mark all of the caller's notifications as read
+   */
+  @Post('read')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Mark all notifications as read' })
+  @ApiResponse({ status: 200, description: 'How many were marked' })
+  markAllRead(@CurrentUser() user: AuthUser) {
+    return this.notificationService.markAllRead(user.id);
+  }
+
+  /**
+   * POST /notifications/:id/read - Mark one notification as read
+   */
+  @Post(':id/read')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'id', description: 'The notification ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The notification' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  markRead(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.notificationService.markRead(user.id, id);
+  }
+}
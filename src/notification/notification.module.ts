@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { NotificationService } from './notification.service';
+import { NotificationController } from './notification.controller';
+import { ReminderService } from './reminder.service';
+import { NOTIFICATION_CHANNEL } from './notification-channel';
+import { ConsoleChannel } from './console.channel';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+
+/**
+ * NotificationModule - The in-app notifications of users
+ *
+ * - NotificationService writes notifications, serves the inbox and hands
+ *   every notification to the delivery channel
+ * - ReminderService sends due-date reminders from a scheduled job
+ * - NOTIFICATION_CHANNEL is ConsoleChannel by default - swap in another
+ *   NotificationChannel here to send real messages
+ *
+ * Exports NotificationService so TodoModule can notify people in the
+ * same transaction as its changes, e.g. a new assignee.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  imports: [SchedulerModule],
+  controllers: [NotificationController],
+  providers: [
+    NotificationService,
+    ReminderService,
+    { provide: NOTIFICATION_CHANNEL, useClass: ConsoleChannel },
+  ],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
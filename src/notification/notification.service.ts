@@ -0,0 +1,145 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { NotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { paginate } from '../common/pagination';
+import { NotificationQueryDto } from './dto/notification-query.dto';
+import { NOTIFICATION_CHANNEL } from './notification-channel';
+import type { NotificationChannel } from './notification-channel';
+import { renderNotification } from './notification-message';
+
+/** One notification to create */
+export interface NotificationEntry {
+  /** Who the notification is for */
+  userId: number;
+  type: NotificationType;
+  /** The todo it is about, if any */
+  todoId?: number;
+  /** Who caused it, if anyone */
+  actorId?: number;
+}
+
+/** The todo a notification is about, as shown in the inbox */
+const NOTIFICATION_TODO = {
+  todo: { select: { id: true, title: true, dueAt: true } },
+} satisfies Prisma.NotificationInclude;
+
+/**
+ * NotificationService - The in-app notifications of users
+ *
+ * Like AuditService, notify() takes the transaction client of the change
+ * the notification is about, so a notification is never sent for a change
+ * that was rolled back.
+ *
+ * Every notification lands in the user's inbox (GET /notifications) and
+ * is also handed to the delivery channel (see NotificationChannel) once
+ * the transaction commits.
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(NOTIFICATION_CHANNEL) private channel: NotificationChannel,
+  ) {}
+
+  /**
+   * Create a notification
+   * Nobody is notified about their own actions, so when actorId and userId
+   * are the same nothing is written
+   * @param db - The transaction the change is made in
+   */
+  async notify(db: Prisma.TransactionClient, entry: NotificationEntry) {
+    if (entry.actorId === entry.userId) {
+      return;
+    }
+
+    const notification = await db.notification.create({
+      data: entry,
+      include: {
+        ...NOTIFICATION_TODO,
+        user: { select: { email: true, name: true } },
+      },
+    });
+
+    this.prisma.afterCommit(db, () => {
+      const { subject, text } = renderNotification(notification);
+      // Sending is best effort - the notification is in the inbox either way
+      this.channel
+        .send({ to: notification.user, subject, text })
+        .catch((error: Error) =>
+          this.logger.warn(
+            `Could not deliver notification ${notification.id}: ${error.message}`,
+          ),
+        );
+    });
+  }
+
+  /**
+   * Get one page of the caller's notifications, newest first
+   * @param userId - The authenticated user
+   * @param query - Pagination options, and unread=true for unread ones only
+   * @returns A Paginated envelope of notifications with their todo
+   */
+  async findAll(userId: number, query: NotificationQueryDto) {
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      readAt: query.unread ? null : undefined,
+    };
+
+    const [notifications, total] = await this.prisma.$transaction([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: query.offset,
+        take: query.limit,
+        include: NOTIFICATION_TODO,
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    return paginate(notifications, total, query, '/notifications');
+  }
+
+  /**
+   * Mark one of the caller's notifications as read
+   * Marking it again keeps the time it was first read
+   * @param userId - The authenticated user
+   * @param id - The notification's unique identifier
+   * @returns The notification
+   * @throws NotFoundException if it doesn't exist or isn't the caller's
+   */
+  async markRead(userId: number, id: number) {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id, userId },
+      include: NOTIFICATION_TODO,
+    });
+
+    if (!notification) {
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+    if (notification.readAt) {
+      return notification;
+    }
+
+    return this.prisma.notification.update({
+      where: { id },
+      data: { readAt: new Date() },
+      include: NOTIFICATION_TODO,
+    });
+  }
+
+  /**
+   * Mark all of the caller's unread notifications as read
+   * @param userId - The authenticated user
+   * @returns How many notifications were marked
+   */
+  async markAllRead(userId: number) {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return { count };
+  }
+}
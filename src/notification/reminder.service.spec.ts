@@ -0,0 +1,98 @@
+import { NotificationType } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestUser,
+} from '../../test/test-database';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { ConsoleChannel } from './console.channel';
+import { NotificationService } from './notification.service';
+import { REMINDER_LEAD_MINUTES } from './notification.constants';
+import { ReminderService } from './reminder.service';
+
+describe('ReminderService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let reminders: ReminderService;
+  let userId: number;
+  let workspaceId: number;
+
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const inMinutes = (minutes: number) =>
+    new Date(now.getTime() + minutes * 60_000);
+  /** Due within the lead time */
+  const soon = inMinutes(REMINDER_LEAD_MINUTES / 2);
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    // Nothing is sent anywhere, the inbox is checked instead
+    const channel = new ConsoleChannel();
+    jest.spyOn(channel, 'send').mockResolvedValue(undefined);
+    reminders = new ReminderService(
+      prisma,
+      new NotificationService(prisma, channel),
+      {} as SchedulerService,
+    );
+
+    ({
+      user: { id: userId },
+      workspaceId,
+    } = await createTestUser(prisma, 'Ann'));
+  });
+
+  afterEach(() => db.close());
+
+  const todo = (title: string, dueAt: Date, data: object = {}) =>
+    prisma.todo.create({
+      data: { title, dueAt, userId, workspaceId, ...data },
+    });
+
+  /** The TODO_DUE_SOON notifications, as [user ID, todo ID] */
+  const sentReminders = async () =>
+    (
+      await prisma.notification.findMany({
+        where: { type: NotificationType.TODO_DUE_SOON },
+        orderBy: { id: 'asc' },
+      })
+    ).map((notification) => [notification.userId, notification.todoId]);
+
+  describe('sendDueReminders', () => {
+    it('should remind the assignee, or the creator if nobody is assigned', async () => {
+      const { user: assignee } = await createTestUser(prisma, 'Ben');
+      const mine = await todo('Mine', soon);
+      const theirs = await todo('Theirs', inMinutes(1), {
+        assigneeId: assignee.id,
+      });
+
+      expect(await reminders.sendDueReminders(now)).toBe(2);
+      expect(await sentReminders()).toEqual([
+        [assignee.id, theirs.id],
+        [userId, mine.id],
+      ]);
+    });
+
+    it('should remind once per due date', async () => {
+      const { id } = await todo('Call', soon);
+
+      await reminders.sendDueReminders(now);
+      expect(await reminders.sendDueReminders(now)).toBe(0);
+
+      expect(await sentReminders()).toHaveLength(1);
+      expect(await prisma.todo.findUnique({ where: { id } })).toMatchObject({
+        remindedAt: now,
+      });
+    });
+
+    it('should skip completed, deleted, overdue and later todos', async () => {
+      await todo('Done', soon, { completed: true });
+      await todo('Deleted', soon, { deletedAt: now });
+      await todo('Overdue', inMinutes(-5));
+      await todo('Later', inMinutes(REMINDER_LEAD_MINUTES + 1));
+
+      expect(await reminders.sendDueReminders(now)).toBe(0);
+      expect(await sentReminders()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { NotificationType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { NotificationService } from './notification.service';
+import {
+  REMINDER_BATCH_SIZE,
+  REMINDER_LEAD_MINUTES,
+  REMINDER_SCHEDULE,
+} from './notification.constants';
+
+/**
+ * ReminderService - Tells people about their todos shortly before they
+ * are due
+ *
+ * A scheduled job (see SchedulerService) looks for open todos that are due
+ * within REMINDER_LEAD_MINUTES and sends each one a TODO_DUE_SOON
+ * notification - to the assignee, or to the creator if nobody is assigned.
+ *
+ * Todo.remindedAt makes sure every due date gets one reminder only;
+ * TodoService clears it when the due date changes.
+ */
+@Injectable()
+export class ReminderService implements OnModuleInit {
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationService,
+    private scheduler: SchedulerService,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'due-date-reminders',
+      schedule: REMINDER_SCHEDULE,
+      run: () => this.sendDueReminders(),
+    });
+  }
+
+  /**
+   * Send the reminders of the todos due within the lead time
+   * Todos that were already past due when this ran get none
+   * @param now - The current time (a parameter so it can be pinned in tests)
+   * @returns How many reminders were sent
+   */
+  async sendDueReminders(now = new Date()) {
+    const todos = await this.prisma.todo.findMany({
+      where: {
+        deletedAt: null,
+        completed: false,
+        remindedAt: null,
+        // Someone to remind: a todo whose creator was purged may have nobody
+        OR: [{ assigneeId: { not: null } }, { userId: { not: null } }],
+        dueAt: {
+          gt: now,
+          lte: new Date(now.getTime() + REMINDER_LEAD_MINUTES * 60_000),
+        },
+      },
+      orderBy: { dueAt: 'asc' },
+      take: REMINDER_BATCH_SIZE,
+    });
+
+    let sent = 0;
+    for (const todo of todos) {
+      const recipientId = todo.assigneeId ?? todo.userId;
+      if (recipientId === null) continue;
+
+      await this.prisma.transaction(async (tx) => {
+        // Claimed like a webhook delivery: only the run whose update
+        // matched sends the reminder. updatedAt is kept, because the
+        // todo itself didn't change
+        const claimed = await tx.todo.updateMany({
+          where: { id: todo.id, remindedAt: null },
+          data: { remindedAt: now, updatedAt: todo.updatedAt },
+        });
+        if (claimed.count === 0) return;
+
+        await this.notifications.notify(tx, {
+          userId: recipientId,
+          type: NotificationType.TODO_DUE_SOON,
+          todoId: todo.id,
+        });
+        sent++;
+      });
+    }
+
+    return sent;
+  }
+}
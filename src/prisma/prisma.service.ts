@@ -1,5 +1,5 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3';
 
 /**
@@ -18,6 +18,16 @@ import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3';
  * Lifecycle Hooks:
  * - OnModuleInit: Called when the module is initialized (we connect to DB here)
  * - OnModuleDestroy: Called when the app shuts down (we disconnect here)
+ *
+ * transaction() and afterCommit():
+ * - Some side effects must only happen once a change is really saved,
+ *   e.g. telling open browser tabs about it (see TodoEventsService)
+ * - Prisma has no "after commit" hook, so transaction() keeps a list of
+ *   callbacks per transaction and runs them once $transaction() resolves
+ *
+ * onQuery():
+ * - Every query is reported as a "query" event with its duration, which
+ *   MetricsService turns into query latency metrics
  */
 @Injectable() // giving the functionality
 // making a contract to implement specific functions
@@ -34,7 +44,78 @@ export class PrismaService
 
     // Pass the adapter to PrismaClient
     // This is required in Prisma 7+ for all database connections
-    super({ adapter });
+    //
+    // omit: fields that are left out of every query result by default
+    // - passwordHash must never be sent back to API clients
+    // - calendarTokenHash neither - it's as secret as the password hash
+    // - Webhook secrets are only shown once, when the webhook is created
+    // - Invite tokens too: the hash is only used to look an invitation up
+    // - Attachment storage keys are internal to the storage driver
+    // - A query that really needs it opts back in with omit: { passwordHash: false }
+    //
+    // log: emit every query as an event instead of printing it (see onQuery)
+    super({
+      adapter,
+      log: [{ emit: 'event', level: 'query' }],
+      omit: {
+        user: { passwordHash: true, calendarTokenHash: true },
+        webhook: { secret: true },
+        workspaceInvite: { tokenHash: true },
+        attachment: { storageKey: true },
+      },
+    });
+  }
+
+  /** The after-commit callbacks of each open transaction() */
+  private readonly commitCallbacks = new WeakMap<object, (() => void)[]>();
+
+  /**
+   * An interactive transaction, like $transaction(async (tx) => ...), that
+   * also runs the callbacks registered with afterCommit() once it commits
+   * If the transaction is rolled back, the callbacks are dropped
+   */
+  async transaction<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options?: { timeout?: number },
+  ): Promise<T> {
+    const callbacks: (() => void)[] = [];
+
+    const result = await this.$transaction(async (tx) => {
+      this.commitCallbacks.set(tx, callbacks);
+      return fn(tx);
+    }, options);
+
+    callbacks.forEach((callback) => callback());
+    return result;
+  }
+
+  /**
+   * Run a callback once the changes made with `db` are committed
+   * - db is a transaction() client: the callback waits for the commit
+   * - db is PrismaService itself: each query commits on its own, so the
+   *   callback runs right away
+   */
+  afterCommit(db: Prisma.TransactionClient, callback: () => void) {
+    const callbacks = this.commitCallbacks.get(db);
+
+    if (callbacks) {
+      callbacks.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  /**
+   * Call `listener` after every query, with its SQL and duration
+   * $on() is only typed for the log levels passed to the PrismaClient type,
+   * which the plain PrismaClient we extend doesn't know about
+   */
+  onQuery(listener: (event: Prisma.QueryEvent) => void) {
+    (
+      this as unknown as PrismaClient<{
+        log: [{ emit: 'event'; level: 'query' }];
+      }>
+    ).$on('query', listener);
   }
 
   /**
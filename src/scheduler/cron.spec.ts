@@ -0,0 +1,68 @@
+import { InvalidCronError, nextCronRun, parseCron } from './cron';
+
+/** Local time, so the tests pass in any time zone */
+const at = (month: number, day: number, hour = 0, minute = 0) =>
+  new Date(2026, month - 1, day, hour, minute);
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand ranges, steps and lists', () => {
+      const schedule = parseCron('*/15 8-10 1,15 * 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([8, 9, 10]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat weekday 7 as Sunday', () => {
+      expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+    });
+
+    it('should accept the shortcuts', () => {
+      expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow(InvalidCronError);
+      expect(() => parseCron('60 * * * *')).toThrow(InvalidCronError);
+      expect(() => parseCron('5-1 * * * *')).toThrow(InvalidCronError);
+      expect(() => parseCron('*/0 * * * *')).toThrow(InvalidCronError);
+      expect(() => parseCron('a * * * *')).toThrow(InvalidCronError);
+    });
+  });
+
+  describe('nextCronRun', () => {
+    it('should find the next minute of a frequent schedule', () => {
+      const next = nextCronRun(parseCron('*/5 * * * *'), at(3, 1, 10, 7));
+      expect(next).toEqual(at(3, 1, 10, 10));
+    });
+
+    it('should always move forward, even from a matching time', () => {
+      const next = nextCronRun(parseCron('0 3 * * *'), at(3, 1, 3, 0));
+      expect(next).toEqual(at(3, 2, 3, 0));
+    });
+
+    it('should skip to the right weekday and month', () => {
+      // 2026-03-01 is a Sunday, so the next weekday morning is Monday
+      expect(nextCronRun(parseCron('30 8 * * 1-5'), at(3, 1, 12))).toEqual(
+        at(3, 2, 8, 30),
+      );
+      expect(nextCronRun(parseCron('0 0 1 6 *'), at(3, 1))).toEqual(at(6, 1));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th, or any Monday - whichever comes first
+      const schedule = parseCron('0 0 15 * 1');
+      expect(nextCronRun(schedule, at(3, 10))).toEqual(at(3, 15));
+      expect(nextCronRun(schedule, at(3, 1))).toEqual(at(3, 2));
+    });
+
+    it('should give up on schedules that never run', () => {
+      expect(() => nextCronRun(parseCron('0 0 30 2 *'), at(1, 1))).toThrow(
+        InvalidCronError,
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Helpers for cron expressions, the schedules of background jobs
+ *
+ * The classic five fields, separated by spaces:
+ *
+ *   minute (0-59)  hour (0-23)  day of month (1-31)  month (1-12)  weekday (0-7)
+ *
+ * Each field is "*", a number, a range "1-5", a step "*\/15" or "8-18/2",
+ * or a comma-separated list of those. Weekdays 0 and 7 are both Sunday.
+ * The shortcuts @hourly, @daily, @weekly and @monthly work too.
+ *
+ * Examples:
+ * - "* * * * *"       every minute
+ * - "*\/5 * * * *"    every five minutes
+ * - "0 3 * * *"       every day at 03:00
+ * - "30 8 * * 1-5"    at 08:30 on weekdays
+ *
+ * Like common/dates.ts, times are in the server's local time zone.
+ */
+
+/** A parsed cron expression: the allowed values of each field */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day of month / weekday fields were restricted (not "*") */
+  dayOfMonthRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+/** Thrown by parseCron with a message that is safe to show */
+export class InvalidCronError extends Error {}
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/** The name and allowed range of each field, in order */
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'weekday', min: 0, max: 7 },
+] as const;
+
+/** How far ahead nextCronRun() looks before giving up (e.g. "0 0 30 2 *") */
+const MAX_YEARS_AHEAD = 5;
+
+/**
+ * Parse a cron expression such as "*\/15 8-18 * * 1-5"
+ * @throws InvalidCronError if the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const expanded = SHORTCUTS[expression.trim()] ?? expression;
+  const parts = expanded.trim().split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw new InvalidCronError(
+      `A cron expression has ${FIELDS.length} fields, got "${expression}"`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, weekdays] = parts.map((part, i) =>
+    parseField(part, FIELDS[i]),
+  );
+
+  // 7 is another way to write Sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    weekdays,
+    dayOfMonthRestricted: parts[2] !== '*',
+    weekdayRestricted: parts[4] !== '*',
+  };
+}
+
+/** Parse one field into the set of values it allows */
+function parseField(
+  field: string,
+  { name, min, max }: (typeof FIELDS)[number],
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+    if (!match) {
+      throw new InvalidCronError(`Invalid ${name} "${item}"`);
+    }
+
+    const [, , first, last, step] = match;
+    const from = first === undefined ? min : Number(first);
+    // "5/10" means "from 5 to the end, every 10"
+    const to =
+      last !== undefined
+        ? Number(last)
+        : first === undefined || step !== undefined
+          ? max
+          : from;
+    const by = step === undefined ? 1 : Number(step);
+
+    if (from < min || to > max || from > to || by < 1) {
+      throw new InvalidCronError(
+        `Invalid ${name} "${item}" (allowed: ${min}-${max})`,
+      );
+    }
+
+    for (let value = from; value <= to; value += by) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Whether a schedule runs on a day
+ * As in every cron: when both the day of month and the weekday are
+ * restricted, a day matching either of them counts
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.weekdayRestricted) {
+    return dayOfMonth || weekday;
+  }
+  return dayOfMonth && weekday;
+}
+
+/**
+ * The first time after `after` (to the minute) the schedule runs
+ *
+ * Instead of trying every minute, it skips whole months, days and hours
+ * that don't match.
+ *
+ * @throws InvalidCronError if the schedule never runs (e.g. February 30th)
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(next);
+  limit.setFullYear(limit.getFullYear() + MAX_YEARS_AHEAD);
+
+  while (next < limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+
+  throw new InvalidCronError('The schedule never runs');
+}
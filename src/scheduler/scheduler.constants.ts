@@ -0,0 +1,15 @@
+/**
+ * How often the scheduler looks for jobs that are due, in milliseconds
+ * Set SCHEDULER_POLL_INTERVAL_MS to change it, or to 0 to turn every
+ * background job off (e.g. on instances that should only serve requests)
+ */
+export const SCHEDULER_POLL_INTERVAL_MS = Number(
+  process.env.SCHEDULER_POLL_INTERVAL_MS ?? 15_000,
+);
+
+/**
+ * How long a claimed job stays locked to its instance
+ * A job that runs longer than this may be started a second time by
+ * another instance, so keep jobs well below it
+ */
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+
+/**
+ * SchedulerModule - Runs background jobs on cron schedules
+ *
+ * Modules with a background job import it and register the job with
+ * SchedulerService when they start (see ReminderService).
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
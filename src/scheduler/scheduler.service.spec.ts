@@ -0,0 +1,116 @@
+import { Logger } from '@nestjs/common';
+import { TestDatabase, createTestDatabase } from '../../test/test-database';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from './scheduler.service';
+
+describe('SchedulerService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  /** The job's run() */
+  let run: jest.Mock;
+
+  const now = new Date();
+  const minutesAgo = (minutes: number) =>
+    new Date(now.getTime() - minutes * 60_000);
+
+  /** An app instance with the nightly job registered */
+  const instance = () => {
+    const scheduler = new SchedulerService(prisma);
+    scheduler.register({ name: 'nightly', schedule: '@daily', run });
+    return scheduler;
+  };
+
+  /** Make the job due, optionally locked until the given time */
+  const makeDue = (lockedUntil: Date | null = null) =>
+    prisma.scheduledJob.upsert({
+      where: { name: 'nightly' },
+      create: {
+        name: 'nightly',
+        schedule: '@daily',
+        nextRunAt: minutesAgo(1),
+        lockedBy: lockedUntil && 'other-instance',
+        lockedUntil,
+      },
+      update: {},
+    });
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    run = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  describe('syncJobs', () => {
+    it('should schedule a new job at its next run', async () => {
+      await instance().syncJobs(now);
+
+      const row = await prisma.scheduledJob.findUniqueOrThrow({
+        where: { name: 'nightly' },
+      });
+      expect(row.nextRunAt.getTime()).toBeGreaterThan(now.getTime());
+      expect(await instance().runDue(now)).toEqual([]);
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runDue', () => {
+    it('should run a due job on one instance only', async () => {
+      await makeDue();
+
+      const [first, second] = await Promise.all([
+        instance().runDue(now),
+        instance().runDue(now),
+      ]);
+
+      expect([...first, ...second]).toEqual(['nightly']);
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the lock and schedule the next run', async () => {
+      await makeDue();
+
+      await instance().runDue(now);
+
+      const row = await prisma.scheduledJob.findUniqueOrThrow({
+        where: { name: 'nightly' },
+      });
+      expect(row).toMatchObject({
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: null,
+      });
+      expect(row.nextRunAt.getTime()).toBeGreaterThan(now.getTime());
+    });
+
+    it('should skip a job another instance holds the lock of', async () => {
+      await makeDue(new Date(now.getTime() + 60_000));
+
+      expect(await instance().runDue(now)).toEqual([]);
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should take over a lock that has run out', async () => {
+      await makeDue(minutesAgo(5));
+
+      expect(await instance().runDue(now)).toEqual(['nightly']);
+    });
+
+    it('should record a failing run and try again at the next run', async () => {
+      run.mockRejectedValue(new Error('Mail server down'));
+      jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+      await makeDue();
+
+      expect(await instance().runDue(now)).toEqual(['nightly']);
+      expect(
+        await prisma.scheduledJob.findUniqueOrThrow({
+          where: { name: 'nightly' },
+        }),
+      ).toMatchObject({ lastError: 'Mail server down', lockedBy: null });
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronSchedule, nextCronRun, parseCron } from './cron';
+import {
+  JOB_LOCK_TIMEOUT_MS,
+  SCHEDULER_POLL_INTERVAL_MS,
+} from './scheduler.constants';
+
+/** A background job, as registered by the module that owns it */
+export interface JobDefinition {
+  /** A unique name, also the key of its ScheduledJob row */
+  name: string;
+  /** When it runs, as a cron expression (see cron.ts) */
+  schedule: string;
+  /** The work itself - a rejected promise is recorded as lastError */
+  run: () => Promise<unknown>;
+}
+
+/**
+ * SchedulerService - Runs the registered jobs on their cron schedules
+ *
+ * How are jobs added?
+ * - A service calls register() when its module starts (onModuleInit),
+ *   e.g. ReminderService registers the due-date reminders
+ *
+ * How does it run them?
+ * - Like WebhookDispatcher: OnApplicationBootstrap starts a timer, and
+ *   every SCHEDULER_POLL_INTERVAL_MS the jobs that are due are run, one
+ *   after the other
+ * - Runs that were missed while no instance was up are not made up for:
+ *   a job that is late runs once, then goes back to its schedule
+ *
+ * What if several app instances share the database?
+ * - Each job has a ScheduledJob row with its nextRunAt and a lock
+ * - Before running a job, an instance claims it with a conditional
+ *   update; only the instance whose update matched the row runs it
+ * - The lock expires after JOB_LOCK_TIMEOUT_MS, so a job whose instance
+ *   crashed mid-run isn't stuck forever
+ */
+@Injectable()
+export class SchedulerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs = new Map<
+    string,
+    JobDefinition & { cron: CronSchedule }
+  >();
+  // Tells the instances apart in ScheduledJob.lockedBy
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Add a job
+   * @throws InvalidCronError if the schedule is malformed
+   * @throws Error if a job with the same name was registered already
+   */
+  register(job: JobDefinition) {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`A job named ${job.name} is registered already`);
+    }
+    this.jobs.set(job.name, { ...job, cron: parseCron(job.schedule) });
+  }
+
+  async onApplicationBootstrap() {
+    if (SCHEDULER_POLL_INTERVAL_MS <= 0) {
+      return;
+    }
+
+    await this.syncJobs();
+    this.timer = setInterval(() => {
+      this.runDue().catch((error: Error) =>
+        this.logger.error(`Scheduler run failed: ${error.message}`),
+      );
+    }, SCHEDULER_POLL_INTERVAL_MS);
+    // Don't keep the process alive just for this timer
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Create the ScheduledJob rows of new jobs, and move the next run of
+   * jobs whose schedule changed since the last deploy
+   */
+  async syncJobs(now = new Date()) {
+    for (const job of this.jobs.values()) {
+      const existing = await this.prisma.scheduledJob.findUnique({
+        where: { name: job.name },
+      });
+      if (existing?.schedule === job.schedule) {
+        continue;
+      }
+
+      const nextRunAt = nextCronRun(job.cron, now);
+      await this.prisma.scheduledJob.upsert({
+        where: { name: job.name },
+        create: { name: job.name, schedule: job.schedule, nextRunAt },
+        update: { schedule: job.schedule, nextRunAt },
+      });
+    }
+  }
+
+  /**
+   * Run every registered job that is due and not locked by another instance
+   * A call is skipped while the previous one is still running
+   * @returns The names of the jobs this instance ran
+   */
+  async runDue(now = new Date()) {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    try {
+      const due = await this.prisma.scheduledJob.findMany({
+        where: {
+          name: { in: [...this.jobs.keys()] },
+          nextRunAt: { lte: now },
+          OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        },
+        orderBy: { nextRunAt: 'asc' },
+      });
+
+      const ran: string[] = [];
+      for (const row of due) {
+        // Claim the job: if another instance got there first, nextRunAt
+        // or the lock no longer match and nothing is updated
+        const claimed = await this.prisma.scheduledJob.updateMany({
+          where: {
+            name: row.name,
+            nextRunAt: row.nextRunAt,
+            OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+          },
+          data: {
+            lockedBy: this.instanceId,
+            lockedUntil: new Date(now.getTime() + JOB_LOCK_TIMEOUT_MS),
+            lastStartedAt: now,
+          },
+        });
+        if (claimed.count === 0) continue;
+
+        await this.runJob(row.name);
+        ran.push(row.name);
+      }
+
+      return ran;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run a claimed job, record how it went and release the lock
+   * A failing job is logged and tried again at its next scheduled time
+   */
+  private async runJob(name: string) {
+    const job = this.jobs.get(name)!;
+    let lastError: string | null = null;
+
+    try {
+      await job.run();
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Job ${name} failed: ${lastError}`);
+    }
+
+    const finishedAt = new Date();
+    await this.prisma.scheduledJob.update({
+      where: { name },
+      data: {
+        nextRunAt: nextCronRun(job.cron, finishedAt),
+        lockedBy: null,
+        lockedUntil: null,
+        lastFinishedAt: finishedAt,
+        lastError,
+      },
+    });
+  }
+}
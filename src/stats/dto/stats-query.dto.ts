@@ -0,0 +1,43 @@
+import { IsISO8601, IsOptional, IsTimeZone, Matches } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/** A calendar day like 2026-10-19 - no time, no offset */
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * StatsQueryDto - Query parameters accepted by the statistics endpoints
+ *
+ * The range is made of whole calendar days in the given time zone.
+ * Without from/to it covers the last DEFAULT_STATS_DAYS days, up to today.
+ *
+ * Example:
+ *   GET /stats/overview?from=2026-10-01&to=2026-10-31&timezone=Europe/Berlin
+ */
+export class StatsQueryDto {
+  @ApiPropertyOptional({
+    description: 'The first day of the range (YYYY-MM-DD)',
+    example: '2026-10-01',
+  })
+  @Matches(DATE_ONLY, { message: 'from must be a date like 2026-10-01' })
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'The last day of the range (YYYY-MM-DD, defaults to today)',
+    example: '2026-10-31',
+  })
+  @Matches(DATE_ONLY, { message: 'to must be a date like 2026-10-31' })
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'The IANA time zone the days are counted in',
+    example: 'Europe/Berlin',
+    default: 'UTC',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone: string = 'UTC';
+}
@@ -0,0 +1,79 @@
+import {
+  addDaysToKey,
+  dateKeyIn,
+  daysBetween,
+  startOfDayIn,
+  streaks,
+} from './stats-calendar';
+
+/** Build a series from counts, starting on 2026-01-01 */
+const series = (...counts: number[]) =>
+  counts.map((count, i) => ({ date: addDaysToKey('2026-01-01', i), count }));
+
+describe('stats calendar', () => {
+  describe('dateKeyIn', () => {
+    it('should give the calendar day in the time zone', () => {
+      const instant = new Date('2026-03-02T23:30:00Z');
+      expect(dateKeyIn(instant, 'UTC')).toBe('2026-03-02');
+      expect(dateKeyIn(instant, 'Europe/Berlin')).toBe('2026-03-03');
+      expect(dateKeyIn(instant, 'America/New_York')).toBe('2026-03-02');
+    });
+  });
+
+  describe('startOfDayIn', () => {
+    it('should give local midnight as an instant', () => {
+      expect(startOfDayIn('2026-03-03', 'UTC').toISOString()).toBe(
+        '2026-03-03T00:00:00.000Z',
+      );
+      expect(startOfDayIn('2026-03-03', 'Europe/Berlin').toISOString()).toBe(
+        '2026-03-02T23:00:00.000Z',
+      );
+      expect(startOfDayIn('2026-03-03', 'Asia/Kolkata').toISOString()).toBe(
+        '2026-03-02T18:30:00.000Z',
+      );
+    });
+
+    it('should follow daylight saving time', () => {
+      // Berlin moves from UTC+1 to UTC+2 on 2026-03-29
+      expect(startOfDayIn('2026-03-29', 'Europe/Berlin').toISOString()).toBe(
+        '2026-03-28T23:00:00.000Z',
+      );
+      expect(startOfDayIn('2026-03-30', 'Europe/Berlin').toISOString()).toBe(
+        '2026-03-29T22:00:00.000Z',
+      );
+    });
+  });
+
+  describe('daysBetween', () => {
+    it('should list every day, both ends included', () => {
+      expect(daysBetween('2026-02-27', '2026-03-02')).toEqual([
+        '2026-02-27',
+        '2026-02-28',
+        '2026-03-01',
+        '2026-03-02',
+      ]);
+    });
+
+    it('should be empty when the range is reversed', () => {
+      expect(daysBetween('2026-03-02', '2026-03-01')).toEqual([]);
+    });
+  });
+
+  describe('streaks', () => {
+    it('should find the longest run and the one ending on the last day', () => {
+      expect(streaks(series(1, 2, 1, 0, 3, 1))).toEqual({
+        current: 2,
+        longest: 3,
+      });
+    });
+
+    it('should not break the current streak on an empty last day', () => {
+      expect(streaks(series(0, 1, 1, 0))).toEqual({ current: 2, longest: 2 });
+    });
+
+    it('should be zero when the streak ended before', () => {
+      expect(streaks(series(1, 0, 0))).toEqual({ current: 0, longest: 1 });
+      expect(streaks([])).toEqual({ current: 0, longest: 0 });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Calendar helpers for the statistics, in any IANA time zone
+ *
+ * Why not the helpers in common/dates.ts?
+ * - Those use the server's time zone, but "completed on Monday" depends on
+ *   where the reader is: 23:30 UTC is already Tuesday in Berlin
+ * - SQLite knows nothing about time zones, so the day boundaries are
+ *   worked out here (with Intl, which knows every zone's DST rules) and
+ *   handed to the query, which does the counting
+ *
+ * Days are passed around as YYYY-MM-DD keys, like toDateKey() returns.
+ */
+
+/** One day of a completed-per-day series */
+export interface DayCount {
+  date: string;
+  count: number;
+}
+
+/** Readers for the date and time parts of an instant in a time zone */
+function formatter(timeZone: string) {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/** The wall-clock date and time of an instant in a time zone */
+function partsIn(instant: Date, timeZone: string) {
+  const parts = formatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/** How far the time zone is ahead of UTC at an instant, in milliseconds */
+function offsetAt(instant: number, timeZone: string): number {
+  const p = partsIn(new Date(instant), timeZone);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The calendar day an instant falls on in a time zone
+ * @example dateKeyIn(new Date('2026-03-02T23:30:00Z'), 'Europe/Berlin') // '2026-03-03'
+ */
+export function dateKeyIn(instant: Date, timeZone: string): string {
+  const { year, month, day } = partsIn(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The instant a calendar day starts in a time zone
+ * @example startOfDayIn('2026-03-03', 'Europe/Berlin') // 2026-03-02T23:00:00Z
+ */
+export function startOfDayIn(dateKey: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, day);
+
+  // The offset is looked up twice: the first guess can be on the other
+  // side of a DST change (e.g. when the clocks move on that very day)
+  const guess = midnightUtc - offsetAt(midnightUtc, timeZone);
+  return new Date(midnightUtc - offsetAt(guess, timeZone));
+}
+
+/** The calendar day `days` days after a day (negative values go back) */
+export function addDaysToKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Every calendar day from `from` to `to`, both included */
+export function daysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDaysToKey(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * The streaks of a completed-per-day series: runs of days with at least
+ * one completed todo
+ *
+ * - longest: the longest run anywhere in the series
+ * - current: the run that ends on the series' last day - or on the day
+ *   before, when nothing was completed on the last day yet (it's usually
+ *   today, which isn't over)
+ *
+ * @param series - One entry per day, in order, without gaps
+ */
+export function streaks(series: DayCount[]): {
+  current: number;
+  longest: number;
+} {
+  let run = 0;
+  let longest = 0;
+  for (const { count } of series) {
+    run = count > 0 ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  const last = series.length - 1;
+  const end = last >= 0 && series[last].count === 0 ? last - 1 : last;
+  for (let i = end; i >= 0 && series[i].count > 0; i--) {
+    current++;
+  }
+
+  return { current, longest };
+}
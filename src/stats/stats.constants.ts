@@ -0,0 +1,5 @@
+/** The days a statistics report covers when no range is given (ending today) */
+export const DEFAULT_STATS_DAYS = 30;
+
+/** The longest range one statistics report may cover, in days */
+export const MAX_STATS_DAYS = 366;
@@ -0,0 +1,53 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { StatsService } from './stats.service';
+import { StatsQueryDto } from './dto/stats-query.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ApiWorkspaceHeader } from '../workspace/api-workspace-header.decorator';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+
+/**
+ * StatsController - Productivity statistics of the active workspace
+ *
+ * The statistics of one member are at GET /users/:id/stats (UserController)
+ */
+@ApiTags('stats')
+@ApiBearerAuth()
+@ApiWorkspaceHeader()
+@UseGuards(JwtAuthGuard, WorkspaceGuard)
+@Controller('stats')
+export class StatsController {
+  constructor(private readonly statsService: StatsService) {}
+
+  /**
+   * GET /stats/overview - Statistics of the whole workspace
+   *
+   * Query parameters (all optional):
+   * - from / to: The range, as calendar days (default: the last 30 days)
+   * - timezone: The IANA time zone the days are counted in (default: UTC)
+   *
+   * The response has the open and completed counts, the completion rate,
+   * the average time to complete, the streaks, a completedPerDay series
+   * for the range and byUser: how many todos each member completed in it.
+   */
+  @Get('overview')
+  @ApiOperation({ summary: 'Get the statistics of the workspace' })
+  @ApiResponse({ status: 200, description: 'The statistics of the range' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid dates or time zone, or the range is too long',
+  })
+  overview(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: StatsQueryDto,
+  ) {
+    return this.statsService.overview(scope, query);
+  }
+}
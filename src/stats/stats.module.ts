@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { StatsService } from './stats.service';
+import { StatsController } from './stats.controller';
+
+/**
+ * StatsModule - Productivity statistics
+ *
+ * Exports StatsService so UserModule can serve GET /users/:id/stats.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  controllers: [StatsController],
+  providers: [StatsService],
+  exports: [StatsService],
+})
+export class StatsModule {}
@@ -0,0 +1,236 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { StatsQueryDto } from './dto/stats-query.dto';
+import { DEFAULT_STATS_DAYS, MAX_STATS_DAYS } from './stats.constants';
+import {
+  DayCount,
+  addDaysToKey,
+  dateKeyIn,
+  daysBetween,
+  startOfDayIn,
+  streaks,
+} from './stats-calendar';
+
+/** The days a report covers, and the instants they start and end at */
+interface StatsRange {
+  from: string;
+  to: string;
+  timezone: string;
+  days: { date: string; start: Date; end: Date }[];
+}
+
+/**
+ * StatsService - Productivity statistics of a workspace or one member
+ *
+ * Every number is computed by the database: count() for the counts, and
+ * raw SQL for what Prisma can't express (averages of date differences,
+ * counts per day). Only the day boundaries (see stats-calendar.ts) and the
+ * streaks, which walk the finished per-day series, are worked out here.
+ *
+ * Whose todo is it? A todo counts for its assignee, or for the member who
+ * created it while nobody is assigned. Todos in the trash don't count.
+ */
+@Injectable()
+export class StatsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * The statistics of the whole workspace, plus how many todos each member
+   * completed in the range
+   * @param scope - The caller and the workspace
+   * @param query - The range and time zone (see StatsQueryDto)
+   * @throws BadRequestException if the range is reversed or too long
+   */
+  async overview(scope: WorkspaceScope, query: StatsQueryDto) {
+    const range = this.resolveRange(query);
+    const [stats, byUser] = await Promise.all([
+      this.compute(scope.workspaceId, range),
+      this.completedByUser(scope.workspaceId, range),
+    ]);
+
+    return { ...stats, byUser };
+  }
+
+  /**
+   * The statistics of one member's todos in the workspace
+   * @param scope - The caller and the workspace
+   * @param userId - The member (check membership before calling this)
+   * @param query - The range and time zone (see StatsQueryDto)
+   * @throws BadRequestException if the range is reversed or too long
+   */
+  async forUser(scope: WorkspaceScope, userId: number, query: StatsQueryDto) {
+    const range = this.resolveRange(query);
+    return {
+      userId,
+      ...(await this.compute(scope.workspaceId, range, userId)),
+    };
+  }
+
+  /**
+   * Compute the statistics of a workspace's todos, or of one member's
+   *
+   * - open / completed / completionRate describe the todos as they are now
+   * - completedInRange, averageHoursToComplete (from createdAt to
+   *   completedAt) and the per-day series cover the todos completed in
+   *   the range
+   */
+  private async compute(
+    workspaceId: number,
+    range: StatsRange,
+    userId?: number,
+  ) {
+    const where: Prisma.TodoWhereInput = {
+      workspaceId,
+      deletedAt: null,
+      ...(userId === undefined
+        ? {}
+        : { OR: [{ assigneeId: userId }, { assigneeId: null, userId }] }),
+    };
+    const todos = Prisma.sql`
+      t."workspaceId" = ${workspaceId}
+      AND t."deletedAt" IS NULL
+      ${userId === undefined ? Prisma.empty : Prisma.sql`AND COALESCE(t."assigneeId", t."userId") = ${userId}`}
+    `;
+    const rangeStart = range.days[0].start.toISOString();
+    const rangeEnd = range.days[range.days.length - 1].end.toISOString();
+
+    // julianday() turns both stored formats of a date (Prisma's ISO text
+    // and SQLite's CURRENT_TIMESTAMP) into a number that can be compared
+    // and subtracted
+    const [open, completed, [average], perDay] = await this.prisma.$transaction(
+      [
+        this.prisma.todo.count({ where: { ...where, completed: false } }),
+        this.prisma.todo.count({ where: { ...where, completed: true } }),
+        this.prisma.$queryRaw<
+          { completed: bigint | number; days: number | null }[]
+        >`
+        SELECT
+          COUNT(*) AS "completed",
+          AVG(julianday(t."completedAt") - julianday(t."createdAt")) AS "days"
+        FROM "Todo" t
+        WHERE ${todos}
+          AND t."completed" = 1
+          AND julianday(t."completedAt") >= julianday(${rangeStart})
+          AND julianday(t."completedAt") < julianday(${rangeEnd})
+      `,
+        // One row per day of the range: the days are a VALUES list, and the
+        // LEFT JOIN keeps the days nothing was completed on (with count 0)
+        this.prisma.$queryRaw<{ date: string; count: bigint | number }[]>`
+        WITH "days"("date", "start", "end") AS (
+          VALUES ${Prisma.join(
+            range.days.map(
+              (day) =>
+                Prisma.sql`(${day.date}, ${day.start.toISOString()}, ${day.end.toISOString()})`,
+            ),
+          )}
+        )
+        SELECT d."date" AS "date", COUNT(t."id") AS "count"
+        FROM "days" d
+        LEFT JOIN "Todo" t
+          ON ${todos}
+          AND t."completed" = 1
+          AND julianday(t."completedAt") >= julianday(d."start")
+          AND julianday(t."completedAt") < julianday(d."end")
+        GROUP BY d."date"
+        ORDER BY d."date"
+      `,
+      ],
+    );
+
+    const completedPerDay: DayCount[] = perDay.map((row) => ({
+      date: row.date,
+      count: Number(row.count),
+    }));
+
+    return {
+      from: range.from,
+      to: range.to,
+      timezone: range.timezone,
+      open,
+      completed,
+      completionRate:
+        open + completed > 0 ? round(completed / (open + completed), 4) : null,
+      completedInRange: Number(average.completed),
+      averageHoursToComplete:
+        average.days === null ? null : round(average.days * 24, 2),
+      streaks: streaks(completedPerDay),
+      completedPerDay,
+    };
+  }
+
+  /**
+   * How many todos each member completed in the range, most first
+   * Members who completed nothing aren't listed
+   */
+  private async completedByUser(workspaceId: number, range: StatsRange) {
+    const rangeStart = range.days[0].start.toISOString();
+    const rangeEnd = range.days[range.days.length - 1].end.toISOString();
+
+    const rows = await this.prisma.$queryRaw<
+      { userId: number; name: string | null; completed: bigint | number }[]
+    >`
+      SELECT
+        COALESCE(t."assigneeId", t."userId") AS "userId",
+        u."name" AS "name",
+        COUNT(*) AS "completed"
+      FROM "Todo" t
+      LEFT JOIN "User" u ON u."id" = COALESCE(t."assigneeId", t."userId")
+      WHERE t."workspaceId" = ${workspaceId}
+        AND t."deletedAt" IS NULL
+        AND t."completed" = 1
+        AND julianday(t."completedAt") >= julianday(${rangeStart})
+        AND julianday(t."completedAt") < julianday(${rangeEnd})
+        AND COALESCE(t."assigneeId", t."userId") IS NOT NULL
+      GROUP BY COALESCE(t."assigneeId", t."userId"), u."name"
+      ORDER BY "completed" DESC, "userId"
+    `;
+
+    return rows.map((row) => ({
+      userId: Number(row.userId),
+      name: row.name,
+      completed: Number(row.completed),
+    }));
+  }
+
+  /**
+   * Fill in the defaults of a query and work out where its days start and
+   * end in its time zone
+   * @throws BadRequestException if from is after to, or the range is
+   *         longer than MAX_STATS_DAYS
+   */
+  private resolveRange(query: StatsQueryDto): StatsRange {
+    const { timezone } = query;
+    const to = query.to ?? dateKeyIn(new Date(), timezone);
+    const from = query.from ?? addDaysToKey(to, 1 - DEFAULT_STATS_DAYS);
+
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+    // Date-only strings parse as UTC midnight, so this is a whole number
+    const length = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+    if (length > MAX_STATS_DAYS) {
+      throw new BadRequestException(
+        `A report may cover at most ${MAX_STATS_DAYS} days`,
+      );
+    }
+
+    return {
+      from,
+      to,
+      timezone,
+      days: daysBetween(from, to).map((date) => ({
+        date,
+        start: startOfDayIn(date, timezone),
+        end: startOfDayIn(addDaysToKey(date, 1), timezone),
+      })),
+    };
+  }
+}
+
+/** Round to a number of decimal places, e.g. round(0.66666, 2) -> 0.67 */
+function round(value: number, places: number) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
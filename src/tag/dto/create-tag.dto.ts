@@ -0,0 +1,22 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { NormalizeTagNames } from '../tag-name.transform';
+
+/**
+ * CreateTagDto - Data Transfer Object for creating a new tag
+ *
+ * The name is trimmed and lower-cased before validation, so "Work"
+ * and "work" are treated as the same tag.
+ */
+export class CreateTagDto {
+  @ApiProperty({
+    description: 'The tag name (stored in lower case)',
+    example: 'errands',
+    maxLength: 50,
+  })
+  @NormalizeTagNames()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+}
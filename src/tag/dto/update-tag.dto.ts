@@ -0,0 +1,11 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTagDto } from './create-tag.dto';
+
+/**
+ * UpdateTagDto - Data Transfer Object for renaming a tag
+ *
+ * Uses PartialType like UpdateTodoDto, so every field is optional
+ */
+export class UpdateTagDto extends PartialType(CreateTagDto, {
+  skipNullProperties: false,
+}) {}
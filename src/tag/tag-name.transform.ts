@@ -0,0 +1,37 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * Tag names are compared case-insensitively and without surrounding spaces,
+ * so " Work" and "work" are the same tag. Every tag name is normalized
+ * before it is validated or stored.
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * @NormalizeTagNames() - Normalizes a tag name or a list of tag names
+ *
+ * Accepts:
+ * - A single string: "Work" -> "work"
+ * - An array (JSON body): ["Work", " errands "] -> ["work", "errands"]
+ * - A comma-separated string (query string): "work,errands" -> ["work", "errands"]
+ *   (only when `split` is true)
+ *
+ * Values of any other type are passed through so the validators can reject them
+ */
+export function NormalizeTagNames(options: { split?: boolean } = {}) {
+  return Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return options.split
+        ? value.split(',').map(normalizeTagName).filter(Boolean)
+        : normalizeTagName(value);
+    }
+    if (Array.isArray(value)) {
+      return (value as unknown[]).map((item) =>
+        typeof item === 'string' ? normalizeTagName(item) : item,
+      );
+    }
+    return value;
+  });
+}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TagService } from './tag.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+
+/**
+ * TagController - HTTP request handler for tags
+ *
+ * Follows the same pattern as ListController. Tags can also be created
+ * on the fly by naming them in CreateTodoDto/UpdateTodoDto.
+ */
+@ApiTags('tags')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('tags')
+export class TagController {
+  constructor(private readonly tagService: TagService) {}
+
+  /**
+   * POST /tags - Create a new tag
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a new tag' })
+  @ApiResponse({ status: 201, description: 'Tag created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 409, description: 'Tag name already in use' })
+  create(@CurrentUser() user: AuthUser, @Body() createTagDto: CreateTagDto) {
+    return this.tagService.create(user.id, createTagDto);
+  }
+
+  /**
+   * GET /tags - Get all of the caller's tags with their usage counts
+   */
+  @Get()
+  @ApiOperation({ summary: "Get all of the caller's tags" })
+  @ApiResponse({ status: 200, description: "List of the caller's tags" })
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.tagService.findAll(user.id);
+  }
+
+  /**
+   * GET /tags/:id - Get a single tag by ID
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a tag by ID' })
+  @ApiParam({ name: 'id', description: 'The tag ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The tag' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  findOne(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.tagService.findOne(user.id, id);
+  }
+
+  /**
+   * PATCH /tags/:id - Rename a tag
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a tag' })
+  @ApiParam({ name: 'id', description: 'The tag ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'Tag updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({ status: 409, description: 'Tag name already in use' })
+  update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateTagDto: UpdateTagDto,
+  ) {
+    return this.tagService.update(user.id, id, updateTagDto);
+  }
+
+  /**
+   * DELETE /tags/:id - Delete a tag
+   * The tag is detached from its todos, which are kept
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a tag' })
+  @ApiParam({ name: 'id', description: 'The tag ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'Tag deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  remove(@CurrentUser() user: AuthUser, @Param('id', ParseIntPipe) id: number) {
+    return this.tagService.remove(user.id, id);
+  }
+}
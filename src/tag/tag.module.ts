@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TagService } from './tag.service';
+import { TagController } from './tag.controller';
+
+/**
+ * TagModule - Feature module for tags (labels on todos)
+ *
+ * Follows the same pattern as TodoModule.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  controllers: [TagController],
+  providers: [TagService],
+})
+export class TagModule {}
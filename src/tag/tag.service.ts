@@ -0,0 +1,98 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+
+/**
+ * TagService - Business logic layer for tags (labels)
+ *
+ * Mirrors the pattern used in ListService:
+ * - Every method takes the caller's userId and only touches their tags
+ * - Duplicate names and missing tags are left to the database: the unique
+ *   key on (userId, name) and the where clause of the write fail, and
+ *   PrismaExceptionFilter turns that into a 409 or 404
+ */
+@Injectable()
+export class TagService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a new tag owned by the caller
+   * @param userId - The authenticated user who will own the tag
+   * @param createTagDto - The data for the new tag
+   * @returns The created tag
+   * @throws Prisma P2002 (a 409) if the caller already has a tag with this name
+   */
+  async create(userId: number, createTagDto: CreateTagDto) {
+    return this.prisma.tag.create({
+      data: { ...createTagDto, userId },
+    });
+  }
+
+  /**
+   * Get all of the caller's tags
+   * @param userId - The authenticated user whose tags are returned
+   * @returns The tags A-Z, each with the number of todos using it
+   */
+  async findAll(userId: number) {
+    return this.prisma.tag.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { todos: { where: { deletedAt: null } } } },
+      },
+    });
+  }
+
+  /**
+   * Get a single tag by ID
+   * @param userId - The authenticated user who must own the tag
+   * @param id - The tag's unique identifier
+   * @returns The tag with the number of todos using it
+   * @throws NotFoundException if the tag doesn't exist or belongs to another user
+   */
+  async findOne(userId: number, id: number) {
+    const tag = await this.prisma.tag.findFirst({
+      where: { id, userId },
+      include: {
+        _count: { select: { todos: { where: { deletedAt: null } } } },
+      },
+    });
+
+    if (!tag) {
+      throw new NotFoundException(`Tag with ID ${id} not found`);
+    }
+
+    return tag;
+  }
+
+  /**
+   * Rename one of the caller's tags
+   * @param userId - The authenticated user who must own the tag
+   * @param id - The tag's unique identifier
+   * @param updateTagDto - The fields to update
+   * @returns The updated tag
+   * @throws Prisma P2025 (a 404) if the tag doesn't exist or belongs to another user
+   * @throws Prisma P2002 (a 409) if the new name is already used by another tag
+   */
+  async update(userId: number, id: number, updateTagDto: UpdateTagDto) {
+    return this.prisma.tag.update({
+      where: { id, userId },
+      data: updateTagDto,
+    });
+  }
+
+  /**
+   * Delete one of the caller's tags
+   * The tag is removed from its todos; the todos themselves are kept
+   * @param userId - The authenticated user who must own the tag
+   * @param id - The tag's unique identifier
+   * @returns The deleted tag
+   * @throws Prisma P2025 (a 404) if the tag doesn't exist or belongs to another user
+   */
+  async remove(userId: number, id: number) {
+    return this.prisma.tag.delete({
+      where: { id, userId },
+    });
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  ApiExtraModels,
+  ApiProperty,
+  PickType,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsPositive,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreateTodoDto } from './create-todo.dto';
+import { UpdateTodoDto } from './update-todo.dto';
+import { TodoQueryDto } from './todo-query.dto';
+
+/** Most operations accepted by one POST /todos/bulk request */
+export const MAX_BULK_OPERATIONS = 500;
+
+export const BULK_OPS = [
+  'create',
+  'update',
+  'delete',
+  'updateMany',
+  'deleteMany',
+] as const;
+export type BulkOp = (typeof BULK_OPS)[number];
+
+/**
+ * TodoFilterDto - The GET /todos filters, reused to pick the todos a
+ * filter-based bulk operation applies to
+ *
+ * PickType copies the chosen properties together with their validation
+ * rules, so the filters behave exactly like the query parameters.
+ */
+export class TodoFilterDto extends PickType(TodoQueryDto, [
+  'completed',
+  'priority',
+  'listId',
+  'assigneeId',
+  'tags',
+  'tagMatch',
+  'contains',
+  'createdBefore',
+  'createdAfter',
+] as const) {}
+
+/**
+ * Every operation has an "op" field that says which kind it is
+ * Operations with an unknown op end up as this class and fail @IsIn
+ */
+export class BulkOperationDto {
+  @ApiProperty({ enum: BULK_OPS })
+  @IsIn(BULK_OPS)
+  op: BulkOp;
+}
+
+/** { "op": "create", "data": { ...CreateTodoDto } } */
+export class BulkCreateOperationDto extends BulkOperationDto {
+  declare op: 'create';
+
+  @ApiProperty({ type: CreateTodoDto })
+  @ValidateNested()
+  @Type(() => CreateTodoDto)
+  @IsDefined()
+  data: CreateTodoDto;
+}
+
+/** { "op": "update", "id": 7, "data": { ...UpdateTodoDto } } */
+export class BulkUpdateOperationDto extends BulkOperationDto {
+  declare op: 'update';
+
+  @ApiProperty({ example: 7 })
+  @IsInt()
+  @IsPositive()
+  id: number;
+
+  @ApiProperty({ type: UpdateTodoDto })
+  @ValidateNested()
+  @Type(() => UpdateTodoDto)
+  @IsDefined()
+  data: UpdateTodoDto;
+}
+
+/** { "op": "delete", "id": 7 } */
+export class BulkDeleteOperationDto extends BulkOperationDto {
+  declare op: 'delete';
+
+  @ApiProperty({ example: 7 })
+  @IsInt()
+  @IsPositive()
+  id: number;
+}
+
+/** { "op": "updateMany", "filter": { "listId": 2 }, "data": { "completed": true } } */
+export class BulkUpdateManyOperationDto extends BulkOperationDto {
+  declare op: 'updateMany';
+
+  @ApiProperty({ type: TodoFilterDto })
+  @ValidateNested()
+  @Type(() => TodoFilterDto)
+  @IsDefined()
+  filter: TodoFilterDto;
+
+  @ApiProperty({ type: UpdateTodoDto })
+  @ValidateNested()
+  @Type(() => UpdateTodoDto)
+  @IsDefined()
+  data: UpdateTodoDto;
+}
+
+/** { "op": "deleteMany", "filter": { "completed": true } } */
+export class BulkDeleteManyOperationDto extends BulkOperationDto {
+  declare op: 'deleteMany';
+
+  @ApiProperty({ type: TodoFilterDto })
+  @ValidateNested()
+  @Type(() => TodoFilterDto)
+  @IsDefined()
+  filter: TodoFilterDto;
+}
+
+export type BulkOperation =
+  | BulkCreateOperationDto
+  | BulkUpdateOperationDto
+  | BulkDeleteOperationDto
+  | BulkUpdateManyOperationDto
+  | BulkDeleteManyOperationDto;
+
+/**
+ * BulkTodoDto - The body of POST /todos/bulk
+ *
+ * How does class-transformer know which class each operation is?
+ * - @Type() with a discriminator looks at the "op" property of every item
+ *   and instantiates the matching subclass (e.g. "delete" ->
+ *   BulkDeleteOperationDto), so each item is validated by its own rules
+ *
+ * Example:
+ * {
+ *   "operations": [
+ *     { "op": "create", "data": { "title": "Buy milk" } },
+ *     { "op": "update", "id": 3, "data": { "completed": true } },
+ *     { "op": "deleteMany", "filter": { "completed": true } }
+ *   ]
+ * }
+ */
+@ApiExtraModels(
+  BulkCreateOperationDto,
+  BulkUpdateOperationDto,
+  BulkDeleteOperationDto,
+  BulkUpdateManyOperationDto,
+  BulkDeleteManyOperationDto,
+)
+export class BulkTodoDto {
+  @ApiProperty({
+    description: `Up to ${MAX_BULK_OPERATIONS} operations, applied in order`,
+    type: 'array',
+    items: {
+      oneOf: [
+        { $ref: getSchemaPath(BulkCreateOperationDto) },
+        { $ref: getSchemaPath(BulkUpdateOperationDto) },
+        { $ref: getSchemaPath(BulkDeleteOperationDto) },
+        { $ref: getSchemaPath(BulkUpdateManyOperationDto) },
+        { $ref: getSchemaPath(BulkDeleteManyOperationDto) },
+      ],
+    },
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BULK_OPERATIONS)
+  @ValidateNested({ each: true })
+  @Type(() => BulkOperationDto, {
+    keepDiscriminatorProperty: true,
+    discriminator: {
+      property: 'op',
+      subTypes: [
+        { value: BulkCreateOperationDto, name: 'create' },
+        { value: BulkUpdateOperationDto, name: 'update' },
+        { value: BulkDeleteOperationDto, name: 'delete' },
+        { value: BulkUpdateManyOperationDto, name: 'updateMany' },
+        { value: BulkDeleteManyOperationDto, name: 'deleteMany' },
+      ],
+    },
+  })
+  operations: BulkOperation[];
+}
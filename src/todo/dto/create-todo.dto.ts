@@ -1,4 +1,21 @@
-import { IsString, IsNotEmpty, IsBoolean, IsOptional, IsInt, IsPositive } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsBoolean,
+  IsOptional,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsPositive,
+  MaxLength,
+  IsArray,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Priority } from '@prisma/client';
+import { NormalizeTagNames } from '../../tag/tag-name.transform';
+import { IsRecurrenceRule } from '../recurrence.validator';
+import { IsOptionalNotNull } from '../../common/is-optional-not-null.decorator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
@@ -13,9 +30,24 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
  * - @IsString() ensures the value is a string type
  * - @IsNotEmpty() ensures the string is not empty (not just "")
  * - @IsBoolean() ensures the value is true or false
- * - @IsOptional() marks the field as not required
- * - @IsInt() ensures the value is an integer
- * - @IsPositive() ensures the value is a positive number
+ * - @IsOptional() marks the field as not required - null is accepted too,
+ *   and clears the value on update
+ * - @IsOptionalNotNull() marks a field as not required, but rejects null
+ *   for the columns that can't be empty (completed, priority, tags)
+ * - @IsEnum() only accepts one of the enum's values
+ * - @IsDate() with @Type(() => Date) turns an ISO 8601 string into a Date
+ * - @IsInt() and @IsPositive() ensure IDs are positive whole numbers
+ * - @IsArray() with { each: true } validators checks every item in a list
+ * - @IsRecurrenceRule() is our own validator for RRULE strings
+ *
+ * Why is there no completedAt field?
+ * - completedAt is managed by TodoService whenever "completed" changes
+ *
+ * Why is there no userId field?
+ * - The creator of a new todo is always the authenticated caller
+ * - TodoController reads it from the access token, so clients can't
+ *   create todos on behalf of other users
+ * - Who does the work is a separate field, assigneeId
  *
  * Why use Swagger decorators?
  * - @ApiProperty() documents required fields in Swagger UI
@@ -37,14 +69,87 @@ export class CreateTodoDto {
     default: false,
   })
   @IsBoolean()
-  @IsOptional()
+  @IsOptionalNotNull()
   completed?: boolean;
 
-  @ApiProperty({
-    description: 'The ID of the user this todo belongs to',
+  @ApiPropertyOptional({
+    description: 'Longer notes about the todo',
+    example: 'Milk, eggs and bread',
+    maxLength: 2000,
+  })
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the todo is due (ISO 8601)',
+    example: '2025-01-20T17:00:00.000Z',
+    type: Date,
+  })
+  @Type(() => Date)
+  @IsDate({ message: 'dueAt must be a valid ISO 8601 date' })
+  @IsOptional()
+  dueAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'How important the todo is',
+    enum: Priority,
+    default: Priority.MEDIUM,
+  })
+  @IsEnum(Priority)
+  @IsOptionalNotNull()
+  priority?: Priority;
+
+  @ApiPropertyOptional({
+    description:
+      'Repeat the todo (RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, UNTIL, COUNT). Requires dueAt',
+    example: 'FREQ=WEEKLY;BYDAY=TU',
+  })
+  @IsRecurrenceRule()
+  @IsOptional()
+  recurrence?: string;
+
+  @ApiPropertyOptional({
+    description: 'The ID of one of your lists to put the todo in',
+    example: 1,
+  })
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  listId?: number;
+
+  @ApiPropertyOptional({
+    description: 'The ID of one of your todos to make this a subtask of',
     example: 1,
   })
   @IsInt()
   @IsPositive()
-  userId: number;
+  @IsOptional()
+  parentId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'The ID of a member of the workspace (not a viewer) who is responsible for the todo',
+    example: 2,
+  })
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  assigneeId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Tag names to put on the todo - tags that do not exist yet are created',
+    example: ['errands', 'weekend'],
+    type: [String],
+  })
+  @NormalizeTagNames()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  @IsOptionalNotNull()
+  tags?: string[];
 }
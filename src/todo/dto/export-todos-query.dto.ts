@@ -0,0 +1,32 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { TodoQueryDto } from './todo-query.dto';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * ExportTodosQueryDto - Query parameters accepted by GET /todos/export
+ *
+ * The same filters and sort as GET /todos, but without paging: an export
+ * always contains every matching todo. includeUser is left out because the
+ * owner is always the caller.
+ *
+ * Example:
+ *   GET /todos/export?format=csv&completed=false&sort=dueAt:asc
+ */
+export class ExportTodosQueryDto extends OmitType(TodoQueryDto, [
+  'limit',
+  'offset',
+  'includeUser',
+] as const) {
+  @ApiPropertyOptional({
+    description:
+      'csv (one row per todo), json (an array) or ndjson (one JSON object per line)',
+    enum: EXPORT_FORMATS,
+    default: 'json',
+  })
+  @IsIn(EXPORT_FORMATS)
+  @IsOptional()
+  format: ExportFormat = 'json';
+}
@@ -0,0 +1,34 @@
+import { IsInt, IsOptional, IsPositive } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * MoveTodoDto - Where to drop a todo in the manual order
+ *
+ * Send the neighbours the todo should end up between:
+ * - afterId: the todo that should come directly BEFORE the moved one
+ * - beforeId: the todo that should come directly AFTER the moved one
+ *
+ * Either one is enough - use only afterId to drop at the end of a list
+ * and only beforeId to drop at the top.
+ *
+ * Example: POST /todos/7/move with { "afterId": 3, "beforeId": 4 }
+ */
+export class MoveTodoDto {
+  @ApiPropertyOptional({
+    description: 'Place the todo directly after this todo',
+    example: 3,
+  })
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  afterId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Place the todo directly before this todo',
+    example: 4,
+  })
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  beforeId?: number;
+}
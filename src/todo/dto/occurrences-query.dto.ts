@@ -0,0 +1,26 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Most occurrences GET /todos/:id/occurrences lists at once */
+export const MAX_OCCURRENCES = 50;
+
+/**
+ * OccurrencesQueryDto - Query parameters for previewing a recurring series
+ *
+ * Example: GET /todos/7/occurrences?count=10
+ */
+export class OccurrencesQueryDto {
+  @ApiPropertyOptional({
+    description: 'How many occurrences to list, starting with the current one',
+    minimum: 1,
+    maximum: MAX_OCCURRENCES,
+    default: 5,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_OCCURRENCES)
+  @IsOptional()
+  count: number = 5;
+}
@@ -0,0 +1,22 @@
+import { ArrayUnique, IsArray, IsInt } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * ReorderChildrenDto - The new order of a todo's subtasks
+ *
+ * childIds must contain every subtask of the parent exactly once,
+ * listed in the order they should appear.
+ *
+ * Example: PUT /todos/1/children/order with { "childIds": [4, 2, 3] }
+ */
+export class ReorderChildrenDto {
+  @ApiProperty({
+    description: 'IDs of all subtasks, in their new order',
+    example: [4, 2, 3],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  childIds: number[];
+}
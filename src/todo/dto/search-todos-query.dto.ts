@@ -0,0 +1,31 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { TodoQueryDto } from './todo-query.dto';
+
+/**
+ * SearchTodosQueryDto - Query parameters accepted by GET /todos/search
+ *
+ * The search text plus paging and the simple GET /todos filters. There is
+ * no sort: results always come best match first.
+ *
+ * Example:
+ *   GET /todos/search?q=mil&completed=false&limit=10
+ */
+export class SearchTodosQueryDto extends PickType(TodoQueryDto, [
+  'limit',
+  'offset',
+  'completed',
+  'priority',
+  'listId',
+] as const) {
+  @ApiProperty({
+    description:
+      'The words to look for in titles and descriptions; every word must match, and matches the start of longer words too',
+    example: 'buy mil',
+    maxLength: 200,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+}
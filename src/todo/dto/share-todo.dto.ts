@@ -0,0 +1,21 @@
+import { IsEnum } from 'class-validator';
+import { IsOptionalNotNull } from '../../common/is-optional-not-null.decorator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SharePermission } from '@prisma/client';
+
+/**
+ * ShareTodoDto - Body of PUT /todos/:id/shares/:userId
+ *
+ * PUT, because sharing is idempotent: sharing a todo with the same user
+ * again just changes what they may do with it.
+ */
+export class ShareTodoDto {
+  @ApiPropertyOptional({
+    description: 'VIEW to let them read the todo, EDIT to also change it',
+    enum: SharePermission,
+    default: SharePermission.VIEW,
+  })
+  @IsEnum(SharePermission)
+  @IsOptionalNotNull()
+  permission: SharePermission = SharePermission.VIEW;
+}
@@ -0,0 +1,134 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsISO8601,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Priority } from '@prisma/client';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ToBoolean } from '../../common/transforms';
+import { NormalizeTagNames } from '../../tag/tag-name.transform';
+
+/**
+ * TodoQueryDto - Query parameters accepted by GET /todos
+ *
+ * Extends the shared PaginationQueryDto (limit/offset) with todo filters.
+ * Every field is optional; filters are combined with AND.
+ *
+ * Example:
+ *   GET /todos?completed=false&contains=milk&sort=title:asc&limit=10
+ */
+export class TodoQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Sort as field:direction. Fields: createdAt, updatedAt, title, completed, dueAt, position (manual order, ascending by default)',
+    example: 'createdAt:desc',
+    default: 'createdAt:desc',
+  })
+  @Matches(
+    /^(createdAt|updatedAt|title|completed|dueAt|position)(:(asc|desc))?$/,
+    {
+      message:
+        'sort must be one of createdAt, updatedAt, title, completed, dueAt, position, optionally followed by :asc or :desc',
+    },
+  )
+  @IsOptional()
+  sort: string = 'createdAt:desc';
+
+  @ApiPropertyOptional({
+    description: 'Only return completed (true) or open (false) todos',
+    type: Boolean,
+  })
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  completed?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only return todos with this priority',
+    enum: Priority,
+  })
+  @IsEnum(Priority)
+  @IsOptional()
+  priority?: Priority;
+
+  @ApiPropertyOptional({
+    description: 'Only return todos in this list',
+    example: 1,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  listId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only return todos assigned to this user',
+    example: 2,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  assigneeId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated tag names to filter by (see tagMatch)',
+    example: 'work,urgent',
+    type: String,
+  })
+  @NormalizeTagNames({ split: true })
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'any: todos with at least one of the tags, all: todos with every tag',
+    enum: ['any', 'all'],
+    default: 'any',
+  })
+  @IsIn(['any', 'all'])
+  @IsOptional()
+  tagMatch?: 'any' | 'all';
+
+  @ApiPropertyOptional({
+    description: 'Only return todos whose title contains this text',
+    example: 'milk',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  contains?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return todos created before this date (ISO 8601)',
+    example: '2025-12-31',
+  })
+  @IsISO8601()
+  @IsOptional()
+  createdBefore?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return todos created on or after this date (ISO 8601)',
+    example: '2025-01-01',
+  })
+  @IsISO8601()
+  @IsOptional()
+  createdAfter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include user data in response',
+    type: Boolean,
+    default: true,
+  })
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  includeUser?: boolean;
+}
@@ -0,0 +1,48 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateTodoDto } from './update-todo.dto';
+
+/** The names of the fields that failed validation, A-Z */
+const invalidFields = async (body: object) => {
+  const errors = await validate(plainToInstance(UpdateTodoDto, body));
+  return errors.map((error) => error.property).sort();
+};
+
+describe('UpdateTodoDto', () => {
+  it('should accept a body with only some of the fields', async () => {
+    expect(await invalidFields({ completed: true })).toEqual([]);
+  });
+
+  it('should reject null for the fields that cannot be empty', async () => {
+    expect(
+      await invalidFields({
+        title: null,
+        completed: null,
+        priority: null,
+        tags: null,
+        addTags: null,
+        removeTags: null,
+      }),
+    ).toEqual([
+      'addTags',
+      'completed',
+      'priority',
+      'removeTags',
+      'tags',
+      'title',
+    ]);
+  });
+
+  it('should accept null for the fields it clears', async () => {
+    expect(
+      await invalidFields({
+        description: null,
+        dueAt: null,
+        recurrence: null,
+        listId: null,
+        parentId: null,
+        assigneeId: null,
+      }),
+    ).toEqual([]);
+  });
+});
@@ -1,5 +1,14 @@
-import { PartialType } from '@nestjs/swagger';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { CreateTodoDto } from './create-todo.dto';
+import { NormalizeTagNames } from '../../tag/tag-name.transform';
+import { IsOptionalNotNull } from '../../common/is-optional-not-null.decorator';
 
 /**
  * UpdateTodoDto - Data Transfer Object for updating an existing todo
@@ -8,6 +17,9 @@ import { CreateTodoDto } from './create-todo.dto';
  * - PartialType is a utility from @nestjs/swagger
  * - It takes a class and makes ALL its properties optional
  * - This is perfect for PATCH requests where you only send fields to update
+ * - skipNullProperties: false keeps null out of the fields that can't be
+ *   empty: { "title": null } is a 400, only left-out fields are skipped
+ *   (see @IsOptionalNotNull())
  *
  * Why extend CreateTodoDto?
  * - DRY (Don't Repeat Yourself) - we reuse the validation rules
@@ -18,5 +30,41 @@ import { CreateTodoDto } from './create-todo.dto';
  * - PATCH /todos/1 with { "completed": true } - only updates completed
  * - PATCH /todos/1 with { "title": "New title" } - only updates title
  * - PATCH /todos/1 with { "title": "New", "completed": true } - updates both
+ * - PATCH /todos/1 with { "dueAt": null } - clears the due date
+ * - PATCH /todos/1 with { "listId": null } - takes the todo out of its list
+ * - PATCH /todos/1 with { "parentId": null } - turns a subtask into a top-level todo
+ * - PATCH /todos/1 with { "assigneeId": null } - unassigns the todo
+ *
+ * Changing tags:
+ * - tags (inherited): replaces ALL of the todo's tags with this list
+ * - addTags: attaches these tags, keeping the existing ones
+ * - removeTags: detaches these tags (the tags themselves are kept)
  */
-export class UpdateTodoDto extends PartialType(CreateTodoDto) {}
+export class UpdateTodoDto extends PartialType(CreateTodoDto, {
+  skipNullProperties: false,
+}) {
+  @ApiPropertyOptional({
+    description: 'Tag names to attach - missing tags are created',
+    example: ['urgent'],
+    type: [String],
+  })
+  @NormalizeTagNames()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  @IsOptionalNotNull()
+  addTags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Tag names to detach from the todo',
+    example: ['weekend'],
+    type: [String],
+  })
+  @NormalizeTagNames()
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptionalNotNull()
+  removeTags?: string[];
+}
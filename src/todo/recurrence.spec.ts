@@ -0,0 +1,95 @@
+import {
+  InvalidRecurrenceError,
+  formatRecurrence,
+  nextInSeries,
+  nextOccurrence,
+  parseRecurrence,
+  previewOccurrences,
+} from './recurrence';
+
+// Local-time dates, matching how the helpers do their calendar math
+const date = (year: number, month: number, day: number) =>
+  new Date(year, month - 1, day, 9, 0, 0);
+
+describe('parseRecurrence', () => {
+  it('should parse and normalize a rule', () => {
+    const rule = parseRecurrence('rrule:freq=weekly;byday=fr,mo,mo');
+    expect(rule).toEqual({ freq: 'WEEKLY', interval: 1, byDay: ['MO', 'FR'] });
+    expect(formatRecurrence(rule)).toBe('FREQ=WEEKLY;BYDAY=MO,FR');
+  });
+
+  it.each([
+    'INTERVAL=2',
+    'FREQ=YEARLY',
+    'FREQ=DAILY;INTERVAL=0',
+    'FREQ=WEEKLY;BYDAY=XX',
+    'FREQ=MONTHLY;BYDAY=MO',
+    'FREQ=DAILY;COUNT=3;UNTIL=20260101',
+    'FREQ=DAILY;UNTIL=20261350',
+    'FREQ=DAILY;BYMONTH=1',
+  ])('should reject %s', (value) => {
+    expect(() => parseRecurrence(value)).toThrow(InvalidRecurrenceError);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('should step daily rules by the interval', () => {
+    const rule = parseRecurrence('FREQ=DAILY;INTERVAL=3');
+    expect(nextOccurrence(rule, date(2026, 10, 30))).toEqual(date(2026, 11, 2));
+  });
+
+  it('should skip weekdays not listed in a daily BYDAY', () => {
+    const rule = parseRecurrence('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR');
+    // Friday 2026-10-23 -> Monday 2026-10-26
+    expect(nextOccurrence(rule, date(2026, 10, 23))).toEqual(
+      date(2026, 10, 26),
+    );
+  });
+
+  it('should use the next listed weekday, then jump by the interval', () => {
+    const rule = parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH');
+    // Tuesday -> Thursday of the same week
+    expect(nextOccurrence(rule, date(2026, 10, 20))).toEqual(
+      date(2026, 10, 22),
+    );
+    // Thursday -> Tuesday two weeks later
+    expect(nextOccurrence(rule, date(2026, 10, 22))).toEqual(date(2026, 11, 3));
+  });
+
+  it('should skip months without the day', () => {
+    const rule = parseRecurrence('FREQ=MONTHLY');
+    expect(nextOccurrence(rule, date(2027, 1, 31))).toEqual(date(2027, 3, 31));
+  });
+
+  it('should stop after UNTIL', () => {
+    const rule = parseRecurrence('FREQ=DAILY;UNTIL=20261020');
+    expect(nextOccurrence(rule, date(2026, 10, 19))).toEqual(
+      date(2026, 10, 20),
+    );
+    expect(nextOccurrence(rule, date(2026, 10, 20))).toBeNull();
+  });
+});
+
+describe('nextInSeries', () => {
+  it('should count down and end the series at the last occurrence', () => {
+    const first = nextInSeries(
+      parseRecurrence('FREQ=DAILY;COUNT=2'),
+      date(2026, 10, 19),
+    );
+    expect(first?.dueAt).toEqual(date(2026, 10, 20));
+    expect(first?.rule.count).toBe(1);
+
+    expect(nextInSeries(first!.rule, first!.dueAt)).toBeNull();
+  });
+});
+
+describe('previewOccurrences', () => {
+  it('should start with the current occurrence and respect COUNT', () => {
+    const rule = parseRecurrence('FREQ=WEEKLY;COUNT=3');
+    expect(previewOccurrences(rule, date(2026, 10, 19), 10)).toEqual([
+      date(2026, 10, 19),
+      date(2026, 10, 26),
+      date(2026, 11, 2),
+    ]);
+  });
+});
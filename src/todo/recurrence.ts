@@ -0,0 +1,289 @@
+import { addDays } from '../common/dates';
+
+/**
+ * Helpers for recurring todos
+ *
+ * Recurrence rules use a subset of the iCalendar RRULE format (RFC 5545):
+ * - FREQ=DAILY | WEEKLY | MONTHLY (required)
+ * - INTERVAL=n        every n days/weeks/months (default 1)
+ * - BYDAY=MO,TU,...   only on these weekdays (DAILY and WEEKLY only)
+ * - UNTIL=20251231 or UNTIL=20251231T170000Z   no occurrences after this
+ * - COUNT=n           the series has n occurrences in total
+ *
+ * Examples:
+ * - "FREQ=WEEKLY;BYDAY=TU"            every Tuesday
+ * - "FREQ=DAILY;INTERVAL=2;COUNT=10"  every other day, ten times
+ * - "FREQ=MONTHLY;UNTIL=20261231"     the same day every month until 2026 ends
+ *
+ * A recurring todo's dueAt is the current occurrence. COUNT is stored as
+ * the number of occurrences left (including the current one), so it goes
+ * down by one every time the next occurrence is created.
+ */
+
+export const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export type Frequency = (typeof FREQUENCIES)[number];
+
+/** Weekday codes in week order - RRULE weeks start on Monday */
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** A parsed recurrence rule */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];
+  until?: Date;
+  count?: number;
+}
+
+/** Thrown by parseRecurrence with a message that is safe to show to clients */
+export class InvalidRecurrenceError extends Error {}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR"
+ * An optional "RRULE:" prefix is accepted and ignored.
+ * @throws InvalidRecurrenceError if the rule is malformed or unsupported
+ */
+export function parseRecurrence(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, val] = part.split('=');
+    if (!key || !val) {
+      throw new InvalidRecurrenceError(`Malformed recurrence part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT'].includes(key)) {
+      throw new InvalidRecurrenceError(`Unsupported recurrence part ${key}`);
+    }
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new InvalidRecurrenceError(
+      `FREQ must be one of ${FREQUENCIES.join(', ')}`,
+    );
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parsePositiveInt(parts.get('INTERVAL') ?? '1', 'INTERVAL'),
+  };
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    if (freq === 'MONTHLY') {
+      throw new InvalidRecurrenceError(
+        'BYDAY is only supported with FREQ=DAILY or FREQ=WEEKLY',
+      );
+    }
+    const days = byDay.split(',');
+    for (const day of days) {
+      if (!WEEKDAYS.includes(day as Weekday)) {
+        throw new InvalidRecurrenceError(
+          `BYDAY values must be among ${WEEKDAYS.join(', ')}`,
+        );
+      }
+    }
+    // Keep them unique and in week order, which nextOccurrence relies on
+    rule.byDay = WEEKDAYS.filter((day) => days.includes(day));
+  }
+
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  if (until && count) {
+    throw new InvalidRecurrenceError('Use either UNTIL or COUNT, not both');
+  }
+  if (until) rule.until = parseUntil(until);
+  if (count) rule.count = parsePositiveInt(count, 'COUNT');
+
+  return rule;
+}
+
+/**
+ * Turn a rule back into its canonical RRULE string
+ * Rules are stored in this form, so equivalent input is always saved the same way
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(';');
+}
+
+/**
+ * The occurrence that follows `current`, at the same time of day
+ * COUNT is not looked at here - see nextInSeries and previewOccurrences.
+ * @returns The next date, or null if it would fall after UNTIL
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  current: Date,
+): Date | null {
+  const next = nextCandidate(rule, current);
+  return rule.until && next > rule.until ? null : next;
+}
+
+/**
+ * Work out the todo that continues a series once `current` is completed
+ * @returns The next due date and the rule to store on it (with COUNT
+ *          decremented), or null if the series is over
+ */
+export function nextInSeries(
+  rule: RecurrenceRule,
+  current: Date,
+): { dueAt: Date; rule: RecurrenceRule } | null {
+  if (rule.count !== undefined && rule.count <= 1) {
+    return null;
+  }
+
+  const dueAt = nextOccurrence(rule, current);
+  if (!dueAt) {
+    return null;
+  }
+
+  return {
+    dueAt,
+    rule: {
+      ...rule,
+      count: rule.count === undefined ? undefined : rule.count - 1,
+    },
+  };
+}
+
+/**
+ * List up to `limit` occurrences of a series, starting with `start` itself
+ */
+export function previewOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  limit: number,
+): Date[] {
+  const max = Math.min(limit, rule.count ?? limit);
+  const dates = max > 0 ? [start] : [];
+
+  while (dates.length < max) {
+    const next = nextOccurrence(rule, dates[dates.length - 1]);
+    if (!next) break;
+    dates.push(next);
+  }
+
+  return dates;
+}
+
+function nextCandidate(rule: RecurrenceRule, current: Date): Date {
+  const { freq, interval, byDay } = rule;
+
+  if (freq === 'MONTHLY') {
+    return addMonthsKeepingDay(current, interval);
+  }
+
+  if (freq === 'DAILY') {
+    // Step through the days and skip the ones not listed in BYDAY
+    // Seven steps always reach every weekday the interval can land on
+    let next = addDays(current, interval);
+    for (let step = 0; byDay && step < 7; step++) {
+      if (byDay.includes(weekdayOf(next))) break;
+      next = addDays(next, interval);
+    }
+    return next;
+  }
+
+  if (!byDay) {
+    return addDays(current, 7 * interval);
+  }
+
+  // WEEKLY with BYDAY: a later listed day in the same week, otherwise the
+  // first listed day of the week `interval` weeks later
+  const today = WEEKDAYS.indexOf(weekdayOf(current));
+  const laterThisWeek = byDay
+    .map((day) => WEEKDAYS.indexOf(day))
+    .find((index) => index > today);
+
+  if (laterThisWeek !== undefined) {
+    return addDays(current, laterThisWeek - today);
+  }
+  return addDays(current, 7 * interval - today + WEEKDAYS.indexOf(byDay[0]));
+}
+
+/**
+ * Move forward whole months, keeping the day of the month
+ * Months that don't have that day (e.g. the 31st) are skipped, like RRULE does
+ */
+function addMonthsKeepingDay(date: Date, months: number): Date {
+  const day = date.getDate();
+
+  // Every day of the month appears within 12 steps of any interval
+  for (let step = 1; step <= 12; step++) {
+    const next = new Date(date);
+    next.setDate(1);
+    next.setMonth(next.getMonth() + months * step);
+    if (daysInMonth(next) >= day) {
+      next.setDate(day);
+      return next;
+    }
+  }
+
+  // Not reachable for valid days, but keeps the return type honest
+  throw new InvalidRecurrenceError(`No month has a day ${day}`);
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+}
+
+function weekdayOf(date: Date): Weekday {
+  // getDay() counts from Sunday = 0
+  return WEEKDAYS[(date.getDay() + 6) % 7];
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  if (!/^\d+$/.test(value) || Number(value) < 1 || Number(value) > 1000) {
+    throw new InvalidRecurrenceError(
+      `${name} must be a whole number from 1 to 1000`,
+    );
+  }
+  return Number(value);
+}
+
+/**
+ * UNTIL is either a date (20251231, meaning the end of that local day)
+ * or a UTC date-time (20251231T170000Z)
+ */
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(
+    value,
+  );
+  if (!match) {
+    throw new InvalidRecurrenceError(
+      'UNTIL must look like 20251231 or 20251231T170000Z',
+    );
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const until =
+    match[4] === undefined
+      ? new Date(year, month - 1, day, 23, 59, 59)
+      : new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+
+  // new Date() quietly rolls 20250230 over into March, so check the parts
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23) {
+    throw new InvalidRecurrenceError('UNTIL is not a valid date');
+  }
+  return until;
+}
+
+function formatUntil(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
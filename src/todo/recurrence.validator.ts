@@ -0,0 +1,42 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+import { InvalidRecurrenceError, parseRecurrence } from './recurrence';
+
+/**
+ * @IsRecurrenceRule() - Checks that a string is a supported RRULE
+ *
+ * A custom class-validator decorator: parseRecurrence does the real work,
+ * and its error message (e.g. "FREQ must be one of ...") is reported
+ * back to the client just like the built-in validators' messages.
+ */
+export function IsRecurrenceRule(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    // The last parse error, so defaultMessage can explain what was wrong
+    let reason = 'it is not a valid recurrence rule';
+
+    registerDecorator({
+      name: 'isRecurrenceRule',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          if (typeof value !== 'string') {
+            reason = 'it must be a string';
+            return false;
+          }
+          try {
+            parseRecurrence(value);
+            return true;
+          } catch (error) {
+            if (!(error instanceof InvalidRecurrenceError)) throw error;
+            reason = error.message;
+            return false;
+          }
+        },
+        defaultMessage() {
+          return `${propertyName} is invalid: ${reason}`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,97 @@
+import { MessageEvent } from '@nestjs/common';
+import { Prisma, Todo } from '@prisma/client';
+import { firstValueFrom, take, toArray } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { TodoEventsService } from './todo-events.service';
+
+// Outside a transaction afterCommit runs the callback right away
+const prisma = {
+  afterCommit: (_db: unknown, callback: () => void) => callback(),
+} as unknown as PrismaService;
+// Todo 20 is shared with user 5
+const db = {
+  todoShare: {
+    findMany: ({ where }: { where: { todoId: { in: number[] } } }) =>
+      Promise.resolve(
+        where.todoId.in.includes(20) ? [{ todoId: 20, userId: 5 }] : [],
+      ),
+  },
+} as unknown as Prisma.TransactionClient;
+// User 1 in workspace 1
+const scope = { userId: 1, workspaceId: 1, role: 'OWNER' } as const;
+
+const todo = (id: number, workspaceId: number, title = 'Todo') =>
+  ({ id, userId: 1, workspaceId, title, completed: false }) as Todo;
+
+describe('TodoEventsService', () => {
+  let events: TodoEventsService;
+
+  beforeEach(() => {
+    events = new TodoEventsService(prisma);
+  });
+
+  it('should stream only the changes in the workspace', async () => {
+    const received = firstValueFrom(events.stream(scope).pipe(take(1)));
+
+    await events.publishAfterCommit(db, [
+      { action: 'create', before: null, after: todo(10, 2) },
+      { action: 'create', before: null, after: todo(11, 1) },
+    ]);
+
+    const message = await received;
+    expect(message.type).toBe('created');
+    expect(message.data).toMatchObject({ todo: { id: 11 } });
+  });
+
+  it('should also stream the changes to todos shared with the caller', async () => {
+    const received = firstValueFrom(
+      events.stream({ ...scope, userId: 5, workspaceId: 3 }).pipe(take(1)),
+    );
+
+    await events.publishAfterCommit(db, [
+      { action: 'create', before: null, after: todo(10, 2) },
+      { action: 'update', before: todo(20, 2), after: todo(20, 2, 'New') },
+    ]);
+
+    expect((await received).data).toMatchObject({ todo: { id: 20 } });
+  });
+
+  it('should skip updates that changed nothing', async () => {
+    const received = firstValueFrom(events.stream(scope).pipe(take(1)));
+
+    await events.publishAfterCommit(db, [
+      { action: 'update', before: todo(1, 1), after: todo(1, 1) },
+      { action: 'update', before: todo(1, 1), after: todo(1, 1, 'New') },
+    ]);
+
+    expect((await received).data).toMatchObject({ todo: { title: 'New' } });
+  });
+
+  it('should replay the events after Last-Event-ID', async () => {
+    const first = firstValueFrom(events.stream(scope).pipe(take(1)));
+    await events.publishAfterCommit(db, [
+      { action: 'create', before: null, after: todo(1, 1) },
+    ]);
+    const lastEventId = String((await first).id);
+
+    await events.publishAfterCommit(db, [
+      { action: 'create', before: null, after: todo(2, 1) },
+      { action: 'delete', before: todo(3, 1), after: todo(3, 1, 'Gone') },
+    ]);
+
+    const replayed = await firstValueFrom(
+      events.stream(scope, lastEventId).pipe(take(2), toArray()),
+    );
+    expect(replayed.map((message: MessageEvent) => message.type)).toEqual([
+      'created',
+      'deleted',
+    ]);
+  });
+
+  it('should ask for a reset when the Last-Event-ID is unknown', async () => {
+    const message = await firstValueFrom(
+      events.stream(scope, 'from-another-run-7').pipe(take(1)),
+    );
+    expect(message.type).toBe('reset');
+  });
+});
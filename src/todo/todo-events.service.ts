@@ -0,0 +1,251 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Prisma, Todo } from '@prisma/client';
+import {
+  Observable,
+  Subject,
+  concat,
+  filter,
+  from,
+  interval,
+  map,
+  merge,
+} from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditAction } from '../audit/audit.service';
+import { AuditSnapshot, diffSnapshots, toSnapshot } from '../audit/audit-diff';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+
+/** How many recent events are kept for clients that reconnect */
+export const REPLAY_BUFFER_SIZE = 1000;
+
+/** How long an event stays in the replay buffer */
+export const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+
+/** How often an idle stream sends a heartbeat */
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/** The SSE event name for each audit action */
+const ACTION_EVENT_TYPE: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored',
+};
+
+/** One change to a todo, as kept in the replay buffer */
+interface TodoEvent {
+  seq: number;
+  workspaceId: number;
+  /** The users outside the workspace the todo was shared with */
+  sharedWith: number[];
+  type: string;
+  todo: AuditSnapshot;
+  publishedAt: number;
+}
+
+/**
+ * TodoEventsService - Pushes changes to a workspace's todos to open streams
+ *
+ * What are Server-Sent Events (SSE)?
+ * - A long-lived HTTP response the server keeps writing events into
+ * - Browsers read it with `new EventSource(url)`, which also reconnects
+ *   automatically and sends the last event ID it saw (Last-Event-ID)
+ *
+ * How does an event get to the browser?
+ * 1. TodoService records a change and calls publishAfterCommit()
+ * 2. Once the transaction commits, the event is added to the replay buffer
+ *    and pushed into an RxJS Subject
+ * 3. Every open GET /todos/stream subscribes to the Subject and forwards
+ *    the events of its own workspace - so members see each other's changes
+ *    - plus those of the todos other workspaces shared with the caller,
+ *    which GET /todos/:id shows them too
+ *
+ * Resuming after a dropped connection:
+ * - Every event has an ID; a reconnecting client sends the last one it saw
+ * - If the events after it are still in the (short, in-memory) replay
+ *   buffer, they are sent first; otherwise a "reset" event tells the client
+ *   to reload its todos with GET /todos
+ * - IDs include when this process started, so IDs from before a restart
+ *   are recognised as unknown instead of being confused with new ones
+ *
+ * Note: the buffer lives in this process - with several app instances,
+ * each only sees its own changes.
+ */
+@Injectable()
+export class TodoEventsService {
+  private readonly bootId = Date.now().toString(36);
+  private seq = 0;
+  private buffer: TodoEvent[] = [];
+  private readonly events$ = new Subject<TodoEvent>();
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Publish changes to todos once the transaction they are made in commits
+   * Updates that didn't change anything are skipped
+   *
+   * Who a todo is shared with is read here, in the same transaction: a
+   * share made or removed later only affects the todo's later events.
+   *
+   * @param db - The transaction the changes are made in
+   */
+  async publishAfterCommit(
+    db: Prisma.TransactionClient,
+    changes: { action: AuditAction; before: object | null; after: Todo }[],
+  ) {
+    const events = changes
+      .map(({ action, before, after }) => ({
+        id: after.id,
+        workspaceId: after.workspaceId,
+        type: ACTION_EVENT_TYPE[action],
+        todo: toSnapshot(after),
+        changed:
+          action !== 'update' ||
+          Object.keys(
+            diffSnapshots(
+              before ? toSnapshot(before) : null,
+              toSnapshot(after),
+            ),
+          ).length > 0,
+      }))
+      .filter((event) => event.changed);
+
+    if (events.length === 0) {
+      return;
+    }
+
+    const shares = await db.todoShare.findMany({
+      where: { todoId: { in: [...new Set(events.map((event) => event.id))] } },
+      select: { todoId: true, userId: true },
+    });
+
+    this.prisma.afterCommit(db, () =>
+      events.forEach(({ id, workspaceId, type, todo }) =>
+        this.publish(
+          workspaceId,
+          shares
+            .filter((share) => share.todoId === id)
+            .map((share) => share.userId),
+          type,
+          todo,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * The event stream of one workspace: missed events first, then live
+   * ones, with a heartbeat every HEARTBEAT_INTERVAL_MS
+   * @param scope - The caller, who also gets the events of the todos shared
+   *                with them, and the workspace whose todo events are streamed
+   * @param lastEventId - The Last-Event-ID of a reconnecting client
+   */
+  stream(
+    scope: WorkspaceScope,
+    lastEventId?: string,
+  ): Observable<MessageEvent> {
+    // The ID of the newest event this client has seen - heartbeats repeat
+    // it, so they never move the client's Last-Event-ID
+    let lastId = this.formatId(this.seq);
+
+    const toMessage = (event: TodoEvent): MessageEvent => {
+      lastId = this.formatId(event.seq);
+      return { id: lastId, type: event.type, data: { todo: event.todo } };
+    };
+
+    const missed = this.replay(scope, lastEventId);
+    const live = this.events$.pipe(
+      filter((event) => this.isVisible(scope, event)),
+      map(toMessage),
+    );
+    const heartbeats = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map(
+        (): MessageEvent => ({
+          id: lastId,
+          type: 'heartbeat',
+          data: { time: new Date().toISOString() },
+        }),
+      ),
+    );
+
+    const start: MessageEvent[] =
+      missed === null
+        ? [{ id: lastId, type: 'reset', data: { reason: 'events missed' } }]
+        : missed.map(toMessage);
+
+    return merge(concat(from(start), live), heartbeats);
+  }
+
+  /** Whether the caller's stream gets an event */
+  private isVisible(scope: WorkspaceScope, event: TodoEvent) {
+    return (
+      event.workspaceId === scope.workspaceId ||
+      event.sharedWith.includes(scope.userId)
+    );
+  }
+
+  /**
+   * The buffered events the caller's stream gets after lastEventId
+   * @returns [] for a new client, null if events may have been missed
+   */
+  private replay(
+    scope: WorkspaceScope,
+    lastEventId?: string,
+  ): TodoEvent[] | null {
+    if (lastEventId === undefined) {
+      return [];
+    }
+
+    const seq = this.parseId(lastEventId);
+    const oldest = this.buffer[0]?.seq ?? this.seq + 1;
+
+    // Unknown ID, from the future, or older than the buffer reaches back
+    if (seq === null || seq > this.seq || seq < oldest - 1) {
+      return null;
+    }
+
+    return this.buffer.filter(
+      (event) => event.seq > seq && this.isVisible(scope, event),
+    );
+  }
+
+  private publish(
+    workspaceId: number,
+    sharedWith: number[],
+    type: string,
+    todo: AuditSnapshot,
+  ) {
+    const now = Date.now();
+    const event = {
+      seq: ++this.seq,
+      workspaceId,
+      sharedWith,
+      type,
+      todo,
+      publishedAt: now,
+    };
+
+    this.buffer.push(event);
+    // Keep the buffer short: a fixed number of events, and only recent ones
+    const tooOld = now - REPLAY_WINDOW_MS;
+    const start = Math.max(
+      this.buffer.length - REPLAY_BUFFER_SIZE,
+      this.buffer.findIndex((buffered) => buffered.publishedAt >= tooOld),
+    );
+    if (start > 0) {
+      this.buffer = this.buffer.slice(start);
+    }
+
+    this.events$.next(event);
+  }
+
+  /** e.g. "mgx3k2l1-42": the process start time and the sequence number */
+  private formatId(seq: number) {
+    return `${this.bootId}-${seq}`;
+  }
+
+  private parseId(id: string) {
+    const [bootId, seq] = id.split('-');
+    return bootId === this.bootId && /^\d+$/.test(seq) ? Number(seq) : null;
+  }
+}
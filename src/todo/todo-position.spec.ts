@@ -0,0 +1,27 @@
+import {
+  MIN_POSITION_GAP,
+  POSITION_GAP,
+  positionBetween,
+} from './todo-position';
+
+describe('positionBetween', () => {
+  it('should use the default gap when there are no neighbours', () => {
+    expect(positionBetween()).toBe(POSITION_GAP);
+  });
+
+  it('should go one gap past the last todo', () => {
+    expect(positionBetween(2048)).toBe(2048 + POSITION_GAP);
+  });
+
+  it('should go one gap before the first todo', () => {
+    expect(positionBetween(undefined, 1024)).toBe(1024 - POSITION_GAP);
+  });
+
+  it('should take the midpoint between two neighbours', () => {
+    expect(positionBetween(1024, 2048)).toBe(1536);
+  });
+
+  it('should ask for a rebalance when the gap is too small', () => {
+    expect(positionBetween(1, 1 + MIN_POSITION_GAP / 2)).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Helpers for the manual (drag-and-drop) order of todos
+ *
+ * Fractional ranking in a nutshell:
+ * - Todos are spaced POSITION_GAP apart: 1024, 2048, 3072, ...
+ * - Moving a todo between two neighbours gives it the midpoint of their
+ *   positions, so only the moved row is written
+ * - Each move between the same two neighbours halves the gap; when it gets
+ *   smaller than MIN_POSITION_GAP the positions are rebalanced (renumbered
+ *   with the full gap again)
+ */
+
+/** Distance between neighbouring todos after a rebalance */
+export const POSITION_GAP = 1024;
+
+/** Gaps smaller than this trigger a rebalance before moving */
+export const MIN_POSITION_GAP = 1e-6;
+
+/**
+ * Pick a position between two neighbours
+ *
+ * @param lower - Position of the todo that should come first (if any)
+ * @param upper - Position of the todo that should come after (if any)
+ * @returns The new position, or null if the gap is too small and the
+ *          positions need to be rebalanced first
+ */
+export function positionBetween(lower?: number, upper?: number): number | null {
+  if (lower === undefined) {
+    return upper === undefined ? POSITION_GAP : upper - POSITION_GAP;
+  }
+  if (upper === undefined) {
+    return lower + POSITION_GAP;
+  }
+  if (upper - lower < MIN_POSITION_GAP) {
+    return null;
+  }
+  return (lower + upper) / 2;
+}
@@ -0,0 +1,45 @@
+import {
+  MATCH_END,
+  MATCH_START,
+  toFtsQuery,
+  toHighlightHtml,
+} from './todo-search';
+
+describe('toFtsQuery', () => {
+  it('turns every word into a quoted prefix query', () => {
+    expect(toFtsQuery('buy mil')).toBe('"buy"* "mil"*');
+  });
+
+  it('drops FTS5 operators and punctuation', () => {
+    expect(toFtsQuery('milk AND (eggs" -bread)')).toBe(
+      '"milk"* "AND"* "eggs"* "bread"*',
+    );
+  });
+
+  it('keeps letters from any script', () => {
+    expect(toFtsQuery('café Straße 2026')).toBe('"café"* "Straße"* "2026"*');
+  });
+
+  it('returns null when there is nothing to search for', () => {
+    expect(toFtsQuery(' -*"() ')).toBeNull();
+  });
+});
+
+describe('toHighlightHtml', () => {
+  it('replaces the match markers with <mark> tags', () => {
+    expect(toHighlightHtml(`Buy ${MATCH_START}milk${MATCH_END}`)).toBe(
+      'Buy <mark>milk</mark>',
+    );
+  });
+
+  it('escapes HTML in the text around the matches', () => {
+    expect(
+      toHighlightHtml(`<b>${MATCH_START}milk${MATCH_END}</b> & "eggs"`),
+    ).toBe('&lt;b&gt;<mark>milk</mark>&lt;/b&gt; &amp; &quot;eggs&quot;');
+  });
+
+  it('returns null for missing or empty text', () => {
+    expect(toHighlightHtml(null)).toBeNull();
+    expect(toHighlightHtml('')).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Helpers for full-text search over todos (GET /todos/search)
+ *
+ * The search runs on SQLite's FTS5 extension: the "TodoSearch" table (see
+ * the add_todo_search migration) indexes every todo's title and
+ * description, and `MATCH` finds the rows containing the search words.
+ *
+ * Why not pass the user's text straight to MATCH?
+ * - MATCH takes a query language: AND, OR, NOT, NEAR, quotes, column
+ *   filters like "title:", parentheses...
+ * - Typing `milk (` or `-eggs` would be a syntax error (a 500), and
+ *   operators would be a surprise in a search box
+ * - So the text is split into words and each word is quoted, which turns
+ *   every character into plain text to look for
+ */
+
+/** Marks a match in highlight()/snippet() output - replaced by <mark> */
+export const MATCH_START = '\u0002';
+
+/** Marks the end of a match in highlight()/snippet() output */
+export const MATCH_END = '\u0003';
+
+/** How many words a description snippet is cut down to */
+export const SNIPPET_WORDS = 12;
+
+/** Weight of a title match compared to a description match in the ranking */
+export const TITLE_WEIGHT = 10;
+
+/**
+ * Turn what the user typed into an FTS5 query
+ *
+ * Every word becomes a quoted prefix query ("mil"* finds milk and milkshake),
+ * so results show up while the user is still typing. Words are combined with
+ * AND: a todo has to contain all of them, in any order.
+ *
+ * @param text - The raw search text, e.g. `buy mil`
+ * @returns The FTS5 query, e.g. `"buy"* "mil"*`, or null if the text has
+ *          no words to search for (only punctuation, for example)
+ */
+export function toFtsQuery(text: string): string | null {
+  // \p{L} and \p{N} are letters and digits in any script - the same
+  // characters the unicode61 tokenizer treats as parts of a word
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+
+  if (!words) {
+    return null;
+  }
+
+  return words.map((word) => `"${word}"*`).join(' ');
+}
+
+/**
+ * Turn highlight()/snippet() output into safe HTML
+ *
+ * The matched words come back wrapped in MATCH_START/MATCH_END. The text
+ * around them is the todo's own text, which could contain anything - so it
+ * is HTML-escaped first, and only then are the markers swapped for <mark>.
+ * The result can be put into a page as it is.
+ *
+ * @param text - The highlighted text from SQLite
+ * @returns e.g. "Buy <mark>milk</mark> &amp; eggs", or null for no text
+ */
+export function toHighlightHtml(text: string | null): string | null {
+  if (!text) {
+    return null;
+  }
+
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replaceAll(MATCH_START, '<mark>')
+    .replaceAll(MATCH_END, '</mark>');
+}
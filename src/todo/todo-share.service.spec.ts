@@ -0,0 +1,109 @@
+import { SharePermission, WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestTodoService,
+  createTestUser,
+} from '../../test/test-database';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { TodoService } from './todo.service';
+import { TodoShareService } from './todo-share.service';
+
+describe('TodoShareService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let todos: TodoService;
+  let shares: TodoShareService;
+  /** The owner of the todo */
+  let owner: WorkspaceScope;
+  /** A user outside the todo's workspace, in their own personal one */
+  let guest: WorkspaceScope;
+  let todoId: number;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    todos = createTestTodoService(prisma);
+    shares = new TodoShareService(prisma);
+
+    const ann = await createTestUser(prisma, 'Ann');
+    owner = {
+      userId: ann.user.id,
+      workspaceId: ann.workspaceId,
+      role: WorkspaceRole.OWNER,
+    };
+    const ben = await createTestUser(prisma, 'Ben');
+    guest = {
+      userId: ben.user.id,
+      workspaceId: ben.workspaceId,
+      role: WorkspaceRole.OWNER,
+    };
+    ({ id: todoId } = await todos.create(owner, { title: 'Plan the trip' }));
+  });
+
+  afterEach(() => db.close());
+
+  const shareWith = (scope: WorkspaceScope, permission: SharePermission) =>
+    shares.share(owner, todoId, scope.userId, { permission });
+
+  it('should list the todo in the shared todos of the user', async () => {
+    await shareWith(guest, SharePermission.VIEW);
+
+    const { data } = await shares.findShared(guest, new PaginationQueryDto());
+
+    expect(data).toEqual([
+      expect.objectContaining({
+        id: todoId,
+        permission: SharePermission.VIEW,
+      }) as unknown,
+    ]);
+  });
+
+  it('should let a VIEW share read the todo but not change it', async () => {
+    await shareWith(guest, SharePermission.VIEW);
+
+    expect(await todos.findOne(guest, todoId)).toMatchObject({
+      title: 'Plan the trip',
+    });
+    await expect(
+      todos.update(guest, todoId, { title: 'Changed' }),
+    ).rejects.toThrow(
+      `Todo with ID ${todoId} was shared with you to view only`,
+    );
+  });
+
+  it("should let an EDIT share change the todo's own fields", async () => {
+    await shareWith(guest, SharePermission.EDIT);
+
+    const todo = await todos.update(guest, todoId, { title: 'Changed' });
+
+    expect(todo).toMatchObject({ title: 'Changed' });
+  });
+
+  it("should not let an EDIT share change the workspace's links", async () => {
+    await shareWith(guest, SharePermission.EDIT);
+
+    await expect(
+      todos.update(guest, todoId, { assigneeId: guest.userId }),
+    ).rejects.toThrow(
+      "Only members of the todo's workspace can change assigneeId",
+    );
+  });
+
+  it('should hide the todo again once it is unshared', async () => {
+    await shareWith(guest, SharePermission.EDIT);
+    await shares.unshare(owner, todoId, guest.userId);
+
+    await expect(todos.findOne(guest, todoId)).rejects.toThrow(
+      `Todo with ID ${todoId} not found`,
+    );
+  });
+
+  it('should not share a todo with a member of its workspace', async () => {
+    await expect(shareWith(owner, SharePermission.VIEW)).rejects.toThrow(
+      `User with ID ${owner.userId} is a member of this workspace already`,
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { paginate } from '../common/pagination';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { ShareTodoDto } from './dto/share-todo.dto';
+
+/** The parts of a user that are shown next to a share */
+const SHARE_USER = {
+  user: { select: { id: true, name: true, email: true } },
+};
+
+/**
+ * TodoShareService - Shares single todos with users outside the workspace
+ *
+ * Sharing is managed by the members of the todo's workspace; the users a
+ * todo is shared with find it in GET /todos/shared and open it with the
+ * usual GET /todos/:id (see the access rules in TodoService).
+ */
+@Injectable()
+export class TodoShareService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get one page of the todos other workspaces shared with the caller
+   * @param scope - The caller
+   * @param query - Pagination options
+   * @returns A Paginated envelope of todos, each with the caller's permission
+   */
+  async findShared(scope: WorkspaceScope, query: PaginationQueryDto) {
+    const where = { userId: scope.userId, todo: { deletedAt: null } };
+
+    const [shares, total] = await this.prisma.$transaction([
+      this.prisma.todoShare.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { todoId: 'asc' }],
+        skip: query.offset,
+        take: query.limit,
+        include: { todo: { include: { tags: true } } },
+      }),
+      this.prisma.todoShare.count({ where }),
+    ]);
+
+    const todos = shares.map(({ todo, permission }) => ({
+      ...todo,
+      permission,
+    }));
+
+    return paginate(todos, total, query, '/todos/shared');
+  }
+
+  /**
+   * Get the users one of the workspace's todos is shared with
+   * @param scope - The caller and the workspace the todo must be in
+   * @param todoId - The todo's unique identifier
+   * @throws NotFoundException if the todo isn't one of the workspace's
+   */
+  async findAll(scope: WorkspaceScope, todoId: number) {
+    await this.assertInWorkspace(scope, todoId);
+
+    return this.prisma.todoShare.findMany({
+      where: { todoId },
+      include: SHARE_USER,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Share one of the workspace's todos with a user, or change what they
+   * may do with it if it is already shared with them
+   * @param scope - The caller and the workspace the todo must be in
+   * @param todoId - The todo's unique identifier
+   * @param userId - The user to share it with
+   * @param shareTodoDto - The permission to give them
+   * @returns The share
+   * @throws NotFoundException if the todo or the user doesn't exist
+   * @throws BadRequestException if the user already sees the todo as a
+   *         member of its workspace
+   */
+  async share(
+    scope: WorkspaceScope,
+    todoId: number,
+    userId: number,
+    shareTodoDto: ShareTodoDto,
+  ) {
+    await this.assertInWorkspace(scope, todoId);
+
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, deletedAt: null },
+      include: { memberships: { where: { workspaceId: scope.workspaceId } } },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (user.memberships.length > 0) {
+      throw new BadRequestException(
+        `User with ID ${userId} is a member of this workspace already`,
+      );
+    }
+
+    const { permission } = shareTodoDto;
+    return this.prisma.todoShare.upsert({
+      where: { todoId_userId: { todoId, userId } },
+      create: { todoId, userId, permission },
+      update: { permission },
+      include: SHARE_USER,
+    });
+  }
+
+  /**
+   * Stop sharing one of the workspace's todos with a user
+   * @param scope - The caller and the workspace the todo must be in
+   * @param todoId - The todo's unique identifier
+   * @param userId - The user to take it away from
+   * @returns The removed share
+   * @throws NotFoundException if the todo isn't one of the workspace's
+   * @throws Prisma P2025 (a 404) if it isn't shared with the user
+   */
+  async unshare(scope: WorkspaceScope, todoId: number, userId: number) {
+    await this.assertInWorkspace(scope, todoId);
+
+    return this.prisma.todoShare.delete({
+      where: { todoId_userId: { todoId, userId } },
+    });
+  }
+
+  /**
+   * Only members of the todo's workspace manage who it is shared with
+   * @throws NotFoundException if the todo isn't one of the workspace's
+   */
+  private async assertInWorkspace(scope: WorkspaceScope, todoId: number) {
+    const todo = await this.prisma.todo.findFirst({
+      where: { id: todoId, workspaceId: scope.workspaceId, deletedAt: null },
+    });
+
+    if (!todo) {
+      throw new NotFoundException(`Todo with ID ${todoId} not found`);
+    }
+  }
+}
@@ -4,13 +4,31 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   ParseIntPipe,
   Query,
   ParseBoolPipe,
+  UseGuards,
+  HttpCode,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+  Sse,
+  Headers,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Readable } from 'stream';
 import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiProduces,
+  ApiOkResponse,
   ApiTags,
   ApiOperation,
   ApiResponse,
@@ -18,8 +36,54 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { TodoService } from './todo.service';
+import { TodoEventsService } from './todo-events.service';
+import { TodoShareService } from './todo-share.service';
 import { CreateTodoDto } from './dto/create-todo.dto';
 import { UpdateTodoDto } from './dto/update-todo.dto';
+import { TodoQueryDto } from './dto/todo-query.dto';
+import { ReorderChildrenDto } from './dto/reorder-children.dto';
+import { MoveTodoDto } from './dto/move-todo.dto';
+import { OccurrencesQueryDto } from './dto/occurrences-query.dto';
+import { BulkTodoDto } from './dto/bulk-todo.dto';
+import { SearchTodosQueryDto } from './dto/search-todos-query.dto';
+import { ShareTodoDto } from './dto/share-todo.dto';
+import {
+  ExportFormat,
+  ExportTodosQueryDto,
+} from './dto/export-todos-query.dto';
+import { Paginated } from '../common/pagination';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { EtagInterceptor } from '../common/etag.interceptor';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AllowQueryToken } from '../auth/allow-query-token.decorator';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ApiWorkspaceHeader } from '../workspace/api-workspace-header.decorator';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import {
+  CsvConverters,
+  MAX_IMPORT_BYTES,
+  csvBoolean,
+  csvList,
+  csvNumber,
+  readImportFile,
+} from '../common/import';
+
+/** The Content-Type of each export format */
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/** CSV cells are text - these CreateTodoDto fields need converting first */
+const TODO_CSV_CONVERTERS: CsvConverters = {
+  completed: csvBoolean,
+  listId: csvNumber,
+  parentId: csvNumber,
+  assigneeId: csvNumber,
+  tags: csvList,
+};
 
 /**
  * TodoController - HTTP request handler for todo operations
@@ -32,13 +96,30 @@ import { UpdateTodoDto } from './dto/update-todo.dto';
  * Decorators explained:
  * - @Controller('todos') - Sets the base route to /todos
  * - @ApiTags('todos') - Groups endpoints in Swagger UI
+ * - @UseGuards(JwtAuthGuard, WorkspaceGuard) - Every route requires a valid
+ *   access token and membership of the active workspace
+ * - @ApiBearerAuth() - Shows the "Authorize" lock for these routes in Swagger UI
  * - @Get(), @Post(), etc. - Define HTTP methods for routes
+ *
+ * Workspaces:
+ * - @ActiveWorkspace() gives each handler the caller and the workspace
+ *   picked with the X-Workspace-Id header (their personal one by default)
+ * - The service only ever reads or writes that workspace's todos, plus
+ *   single todos from other workspaces that were shared with the caller
+ * - Viewers may only read: WorkspaceGuard turns away their writes
  */
 @ApiTags('todos')
+@ApiBearerAuth()
+@ApiWorkspaceHeader()
+@UseGuards(JwtAuthGuard, WorkspaceGuard)
 @Controller('todos')
 export class TodoController {
   // TodoService is injected via constructor injection
-  constructor(private readonly todoService: TodoService) {}
+  constructor(
+    private readonly todoService: TodoService,
+    private readonly todoEvents: TodoEventsService,
+    private readonly todoShares: TodoShareService,
+  ) {}
 
   /**
    * POST /todos - Create a new todo
@@ -50,56 +131,284 @@ export class TodoController {
    *
    * Required fields:
    * - title: The todo item text
-   * - userId: The ID of the user this todo belongs to
    *
    * Optional fields:
    * - completed: Whether the todo is completed (default: false)
+   * - description: Longer notes
+   * - dueAt: When the todo is due (ISO 8601)
+   * - priority: LOW, MEDIUM (default), HIGH or URGENT
+   *
+   * The new todo is created by the caller, in the active workspace
    */
   @Post()
   @ApiOperation({ summary: 'Create a new todo' })
   @ApiResponse({ status: 201, description: 'Todo created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid token' })
+  create(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Body() createTodoDto: CreateTodoDto,
+  ) {
+    return this.todoService.create(scope, createTodoDto);
+  }
+
+  /**
+   * POST /todos/bulk - Apply many operations in one all-or-nothing request
+   *
+   * Each operation is validated on its own (errors name the item, e.g.
+   * "operations.2.data.title should not be empty"). If any operation fails
+   * while running, nothing is saved and failedIndex points at it.
+   */
+  @Post('bulk')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Create, update and delete many todos at once' })
+  @ApiResponse({
+    status: 200,
+    description: 'All operations applied; one result per operation',
+  })
   @ApiResponse({
     status: 400,
-    description: 'Invalid input data or user not found',
+    description: 'Invalid operation - nothing was saved (see failedIndex)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'A todo was not found - nothing was saved (see failedIndex)',
   })
-  create(@Body() createTodoDto: CreateTodoDto) {
-    return this.todoService.create(createTodoDto);
+  bulk(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Body() bulkTodoDto: BulkTodoDto,
+  ) {
+    return this.todoService.bulk(scope, bulkTodoDto);
   }
 
   /**
-   * GET /todos - Get all todos
+   * POST /todos/import - Create todos from an uploaded CSV, JSON or NDJSON file
    *
-   * Query parameters:
-   * - userId: Filter todos by user ID (optional)
-   * - includeUser: Include user data in response (optional, default: true)
+   * How do file uploads work?
+   * - The client sends a multipart/form-data request with a "file" field
+   * - FileInterceptor (multer) reads the file into memory; files over
+   *   MAX_IMPORT_BYTES are rejected with 413 Payload Too Large
+   * - @UploadedFile() hands the file to the handler
+   *
+   * Every row is checked like a POST /todos body. Valid rows are created in
+   * one transaction; invalid rows are listed in the report by row number.
+   * With ?dryRun=true nothing is saved - use it to preview the report.
+   *
+   * Example: curl -F file=@todos.csv "localhost:3000/todos/import?dryRun=true"
+   */
+  @Post('import')
+  @HttpCode(200)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }),
+  )
+  @ApiOperation({ summary: 'Import todos from a CSV, JSON or NDJSON file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Validate every row, but save nothing',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'How many rows were imported, and the errors of the others',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, or the file could not be parsed',
+  })
+  @ApiResponse({ status: 413, description: 'The file is too large' })
+  import(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query('dryRun', new ParseBoolPipe({ optional: true })) dryRun?: boolean,
+  ) {
+    const rows = readImportFile(file, TODO_CSV_CONVERTERS);
+    return this.todoService.import(scope, rows, dryRun);
+  }
+
+  /**
+   * GET /todos - Get one page of the workspace's todos
+   *
+   * @Query() with a DTO class:
+   * - All query parameters are validated against TodoQueryDto
+   * - Unknown parameters are rejected (forbidNonWhitelisted)
+   *
+   * Query parameters (all optional):
+   * - limit / offset: Page size (1-100, default 20) and items to skip
+   * - sort: field:direction, e.g. dueAt:asc (default: createdAt:desc)
+   * - completed: true or false
+   * - priority: LOW, MEDIUM, HIGH or URGENT
+   * - contains: Text the title must contain
+   * - createdBefore / createdAfter: ISO 8601 dates
+   * - includeUser: Include user data in response (default: true)
    *
    * Examples:
-   * - GET /todos - All todos with user data
-   * - GET /todos?userId=1 - Todos for user 1 with user data
-   * - GET /todos?includeUser=false - All todos without user data
+   * - GET /todos - First 20 todos, newest first
+   * - GET /todos?completed=false&sort=title:asc - Open todos A-Z
+   * - GET /todos?limit=10&offset=10 - The second page of 10
    */
   @Get()
-  @ApiOperation({ summary: 'Get all todos' })
+  @ApiOperation({ summary: "Get a page of the workspace's todos" })
+  @ApiOkResponse({
+    description: "A page of the workspace's todos",
+    type: Paginated,
+  })
+  findAll(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: TodoQueryDto,
+  ) {
+    return this.todoService.findAll(scope, query);
+  }
+
+  /**
+   * GET /todos/overdue - The caller's open todos whose due date has passed
+   *
+   * Why is this declared before GET /todos/:id?
+   * - NestJS matches routes in the order they are declared
+   * - If :id came first, "overdue" would be treated as an ID
+   *   and rejected by ParseIntPipe
+   */
+  @Get('overdue')
+  @ApiOperation({ summary: 'Get your open todos that are past their due date' })
+  @ApiResponse({ status: 200, description: 'Overdue todos, oldest first' })
+  findOverdue(@ActiveWorkspace() scope: WorkspaceScope) {
+    return this.todoService.findOverdue(scope);
+  }
+
+  /**
+   * GET /todos/due-today - The caller's open todos due between midnight
+   * and midnight
+   */
+  @Get('due-today')
+  @ApiOperation({ summary: 'Get your open todos that are due today' })
+  @ApiResponse({ status: 200, description: 'Todos due today, earliest first' })
+  findDueToday(@ActiveWorkspace() scope: WorkspaceScope) {
+    return this.todoService.findDueToday(scope);
+  }
+
+  /**
+   * GET /todos/shared - Todos from other workspaces shared with the caller
+   * Each todo has a permission field: VIEW or EDIT
+   */
+  @Get('shared')
+  @ApiOperation({ summary: 'Get a page of the todos shared with the caller' })
+  @ApiOkResponse({ description: 'A page of shared todos', type: Paginated })
+  findShared(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.todoShares.findShared(scope, query);
+  }
+
+  /**
+   * GET /todos/search - Full-text search over titles and descriptions
+   *
+   * Every word must appear in the todo, and matches the start of longer
+   * words too, so "buy mil" finds "Buy milk". Results come best match
+   * first, each with a "match" object:
+   * - score: how well it matches (higher is better)
+   * - title / description: HTML with the matched words in <mark> tags
+   *   (the description is shortened to the part around the match)
+   *
+   * Examples:
+   * - GET /todos/search?q=milk
+   * - GET /todos/search?q=report&completed=false&priority=HIGH
+   */
+  @Get('search')
+  @ApiOperation({ summary: "Search the workspace's todos by text" })
+  @ApiOkResponse({
+    description: 'A page of matching todos, best match first',
+    type: Paginated,
+  })
+  @ApiResponse({ status: 400, description: 'No words to search for' })
+  search(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: SearchTodosQueryDto,
+  ) {
+    return this.todoService.search(scope, query);
+  }
+
+  /**
+   * GET /todos/export - Download every matching todo as CSV, JSON or NDJSON
+   *
+   * Takes the same filters and sort as GET /todos, but no limit/offset.
+   *
+   * What is StreamableFile?
+   * - It pipes a stream to the response instead of serializing one big
+   *   object, so large exports are sent while they are still being read
+   * - Content-Disposition: attachment makes browsers save it as a file
+   */
+  @Get('export')
+  @ApiOperation({ summary: "Export the workspace's todos as a file" })
+  @ApiResponse({
+    status: 200,
+    description: 'The matching todos in the requested format',
+  })
+  export(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: ExportTodosQueryDto,
+  ) {
+    return new StreamableFile(
+      Readable.from(this.todoService.export(scope, query)),
+      {
+        type: EXPORT_CONTENT_TYPES[query.format],
+        disposition: `attachment; filename="todos.${query.format}"`,
+      },
+    );
+  }
+
+  /**
+   * GET /todos/stream - Live updates of the workspace's todos (Server-Sent Events)
+   *
+   * @Sse() keeps the response open and writes every value of the returned
+   * Observable to it as an event:
+   * - created, updated, deleted, restored: data is { todo }
+   * - heartbeat: every 15 seconds, so proxies don't close an idle stream
+   * - reset: events were missed while disconnected - reload with GET /todos
+   *
+   * The changes to todos other workspaces shared with the caller come
+   * through too, whichever workspace is streamed (sharing and unsharing
+   * themselves aren't events)
+   *
+   * EventSource can't send an Authorization header, so this route also
+   * accepts the access token as ?access_token=... (and the workspace as
+   * ?workspaceId=... instead of the X-Workspace-Id header)
+   *
+   * Example (browser):
+   *   const source = new EventSource(`/todos/stream?access_token=${token}`);
+   *   source.addEventListener('updated', (e) => console.log(JSON.parse(e.data)));
+   */
+  @Sse('stream')
+  @AllowQueryToken()
+  @ApiOperation({
+    summary:
+      "Stream changes to the workspace's todos and those shared with you (SSE)",
+  })
+  @ApiProduces('text/event-stream')
   @ApiQuery({
-    name: 'userId',
+    name: 'access_token',
     required: false,
-    type: Number,
-    description: 'Filter todos by user ID',
+    description: 'The access token, for clients that cannot send headers',
   })
   @ApiQuery({
-    name: 'includeUser',
+    name: 'workspaceId',
     required: false,
-    type: Boolean,
-    description: 'Include user data in response',
-    default: true,
+    description: 'The workspace, for clients that cannot send headers',
   })
-  @ApiResponse({ status: 200, description: 'List of all todos' })
-  findAll(
-    @Query('userId', new ParseIntPipe({ optional: true })) userId?: number,
-    @Query('includeUser', new ParseBoolPipe({ optional: true }))
-    includeUser?: boolean,
-  ) {
-    return this.todoService.findAll(userId, includeUser !== false);
+  @ApiResponse({ status: 200, description: 'An endless text/event-stream' })
+  stream(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    return this.todoEvents.stream(scope, lastEventId);
   }
 
   /**
@@ -115,8 +424,11 @@ export class TodoController {
    *
    * Query parameters:
    * - includeUser: Include user data in response (optional, default: true)
+   *
+   * The response includes progress: { done, total } for the todo's subtasks
    */
   @Get(':id')
+  @UseInterceptors(EtagInterceptor)
   @ApiOperation({ summary: 'Get a todo by ID' })
   @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
   @ApiQuery({
@@ -126,14 +438,224 @@ export class TodoController {
     description: 'Include user data in response',
     default: true,
   })
-  @ApiResponse({ status: 200, description: 'The todo item' })
+  @ApiHeader({
+    name: 'If-None-Match',
+    required: false,
+    description: 'The ETag of your copy - 304 if the todo is unchanged',
+  })
+  @ApiResponse({ status: 200, description: 'The todo item, with its ETag' })
+  @ApiResponse({ status: 304, description: 'The todo is unchanged' })
   @ApiResponse({ status: 404, description: 'Todo not found' })
   findOne(
+    @ActiveWorkspace() scope: WorkspaceScope,
     @Param('id', ParseIntPipe) id: number,
     @Query('includeUser', new ParseBoolPipe({ optional: true }))
     includeUser?: boolean,
   ) {
-    return this.todoService.findOne(id, includeUser !== false);
+    return this.todoService.findOne(scope, id, includeUser !== false);
+  }
+
+  /**
+   * GET /todos/:id/history - The todo's change history, newest first
+   * Works for todos in the trash too
+   */
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get a page of the changes made to a todo' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiOkResponse({ description: 'A page of audit events', type: Paginated })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  history(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.todoService.history(scope, id, query);
+  }
+
+  /**
+   * GET /todos/:id/children - Get the subtasks of a todo in checklist order
+   */
+  @Get(':id/children')
+  @ApiOperation({ summary: 'Get the subtasks of a todo' })
+  @ApiParam({ name: 'id', description: 'The parent todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The subtasks, in order' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  findChildren(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.todoService.findChildren(scope, id);
+  }
+
+  /**
+   * PUT /todos/:id/children/order - Reorder the subtasks of a todo
+   *
+   * PUT (not PATCH) because the body replaces the whole order at once
+   */
+  @Put(':id/children/order')
+  @ApiOperation({ summary: 'Reorder the subtasks of a todo' })
+  @ApiParam({ name: 'id', description: 'The parent todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The subtasks, in their new order' })
+  @ApiResponse({
+    status: 400,
+    description: 'childIds is not exactly the set of subtasks',
+  })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  reorderChildren(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() reorderChildrenDto: ReorderChildrenDto,
+  ) {
+    return this.todoService.reorderChildren(
+      scope,
+      id,
+      reorderChildrenDto.childIds,
+    );
+  }
+
+  /**
+   * POST /todos/:id/restore - Bring a todo back from the trash
+   */
+  @Post(':id/restore')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Restore a todo (and its subtasks) from the trash' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The restored todo' })
+  @ApiResponse({
+    status: 400,
+    description: 'The parent todo is still in the trash',
+  })
+  @ApiResponse({ status: 404, description: 'Todo not in the trash' })
+  restore(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.todoService.restore(scope, id);
+  }
+
+  /**
+   * GET /todos/:id/occurrences - Preview the next occurrences of a recurring todo
+   */
+  @Get(':id/occurrences')
+  @ApiOperation({
+    summary: 'Preview the upcoming occurrences of a recurring todo',
+  })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'The recurrence rule and the upcoming due dates',
+  })
+  @ApiResponse({ status: 400, description: 'The todo does not repeat' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  previewOccurrences(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: OccurrencesQueryDto,
+  ) {
+    return this.todoService.previewOccurrences(scope, id, query.count);
+  }
+
+  /**
+   * DELETE /todos/:id/recurrence - Stop a recurring series
+   *
+   * The todo is kept; completing it no longer creates a next occurrence
+   */
+  @Delete(':id/recurrence')
+  @ApiOperation({ summary: 'Stop a recurring todo from repeating' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The todo without its recurrence' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  stopRecurrence(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.todoService.stopRecurrence(scope, id);
+  }
+
+  /**
+   * POST /todos/:id/move - Move a todo within the workspace's manual order
+   *
+   * The body names the todo to drop it after, before, or between.
+   * Read the resulting order back with GET /todos?sort=position
+   */
+  @Post(':id/move')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Move a todo between two neighbours' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The todo with its new position' })
+  @ApiResponse({
+    status: 400,
+    description: 'No neighbour given, or the neighbours are out of order',
+  })
+  @ApiResponse({ status: 404, description: 'Todo or neighbour not found' })
+  move(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() moveTodoDto: MoveTodoDto,
+  ) {
+    return this.todoService.move(scope, id, moveTodoDto);
+  }
+
+  /**
+   * GET /todos/:id/shares - Who the todo is shared with
+   */
+  @Get(':id/shares')
+  @ApiOperation({ summary: 'Get the users a todo is shared with' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The shares, oldest first' })
+  @ApiResponse({ status: 404, description: 'Todo not found' })
+  findShares(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.todoShares.findAll(scope, id);
+  }
+
+  /**
+   * PUT /todos/:id/shares/:userId - Share a todo with a user
+   *
+   * The user doesn't have to be in the workspace: they see just this todo
+   * (GET /todos/shared), and with the EDIT permission may change it too
+   * Sharing again with another permission replaces the old one
+   */
+  @Put(':id/shares/:userId')
+  @ApiOperation({ summary: 'Share a todo with a user' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiParam({
+    name: 'userId',
+    description: 'The user to share with',
+    example: 2,
+  })
+  @ApiResponse({ status: 200, description: 'The share' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input, or the user is a member already',
+  })
+  @ApiResponse({ status: 404, description: 'Todo or user not found' })
+  share(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() shareTodoDto: ShareTodoDto,
+  ) {
+    return this.todoShares.share(scope, id, userId, shareTodoDto);
+  }
+
+  /**
+   * DELETE /todos/:id/shares/:userId - Stop sharing a todo with a user
+   */
+  @Delete(':id/shares/:userId')
+  @ApiOperation({ summary: 'Stop sharing a todo with a user' })
+  @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiParam({ name: 'userId', description: 'The user', example: 2 })
+  @ApiResponse({ status: 200, description: 'The removed share' })
+  @ApiResponse({ status: 404, description: 'Todo or share not found' })
+  unshare(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+  ) {
+    return this.todoShares.unshare(scope, id, userId);
   }
 
   /**
@@ -146,37 +668,68 @@ export class TodoController {
    *
    * You can update any combination of fields:
    * - title: Change the todo text
-   * - completed: Mark as completed or incomplete
-   * - userId: Reassign the todo to a different user
+   * - completed: Mark as completed or incomplete (also sets/clears completedAt)
+   * - description, dueAt, priority: Planning details (send null to clear)
+   * - parentId: Make the todo a subtask of another todo (null to detach)
+   * - assigneeId: Hand the todo to a member of the workspace, who gets a
+   *   notification (null to unassign)
+   *
+   * Completing a todo also completes all of its subtasks
+   *
+   * Todos shared with the caller to EDIT can be updated too, except for
+   * the fields that point into their workspace (list, parent, assignee, tags)
    */
   @Patch(':id')
+  @UseInterceptors(EtagInterceptor)
   @ApiOperation({ summary: 'Update a todo' })
   @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'Only update if the todo still has this ETag',
+  })
   @ApiResponse({ status: 200, description: 'Todo updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({
-    status: 400,
-    description: 'Invalid input data or user not found',
+    status: 403,
+    description: 'Shared to view only, or a field only members may change',
   })
   @ApiResponse({ status: 404, description: 'Todo not found' })
+  @ApiResponse({ status: 412, description: 'The todo has changed' })
   update(
+    @ActiveWorkspace() scope: WorkspaceScope,
     @Param('id', ParseIntPipe) id: number,
     @Body() updateTodoDto: UpdateTodoDto,
+    @Headers('if-match') ifMatch?: string,
   ) {
-    return this.todoService.update(id, updateTodoDto);
+    return this.todoService.update(scope, id, updateTodoDto, ifMatch);
   }
 
   /**
-   * DELETE /todos/:id - Delete a todo
+   * DELETE /todos/:id - Move a todo to the trash
    *
-   * Returns the deleted todo as confirmation
+   * Returns the trashed todo as confirmation
+   * Its subtasks go to the trash along with it
+   * Undo with POST /todos/:id/restore
    * Throws 404 if the todo doesn't exist
    */
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a todo' })
+  @UseInterceptors(EtagInterceptor)
+  @ApiOperation({ summary: 'Move a todo to the trash' })
   @ApiParam({ name: 'id', description: 'The todo ID', example: 1 })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'Only delete if the todo still has this ETag',
+  })
   @ApiResponse({ status: 200, description: 'Todo deleted successfully' })
   @ApiResponse({ status: 404, description: 'Todo not found' })
-  remove(@Param('id', ParseIntPipe) id: number) {
-    return this.todoService.remove(id);
+  @ApiResponse({ status: 412, description: 'The todo has changed' })
+  remove(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    return this.todoService.remove(scope, id, ifMatch);
   }
 }
@@ -1,6 +1,11 @@
 import { Module } from '@nestjs/common';
 import { TodoService } from './todo.service';
+import { TodoEventsService } from './todo-events.service';
+import { TodoShareService } from './todo-share.service';
 import { TodoController } from './todo.controller';
+import { AuditModule } from '../audit/audit.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { NotificationModule } from '../notification/notification.module';
 
 /**
  * TodoModule - Feature module for todo-related functionality
@@ -20,12 +25,22 @@ import { TodoController } from './todo.controller';
  * The PrismaService is automatically available for injection
  */
 @Module({
+  // AuditService records every change to a todo, WebhookService
+  // queues the webhook deliveries it triggers and NotificationService
+  // tells new assignees about their todos
+  imports: [AuditModule, WebhookModule, NotificationModule],
+
   // Controllers that belong to this module
   // NestJS will register these routes with the application
   controllers: [TodoController],
 
   // Providers (services) that belong to this module
   // These can be injected into controllers and other services
-  providers: [TodoService],
+  // TodoEventsService feeds GET /todos/stream, TodoShareService manages
+  // who a todo is shared with
+  providers: [TodoService, TodoEventsService, TodoShareService],
+
+  // Exported so UserModule can build a user's agenda from their todos
+  exports: [TodoService],
 })
 export class TodoModule {}
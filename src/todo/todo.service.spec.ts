@@ -0,0 +1,269 @@
+import { HttpException, PreconditionFailedException } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestTodoService,
+  createTestUser,
+} from '../../test/test-database';
+import { AuditService } from '../audit/audit.service';
+import { formatEtag } from '../common/etag';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { TodoQueryDto } from './dto/todo-query.dto';
+import { TodoService } from './todo.service';
+
+describe('TodoService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let todos: TodoService;
+  /** The owner of a personal workspace */
+  let owner: WorkspaceScope;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    todos = createTestTodoService(prisma);
+
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    owner = { userId: user.id, workspaceId, role: WorkspaceRole.OWNER };
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  describe('workspace scoping', () => {
+    it("should not find another workspace's todos", async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Ben');
+      const other = { userId: user.id, workspaceId, role: WorkspaceRole.OWNER };
+      const todo = await todos.create(other, { title: "Ben's plan" });
+      const notFound = `Todo with ID ${todo.id} not found`;
+
+      await expect(todos.findOne(owner, todo.id)).rejects.toThrow(notFound);
+      await expect(
+        todos.update(owner, todo.id, { title: 'Mine now' }),
+      ).rejects.toThrow(notFound);
+      await expect(todos.remove(owner, todo.id)).rejects.toThrow(notFound);
+      expect((await todos.findAll(owner, new TodoQueryDto())).data).toEqual([]);
+    });
+  });
+
+  describe('findOverdue', () => {
+    it("should return only the caller's todos", async () => {
+      const { user: member } = await createTestUser(prisma, 'Ben');
+      await prisma.workspaceMember.create({
+        data: {
+          workspaceId: owner.workspaceId,
+          userId: member.id,
+          role: WorkspaceRole.MEMBER,
+        },
+      });
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const overdue = (title: string, assigneeId?: number) =>
+        todos.create(owner, { title, dueAt: yesterday, assigneeId });
+      await overdue('Mine');
+      await overdue('Assigned to me', owner.userId);
+      await overdue("Ben's", member.id);
+
+      const found = await todos.findOverdue(owner);
+
+      expect(found.map((todo) => todo.title).sort()).toEqual([
+        'Assigned to me',
+        'Mine',
+      ]);
+    });
+  });
+
+  describe('create', () => {
+    it('should not assign a todo to a viewer', async () => {
+      const { user: viewer } = await createTestUser(prisma, 'Ben');
+      await prisma.workspaceMember.create({
+        data: {
+          workspaceId: owner.workspaceId,
+          userId: viewer.id,
+          role: WorkspaceRole.VIEWER,
+        },
+      });
+
+      await expect(
+        todos.create(owner, { title: 'Plan', assigneeId: viewer.id }),
+      ).rejects.toThrow(
+        `User with ID ${viewer.id} is a viewer and can't be assigned todos`,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should record the todo as it was before the delete', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+      const record = jest.spyOn(AuditService.prototype, 'record');
+
+      await todos.remove(owner, todo.id);
+
+      expect(record).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'delete',
+          before: expect.objectContaining({
+            version: todo.version,
+            deletedAt: null,
+          }) as unknown,
+          after: expect.objectContaining({
+            version: todo.version + 1,
+          }) as unknown,
+        }),
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('should bring back the subtasks trashed with the todo', async () => {
+      const parent = await todos.create(owner, { title: 'Move' });
+      const child = await todos.create(owner, {
+        title: 'Pack',
+        parentId: parent.id,
+      });
+      await todos.remove(owner, parent.id);
+
+      await todos.restore(owner, parent.id);
+
+      expect(
+        await prisma.todo.findMany({
+          where: { id: { in: [parent.id, child.id] } },
+          select: { deletedAt: true },
+        }),
+      ).toEqual([{ deletedAt: null }, { deletedAt: null }]);
+    });
+
+    it('should leave subtasks that were trashed on their own', async () => {
+      const parent = await todos.create(owner, { title: 'Move' });
+      const child = await todos.create(owner, {
+        title: 'Pack',
+        parentId: parent.id,
+      });
+      await todos.remove(owner, child.id);
+      await todos.remove(owner, parent.id);
+
+      await todos.restore(owner, parent.id);
+
+      expect(
+        await prisma.todo.findUniqueOrThrow({ where: { id: child.id } }),
+      ).toMatchObject({ deletedAt: expect.any(Date) as unknown });
+    });
+
+    it('should not restore a subtask before its parent', async () => {
+      const parent = await todos.create(owner, { title: 'Move' });
+      const child = await todos.create(owner, {
+        title: 'Pack',
+        parentId: parent.id,
+      });
+      await todos.remove(owner, parent.id);
+
+      await expect(todos.restore(owner, child.id)).rejects.toThrow(
+        `Restore the parent todo ${parent.id} first`,
+      );
+    });
+
+    it('should only restore todos that are in the trash', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+
+      await expect(todos.restore(owner, todo.id)).rejects.toThrow(
+        `Todo with ID ${todo.id} is not in the trash`,
+      );
+    });
+  });
+
+  describe('bulk', () => {
+    it('should return the todos each operation touched', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+
+      const { results } = await todos.bulk(owner, {
+        operations: [
+          { op: 'create', data: { title: 'Pack' } },
+          { op: 'update', id: todo.id, data: { completed: true } },
+        ],
+      });
+
+      expect(results).toEqual([
+        { index: 0, op: 'create', ids: [expect.any(Number)] },
+        { index: 1, op: 'update', ids: [todo.id] },
+      ]);
+    });
+
+    it('should roll everything back and name the failed operation', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+
+      const error = await todos
+        .bulk(owner, {
+          operations: [
+            { op: 'create', data: { title: 'Pack' } },
+            { op: 'update', id: todo.id, data: { title: 'New plan' } },
+            { op: 'delete', id: 999 },
+            { op: 'create', data: { title: 'Never' } },
+          ],
+        })
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(404);
+      expect((error as HttpException).getResponse()).toMatchObject({
+        failedIndex: 2,
+        message: 'Operation 2 failed: Todo with ID 999 not found',
+        results: [
+          { index: 0, op: 'create', status: 'rolledBack' },
+          { index: 1, op: 'update', status: 'rolledBack' },
+          { index: 2, op: 'delete', status: 'failed' },
+          { index: 3, op: 'create', status: 'skipped' },
+        ],
+      });
+      const left = await prisma.todo.findMany();
+      expect(left.map((todo) => todo.title)).toEqual(['Plan']);
+    });
+  });
+
+  describe('If-Match', () => {
+    it('should update when the ETag is current', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+
+      const updated = await todos.update(
+        owner,
+        todo.id,
+        { title: 'New plan' },
+        formatEtag(todo.version, todo),
+      );
+
+      expect(updated).toMatchObject({
+        title: 'New plan',
+        version: todo.version + 1,
+      });
+    });
+
+    it('should refuse to update a todo that changed since it was read', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+      const etag = formatEtag(todo.version);
+      await todos.update(owner, todo.id, { title: 'Their plan' });
+
+      await expect(
+        todos.update(owner, todo.id, { title: 'My plan' }, etag),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(
+        await prisma.todo.findUniqueOrThrow({ where: { id: todo.id } }),
+      ).toMatchObject({ title: 'Their plan' });
+    });
+
+    it('should refuse to delete a todo that changed since it was read', async () => {
+      const todo = await todos.create(owner, { title: 'Plan' });
+      const etag = formatEtag(todo.version);
+      await todos.update(owner, todo.id, { completed: true });
+
+      await expect(todos.remove(owner, todo.id, etag)).rejects.toThrow(
+        PreconditionFailedException,
+      );
+      expect(
+        await prisma.todo.findUniqueOrThrow({ where: { id: todo.id } }),
+      ).toMatchObject({ deletedAt: null });
+    });
+  });
+});
@@ -1,7 +1,97 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  NotificationType,
+  Prisma,
+  SharePermission,
+  Todo,
+  WorkspaceRole,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { paginate, parseSort } from '../common/pagination';
+import { addDays, startOfDay, toDateKey } from '../common/dates';
 import { CreateTodoDto } from './dto/create-todo.dto';
 import { UpdateTodoDto } from './dto/update-todo.dto';
+import { TodoQueryDto } from './dto/todo-query.dto';
+import { MoveTodoDto } from './dto/move-todo.dto';
+import {
+  BulkOp,
+  BulkOperation,
+  BulkTodoDto,
+  TodoFilterDto,
+} from './dto/bulk-todo.dto';
+import { ExportTodosQueryDto } from './dto/export-todos-query.dto';
+import { SearchTodosQueryDto } from './dto/search-todos-query.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { toCsvLine } from '../common/csv';
+import { runImport } from '../common/import';
+import { toProblemDetails } from '../common/prisma-errors';
+import { assertIfMatch } from '../common/etag';
+import { AuditAction, AuditService } from '../audit/audit.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { TodoEventsService } from './todo-events.service';
+import { NotificationService } from '../notification/notification.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { hasRole } from '../workspace/workspace-roles';
+import { POSITION_GAP, positionBetween } from './todo-position';
+import {
+  MATCH_END,
+  MATCH_START,
+  SNIPPET_WORDS,
+  TITLE_WEIGHT,
+  toFtsQuery,
+  toHighlightHtml,
+} from './todo-search';
+import {
+  formatRecurrence,
+  nextInSeries,
+  parseRecurrence,
+  previewOccurrences,
+} from './recurrence';
+
+/** How long one POST /todos/bulk transaction may run */
+const BULK_TIMEOUT_MS = 30_000;
+
+/** How many todos an export reads from the database at a time */
+const EXPORT_BATCH_SIZE = 500;
+
+/** The columns of a CSV export, in order */
+const EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'completedAt',
+  'dueAt',
+  'priority',
+  'recurrence',
+  'listId',
+  'parentId',
+  'assigneeId',
+  'position',
+  'tags',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+/**
+ * The UpdateTodoDto fields only members of the todo's workspace may change:
+ * they point at other rows of the workspace, or at the caller's own tags
+ */
+const WORKSPACE_ONLY_FIELDS = [
+  'listId',
+  'parentId',
+  'assigneeId',
+  'tags',
+  'addTags',
+  'removeTags',
+] as const;
 
 /**
  * TodoService - Business logic layer for todo operations
@@ -19,132 +109,1614 @@ import { UpdateTodoDto } from './dto/update-todo.dto';
  * The @Injectable() decorator:
  * - Marks this class as a provider that can be injected
  * - NestJS manages the lifecycle of injectable services
+ *
+ * Who can see a todo?
+ * - Every member of its workspace
+ * - Users it was shared with (see TodoShareService): with VIEW they can
+ *   read it, with EDIT they can also change it through update() - but
+ *   not move, delete or restore it, which stays with the workspace
  */
 @Injectable()
 export class TodoService {
   // PrismaService is injected via constructor injection
   // NestJS automatically provides the instance when creating TodoService
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private audit: AuditService,
+    private webhooks: WebhookService,
+    private events: TodoEventsService,
+    private notifications: NotificationService,
+  ) {}
 
   /**
-   * Create a new todo item
+   * Create a new todo item owned by the caller
+   * @param scope - The caller, who will create the todo, and the workspace it goes in
    * @param createTodoDto - The data for the new todo
    * @returns The created todo with all fields including id, createdAt, updatedAt
-   * @throws BadRequestException if the specified user doesn't exist
+   * @throws BadRequestException if listId isn't one of the caller's lists
+   * @throws BadRequestException if parentId isn't one of the caller's todos
+   * @throws BadRequestException if a recurrence is given without a dueAt
    */
-  async create(createTodoDto: CreateTodoDto) {
-    // Validate that the user exists before creating the todo
-    const userExists = await this.prisma.user.findUnique({
-      where: { id: createTodoDto.userId },
-    });
+  async create(scope: WorkspaceScope, createTodoDto: CreateTodoDto) {
+    // The checks, the todo and its audit event run in one transaction
+    return this.prisma.transaction((tx) =>
+      this.createWith(tx, scope, createTodoDto),
+    );
+  }
 
-    if (!userExists) {
-      throw new BadRequestException(
-        `User with ID ${createTodoDto.userId} not found`,
-      );
+  /**
+   * Get one page of the caller's todo items
+   * @param scope - The caller and the workspace whose todos are returned
+   * @param query - Pagination, sorting and filter options (see TodoQueryDto)
+   * @param path - The route used for the next/prev links (default: /todos)
+   * @returns A Paginated envelope with the page of todos, total count and links
+   */
+  async findAll(scope: WorkspaceScope, query: TodoQueryDto, path = '/todos') {
+    const where = this.buildWhere(scope.workspaceId, query);
+
+    // $transaction([...]) runs both queries against the same snapshot,
+    // so the total always matches the rows we paged through
+    // - skip/take implement offset/limit
+    // - orderBy comes from the validated "field:direction" sort parameter
+    // - include adds related user data unless includeUser=false, and tags
+    const [todos, total] = await this.prisma.$transaction([
+      this.prisma.todo.findMany({
+        where,
+        // position (manual order) reads top-to-bottom, so it defaults to asc
+        orderBy: parseSort(query.sort, ['position']),
+        skip: query.offset,
+        take: query.limit,
+        include: { user: query.includeUser !== false, tags: true },
+      }),
+      this.prisma.todo.count({ where }),
+    ]);
+
+    return paginate(todos, total, query, path);
+  }
+
+  /**
+   * Full-text search over the caller's todos, best match first
+   *
+   * How does it work?
+   * - The FTS5 table "TodoSearch" indexes every todo's title and description
+   *   (triggers keep it in sync - see the add_todo_search migration)
+   * - `MATCH` finds the todos containing every word of the search text
+   * - bm25() ranks them: the more often (and rarer) the words appear, the
+   *   better; a match in the title counts TITLE_WEIGHT times as much
+   * - highlight() returns the title and snippet() a short piece of the
+   *   description, with the matched words marked
+   *
+   * Prisma can't query virtual tables, so this is raw SQL. Prisma.sql`...`
+   * turns every ${value} into a bound parameter - never text pasted into
+   * the SQL - so the search text can't inject anything.
+   *
+   * @param scope - The caller and the workspace whose todos are searched
+   * @param query - The search text, paging and filters (see SearchTodosQueryDto)
+   * @returns A Paginated envelope of todos, each with a "match" object
+   *          holding its score and highlighted title and description
+   * @throws BadRequestException if the search text has no words in it
+   */
+  async search(scope: WorkspaceScope, query: SearchTodosQueryDto) {
+    const match = toFtsQuery(query.q);
+    if (!match) {
+      throw new BadRequestException('q must contain at least one word');
     }
 
-    // prisma.todo.create() inserts a new record into the Todo table
-    // The 'data' property contains the values to insert
-    // Include user data in the response
-    return this.prisma.todo.create({
-      data: createTodoDto,
-      include: { user: true },
+    const where = Prisma.sql`
+      "TodoSearch" MATCH ${match}
+      AND t."workspaceId" = ${scope.workspaceId}
+      AND t."deletedAt" IS NULL
+      ${query.completed === undefined ? Prisma.empty : Prisma.sql`AND t."completed" = ${query.completed ? 1 : 0}`}
+      ${query.priority === undefined ? Prisma.empty : Prisma.sql`AND t."priority" = ${query.priority}`}
+      ${query.listId === undefined ? Prisma.empty : Prisma.sql`AND t."listId" = ${query.listId}`}
+    `;
+
+    const [hits, [{ total }]] = await this.prisma.$transaction([
+      this.prisma.$queryRaw<
+        {
+          id: number;
+          rank: number;
+          title: string;
+          description: string | null;
+        }[]
+      >`
+        SELECT
+          t."id",
+          bm25("TodoSearch", ${TITLE_WEIGHT}, 1.0) AS "rank",
+          highlight("TodoSearch", 0, ${MATCH_START}, ${MATCH_END}) AS "title",
+          snippet("TodoSearch", 1, ${MATCH_START}, ${MATCH_END}, '…', ${SNIPPET_WORDS}) AS "description"
+        FROM "TodoSearch"
+        JOIN "Todo" t ON t."id" = "TodoSearch".rowid
+        WHERE ${where}
+        ORDER BY "rank", t."id"
+        LIMIT ${query.limit} OFFSET ${query.offset}
+      `,
+      this.prisma.$queryRaw<{ total: bigint | number }[]>`
+        SELECT COUNT(*) AS "total"
+        FROM "TodoSearch"
+        JOIN "Todo" t ON t."id" = "TodoSearch".rowid
+        WHERE ${where}
+      `,
+    ]);
+
+    // Load the todos themselves the usual way, then put them in rank order
+    const todos = await this.prisma.todo.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      include: { tags: true },
+    });
+    const byId = new Map(todos.map((todo) => [todo.id, todo]));
+
+    const results = hits.flatMap((hit) => {
+      const todo = byId.get(hit.id);
+      return todo
+        ? [
+            {
+              ...todo,
+              match: {
+                // bm25() is lower for better matches; flip it so a higher
+                // score means a better match
+                score: -hit.rank,
+                title: toHighlightHtml(hit.title),
+                description: toHighlightHtml(hit.description),
+              },
+            },
+          ]
+        : [];
     });
+
+    return paginate(results, Number(total), query, '/todos/search');
   }
 
   /**
-   * Get all todo items
-   * @param userId - Optional: filter todos by user ID
-   * @param includeUser - Whether to include user data in the response (default: true)
-   * @returns Array of all todos, ordered by creation date (newest first)
+   * Get the caller's open todos whose due date has already passed
+   * The caller's todos are the ones assigned to them, and the unassigned
+   * ones they created - the todos ReminderService would remind them of
+   * @param scope - The caller and the workspace whose todos are returned
+   * @returns Overdue todos, the most overdue first
    */
-  async findAll(userId?: number, includeUser = true) {
-    // prisma.todo.findMany() retrieves multiple records
-    // orderBy sorts results - 'desc' means descending (newest first)
-    // where clause filters by userId if provided
-    // include adds related user data to the response
+  async findOverdue(scope: WorkspaceScope) {
     return this.prisma.todo.findMany({
-      where: userId ? { userId } : undefined,
-      orderBy: { createdAt: 'desc' },
-      include: includeUser ? { user: true } : undefined,
+      where: {
+        ...this.responsibleWhere(scope),
+        deletedAt: null,
+        completed: false,
+        dueAt: { lt: new Date() },
+      },
+      orderBy: { dueAt: 'asc' },
     });
   }
 
+  /**
+   * Get the caller's open todos that are due at some point today
+   * "Today" runs from local midnight to the next midnight
+   * @param scope - The caller and the workspace whose todos are returned
+   * @returns Todos due today, earliest first
+   */
+  async findDueToday(scope: WorkspaceScope) {
+    const today = startOfDay(new Date());
+
+    return this.prisma.todo.findMany({
+      where: {
+        ...this.responsibleWhere(scope),
+        deletedAt: null,
+        completed: false,
+        dueAt: { gte: today, lt: addDays(today, 1) },
+      },
+      orderBy: { dueAt: 'asc' },
+    });
+  }
+
+  /**
+   * Group a user's open todos by when they are due
+   * @param scope - The user whose agenda is built, and the workspace
+   * @returns The open todos split into overdue, today, upcoming (one
+   *          entry per calendar day) and noDueDate buckets
+   */
+  async agenda(scope: WorkspaceScope) {
+    // One query for all open todos - the grouping happens in memory
+    // SQLite sorts NULLs first, so todos without a due date come first
+    const todos = await this.prisma.todo.findMany({
+      where: {
+        workspaceId: scope.workspaceId,
+        userId: scope.userId,
+        deletedAt: null,
+        completed: false,
+      },
+      orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const now = new Date();
+    const tomorrow = addDays(startOfDay(now), 1);
+
+    const agenda = {
+      overdue: [] as Todo[],
+      today: [] as Todo[],
+      upcoming: [] as { date: string; todos: Todo[] }[],
+      noDueDate: [] as Todo[],
+    };
+
+    for (const todo of todos) {
+      if (!todo.dueAt) {
+        agenda.noDueDate.push(todo);
+      } else if (todo.dueAt < now) {
+        agenda.overdue.push(todo);
+      } else if (todo.dueAt < tomorrow) {
+        agenda.today.push(todo);
+      } else {
+        // Todos are sorted by dueAt, so a new day always starts a new group
+        const date = toDateKey(todo.dueAt);
+        const group = agenda.upcoming[agenda.upcoming.length - 1];
+
+        if (group?.date === date) {
+          group.todos.push(todo);
+        } else {
+          agenda.upcoming.push({ date, todos: [todo] });
+        }
+      }
+    }
+
+    return agenda;
+  }
+
   /**
    * Get a single todo by ID
+   * @param scope - The caller and the workspace the todo must be in
    * @param id - The todo's unique identifier
    * @param includeUser - Whether to include user data in the response (default: true)
-   * @returns The todo if found
-   * @throws NotFoundException if todo doesn't exist
+   * @returns The todo if found, with a progress summary of its subtasks
+   * @throws NotFoundException if todo doesn't exist, or is in another
+   *         workspace and wasn't shared with the caller
    */
-  async findOne(id: number, includeUser = true) {
-    // findUnique retrieves a single record by a unique field (like id)
+  async findOne(scope: WorkspaceScope, id: number, includeUser = true) {
+    // findFirst (instead of findUnique) lets us filter on id AND access
     // include adds related user data to the response
-    const todo = await this.prisma.todo.findUnique({
-      where: { id },
-      include: includeUser ? { user: true } : undefined,
+    const todo = await this.prisma.todo.findFirst({
+      where: { id, deletedAt: null, ...this.accessWhere(scope) },
+      include: { user: includeUser, tags: true },
     });
 
     // If no todo found, throw a 404 error
+    // Other users' todos get the same 404, so callers can't probe which IDs exist
     // NestJS automatically converts this to an HTTP 404 response
     if (!todo) {
       throw new NotFoundException(`Todo with ID ${id} not found`);
     }
 
-    return todo;
+    // Roll up the subtasks, e.g. { done: 3, total: 5 } for "3/5 done"
+    const [total, done] = await this.prisma.$transaction([
+      this.prisma.todo.count({ where: { parentId: id, deletedAt: null } }),
+      this.prisma.todo.count({
+        where: { parentId: id, deletedAt: null, completed: true },
+      }),
+    ]);
+
+    return { ...todo, progress: { done, total } };
   }
 
   /**
-   * Update an existing todo
+   * Get the subtasks of one of the caller's todos
+   * @param scope - The caller and the workspace the parent todo must be in
+   * @param id - The parent todo's unique identifier
+   * @returns The direct subtasks in their checklist order
+   * @throws NotFoundException if the parent doesn't exist or belongs to another user
+   */
+  async findChildren(scope: WorkspaceScope, id: number) {
+    await this.findOwned(scope, id);
+
+    return this.prisma.todo.findMany({
+      where: { parentId: id, deletedAt: null },
+      orderBy: [{ childOrder: 'asc' }, { id: 'asc' }],
+      include: { tags: true },
+    });
+  }
+
+  /**
+   * Change the order of a todo's subtasks
+   * @param scope - The caller and the workspace the parent todo must be in
+   * @param id - The parent todo's unique identifier
+   * @param childIds - Every subtask ID, in the new order
+   * @returns The subtasks in their new order
+   * @throws NotFoundException if the parent doesn't exist or belongs to another user
+   * @throws BadRequestException if childIds isn't exactly the set of subtasks
+   */
+  async reorderChildren(scope: WorkspaceScope, id: number, childIds: number[]) {
+    await this.findOwned(scope, id);
+
+    const children = await this.prisma.todo.findMany({
+      where: { parentId: id, deletedAt: null },
+    });
+
+    // Same length + every current child listed = the same set of IDs
+    // (ReorderChildrenDto already rejects duplicates)
+    const sameSet =
+      children.length === childIds.length &&
+      children.every((child) => childIds.includes(child.id));
+
+    if (!sameSet) {
+      throw new BadRequestException(
+        `childIds must list every subtask of todo ${id} exactly once`,
+      );
+    }
+
+    // Write all positions in one transaction so the order is never half-applied
+    await this.prisma.transaction(async (tx) => {
+      for (const child of children) {
+        const updated = await tx.todo.update({
+          where: { id: child.id },
+          data: {
+            childOrder: childIds.indexOf(child.id),
+            version: { increment: 1 },
+          },
+        });
+        await this.recordChange(tx, scope.userId, 'update', child, updated);
+      }
+    });
+
+    return this.findChildren(scope, id);
+  }
+
+  /**
+   * Move a todo to a new place in the caller's manual order
+   *
+   * Only the moved todo is written, unless its neighbours are so close
+   * together that their positions must be rebalanced first.
+   *
+   * @param scope - The caller and the workspace all todos involved must be in
+   * @param id - The todo being moved
+   * @param moveTodoDto - The neighbours to drop the todo between
+   * @returns The moved todo with its new position
+   * @throws NotFoundException if any of the todos doesn't exist or isn't the user's
+   * @throws BadRequestException if no neighbour is given, or they are in the wrong order
+   */
+  async move(scope: WorkspaceScope, id: number, moveTodoDto: MoveTodoDto) {
+    const { afterId, beforeId } = moveTodoDto;
+
+    if (afterId === undefined && beforeId === undefined) {
+      throw new BadRequestException('Provide afterId, beforeId or both');
+    }
+    if (afterId === id || beforeId === id) {
+      throw new BadRequestException('A todo cannot be moved next to itself');
+    }
+
+    const existing = await this.findOwned(scope, id);
+
+    let position = await this.positionForMove(scope, id, moveTodoDto);
+    if (position === null) {
+      // The neighbours are too close together - spread everything out
+      // again and repeat the calculation with the new positions
+      await this.rebalancePositions(scope.workspaceId);
+      position = await this.positionForMove(scope, id, moveTodoDto);
+    }
+
+    if (position === null) {
+      throw new BadRequestException('Could not find room to move the todo');
+    }
+
+    return this.prisma.transaction(async (tx) => {
+      const todo = await tx.todo.update({
+        where: { id },
+        data: { position, version: { increment: 1 } },
+        include: { tags: true },
+      });
+
+      await this.recordChange(tx, scope.userId, 'update', existing, todo);
+      return todo;
+    });
+  }
+
+  /**
+   * Update one of the caller's todos
+   * @param scope - The caller and the workspace the todo must be in
    * @param id - The todo's unique identifier
    * @param updateTodoDto - The fields to update (partial update supported)
    * @returns The updated todo
-   * @throws NotFoundException if todo doesn't exist
-   * @throws BadRequestException if the specified user doesn't exist (when updating userId)
+   * Subtasks:
+   * - Moving a todo under a new parent appends it to that parent's checklist
+   * - Completing a todo also completes all of its open subtasks (at every level)
+   * - Re-opening a todo leaves its subtasks as they are
+   *
+   * Recurring todos:
+   * - Completing one creates the next occurrence (returned as nextOccurrence)
+   *   with the next due date, and moves the recurrence rule over to it
+   * - The series ends when UNTIL is passed or COUNT runs out
+   *
+   * Concurrent edits: with an If-Match header, the update only goes ahead
+   * if the todo is still at that version (see common/etag.ts)
+   *
+   * @param ifMatch - The request's If-Match header, if any
+   * @throws NotFoundException if todo doesn't exist or belongs to another user
+   * @throws PreconditionFailedException if the todo has changed since ifMatch
+   * @throws BadRequestException if listId isn't one of the caller's lists
+   * @throws BadRequestException if parentId isn't one of the caller's todos
+   *         or would make the todo a subtask of itself
+   * @throws BadRequestException if the todo would repeat without a dueAt
+   */
+  async update(
+    scope: WorkspaceScope,
+    id: number,
+    updateTodoDto: UpdateTodoDto,
+    ifMatch?: string,
+  ) {
+    // An interactive transaction: the update, the subtasks, the next
+    // occurrence and their audit events are committed together, or not at all
+    return this.prisma.transaction((tx) =>
+      this.updateWith(tx, scope, id, updateTodoDto, ifMatch),
+    );
+  }
+
+  /**
+   * Apply many create/update/delete operations at once
+   *
+   * All-or-nothing: the operations run in order inside ONE transaction.
+   * If any of them fails, everything is rolled back and the error names
+   * the index of the failing operation, e.g.
+   * { "statusCode": 404, "failedIndex": 3, "message": "Operation 3 failed: ..." }
+   *
+   * Filter-based operations (updateMany, deleteMany) use the same filters
+   * as GET /todos and only ever touch the caller's todos.
+   *
+   * @param scope - The caller and the workspace all todos involved are in
+   * @param bulkTodoDto - The operations to apply
+   * @returns One result per operation with the IDs of the todos it touched
+   * @throws HttpException with failedIndex if any operation fails
+   */
+  async bulk(scope: WorkspaceScope, bulkTodoDto: BulkTodoDto) {
+    const { operations } = bulkTodoDto;
+    let index = 0;
+
+    try {
+      return await this.prisma.transaction(
+        async (tx) => {
+          const results: { index: number; op: BulkOp; ids: number[] }[] = [];
+
+          for (; index < operations.length; index++) {
+            const operation = operations[index];
+            const ids = await this.runBulkOperation(tx, scope, operation);
+            results.push({ index, op: operation.op, ids });
+          }
+
+          return { results };
+        },
+        // Big batches may take longer than the default 5 second limit
+        { timeout: BULK_TIMEOUT_MS },
+      );
+    } catch (error) {
+      throw this.bulkFailure(operations, index, error);
+    }
+  }
+
+  /**
+   * Stream all of the caller's todos that match the GET /todos filters
+   *
+   * Why an async generator?
+   * - It yields the export piece by piece, and the controller pipes each
+   *   piece to the response as soon as it is ready
+   * - Only EXPORT_BATCH_SIZE todos are held in memory at a time, however
+   *   many the caller has
+   *
+   * Tags are exported as a list of names (comma-separated in CSV), the same
+   * way they are sent to POST /todos - so an export can be imported again.
+   *
+   * @param scope - The caller and the workspace whose todos are exported
+   * @param query - Filters, sort and format (see ExportTodosQueryDto)
+   * @returns Chunks of CSV, JSON or NDJSON text
    */
-  async update(id: number, updateTodoDto: UpdateTodoDto) {
-    // First check if the todo exists
-    await this.findOne(id);
+  async *export(
+    scope: WorkspaceScope,
+    query: ExportTodosQueryDto,
+  ): AsyncGenerator<string> {
+    const where = this.buildWhere(scope.workspaceId, query);
+    // The id tiebreak keeps the batches from overlapping when sort values repeat
+    const orderBy = [
+      parseSort(query.sort, ['position']),
+      { id: 'asc' as const },
+    ];
+
+    if (query.format === 'csv') yield toCsvLine([...EXPORT_COLUMNS]);
+    if (query.format === 'json') yield '[';
 
-    // If userId is being updated, validate the new user exists
-    if (updateTodoDto.userId !== undefined) {
-      const userExists = await this.prisma.user.findUnique({
-        where: { id: updateTodoDto.userId },
+    for (let skip = 0, first = true; ; skip += EXPORT_BATCH_SIZE) {
+      const todos = await this.prisma.todo.findMany({
+        where,
+        orderBy,
+        skip,
+        take: EXPORT_BATCH_SIZE,
+        include: { tags: true },
       });
 
-      if (!userExists) {
-        throw new BadRequestException(
-          `User with ID ${updateTodoDto.userId} not found`,
+      for (const todo of todos) {
+        const row = { ...todo, tags: todo.tags.map((tag) => tag.name) };
+
+        if (query.format === 'csv') {
+          yield toCsvLine(
+            EXPORT_COLUMNS.map((column) =>
+              column === 'tags' ? row.tags.join(',') : row[column],
+            ),
+          );
+        } else if (query.format === 'ndjson') {
+          yield JSON.stringify(row) + '\n';
+        } else {
+          yield (first ? '' : ',') + JSON.stringify(row);
+          first = false;
+        }
+      }
+
+      if (todos.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    if (query.format === 'json') yield ']';
+  }
+
+  /**
+   * Create todos from the rows of an uploaded file
+   *
+   * Every row is validated against CreateTodoDto and then created exactly
+   * like POST /todos would, all in one transaction (see runImport).
+   *
+   * @param scope - The caller, who will create the todos, and the workspace they go in
+   * @param rows - The parsed rows of the file
+   * @param dryRun - Check every row, but save nothing
+   * @returns A report with the number of imported rows and the errors per row
+   */
+  async import(
+    scope: WorkspaceScope,
+    rows: Record<string, unknown>[],
+    dryRun = false,
+  ) {
+    return runImport(this.prisma, CreateTodoDto, rows, dryRun, (tx, dto) =>
+      this.createWith(tx, scope, dto),
+    );
+  }
+
+  /**
+   * Preview the upcoming occurrences of a recurring todo
+   * @param scope - The caller and the workspace the todo must be in
+   * @param id - The recurring todo (the current occurrence of the series)
+   * @param count - How many occurrences to list, starting with the current one
+   * @returns The rule and the due dates of the occurrences
+   * @throws NotFoundException if todo doesn't exist or belongs to another user
+   * @throws BadRequestException if the todo doesn't repeat
+   */
+  async previewOccurrences(scope: WorkspaceScope, id: number, count: number) {
+    const todo = await this.findOwned(scope, id);
+
+    if (!todo.recurrence || !todo.dueAt) {
+      throw new BadRequestException(`Todo with ID ${id} does not repeat`);
+    }
+
+    return {
+      recurrence: todo.recurrence,
+      occurrences: previewOccurrences(
+        parseRecurrence(todo.recurrence),
+        todo.dueAt,
+        count,
+      ),
+    };
+  }
+
+  /**
+   * Stop a recurring series
+   * The todo itself is kept, it just won't create a next occurrence anymore
+   * @param scope - The caller and the workspace the todo must be in
+   * @param id - The recurring todo
+   * @returns The todo without its recurrence rule
+   * @throws NotFoundException if todo doesn't exist or belongs to another user
+   */
+  async stopRecurrence(scope: WorkspaceScope, id: number) {
+    const existing = await this.findOwned(scope, id);
+
+    return this.prisma.transaction(async (tx) => {
+      const todo = await tx.todo.update({
+        where: { id },
+        data: { recurrence: null, version: { increment: 1 } },
+        include: { tags: true },
+      });
+
+      await this.recordChange(tx, scope.userId, 'update', existing, todo);
+      return todo;
+    });
+  }
+
+  /**
+   * Move one of the caller's todos to the trash
+   *
+   * What is a soft delete?
+   * - Instead of removing the row, deletedAt is set to the current time
+   * - Every read path filters on deletedAt: null, so the todo disappears
+   * - It can be restored until TrashService purges it for good
+   *
+   * Its subtasks go to the trash with it, stamped with the same deletedAt,
+   * which is how restore() knows which subtasks to bring back.
+   *
+   * @param scope - The caller and the workspace the todo must be in
+   * @param id - The todo's unique identifier
+   * @param ifMatch - The request's If-Match header, if any
+   * @returns The trashed todo
+   * @throws NotFoundException if the todo doesn't exist, is already in the
+   *         trash or isn't in the workspace
+   * @throws PreconditionFailedException if the todo has changed since ifMatch
+   */
+  async remove(scope: WorkspaceScope, id: number, ifMatch?: string) {
+    return this.prisma.transaction((tx) =>
+      this.removeWith(tx, scope, id, ifMatch),
+    );
+  }
+
+  /**
+   * Bring a todo back from the trash, together with the subtasks that
+   * were trashed with it
+   * @param scope - The caller and the workspace the todo must be in
+   * @param id - The trashed todo's unique identifier
+   * @returns The restored todo
+   * @throws NotFoundException if the todo isn't in the caller's trash
+   * @throws BadRequestException if its parent todo is still in the trash
+   */
+  async restore(scope: WorkspaceScope, id: number) {
+    const todo = await this.prisma.todo.findFirst({
+      where: { id, workspaceId: scope.workspaceId, deletedAt: { not: null } },
+      include: { parent: true, tags: true },
+    });
+
+    if (!todo) {
+      throw new NotFoundException(`Todo with ID ${id} is not in the trash`);
+    }
+    if (todo.parent?.deletedAt) {
+      throw new BadRequestException(
+        `Restore the parent todo ${todo.parent.id} first`,
+      );
+    }
+
+    const descendantIds = await this.findDescendantIds(id, {
+      deletedAt: todo.deletedAt,
+    });
+
+    return this.prisma.transaction(async (tx) => {
+      const restored = await tx.todo.update({
+        where: { id },
+        data: { deletedAt: null, version: { increment: 1 } },
+        include: { tags: true },
+      });
+      await this.recordChange(tx, scope.userId, 'restore', todo, restored);
+
+      await this.updateManyWithAudit(
+        tx,
+        scope.userId,
+        { id: { in: descendantIds } },
+        { deletedAt: null },
+        'restore',
+      );
+
+      return restored;
+    });
+  }
+
+  /**
+   * Get one page of the change history of one of the caller's todos
+   * Todos in the trash still have a history
+   * @param scope - The caller and the workspace the todo must be in
+   * @param id - The todo's unique identifier
+   * @param query - Pagination options
+   * @returns A Paginated envelope of audit events, newest first
+   * @throws NotFoundException if todo doesn't exist or the caller can't see it
+   */
+  async history(scope: WorkspaceScope, id: number, query: PaginationQueryDto) {
+    const todo = await this.prisma.todo.findFirst({
+      where: { id, ...this.accessWhere(scope) },
+    });
+
+    if (!todo) {
+      throw new NotFoundException(`Todo with ID ${id} not found`);
+    }
+
+    return this.audit.findForEntity('Todo', id, query, `/todos/${id}/history`);
+  }
+
+  /**
+   * Apply the same change to many todos and record an audit event (plus
+   * webhook deliveries and stream events) for each
+   * Used for the subtasks that follow their parent, by UserService for
+   * the todos that follow their user to the trash and back, and by
+   * ListService for the todos of a deleted list
+   * @param db - The transaction the change is made in
+   * @param actorId - The authenticated user making the change
+   * @returns The number of todos changed
+   */
+  async updateManyWithAudit(
+    db: Prisma.TransactionClient,
+    actorId: number,
+    where: Prisma.TodoWhereInput,
+    data: Partial<
+      Pick<Todo, 'completed' | 'completedAt' | 'deletedAt' | 'listId'>
+    >,
+    action: AuditAction,
+  ) {
+    const before = await db.todo.findMany({ where });
+    if (before.length === 0) {
+      return 0;
+    }
+
+    await db.todo.updateMany({
+      where: { id: { in: before.map((todo) => todo.id) } },
+      data: { ...data, version: { increment: 1 } },
+    });
+    await this.audit.recordMany(
+      db,
+      before.map((todo) => ({
+        actorId,
+        entityType: 'Todo' as const,
+        entityId: todo.id,
+        action,
+        before: todo,
+        after: { ...todo, ...data },
+      })),
+    );
+    await this.webhooks.enqueue(
+      db,
+      before.map((todo) => ({
+        entityType: 'Todo' as const,
+        action,
+        before: todo,
+        after: { ...todo, ...data },
+      })),
+    );
+    await this.events.publishAfterCommit(
+      db,
+      before.map((todo) => ({
+        action,
+        before: todo,
+        after: { ...todo, ...data },
+      })),
+    );
+
+    return before.length;
+  }
+
+  /**
+   * Load one of the caller's todos without any relations
+   * Used by the write methods to check ownership before changing anything
+   * @throws NotFoundException if todo doesn't exist or belongs to another user
+   */
+  private async findOwned(
+    scope: WorkspaceScope,
+    id: number,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    // Tags are included so the audit log can compare them before and after
+    const todo = await db.todo.findFirst({
+      where: { id, workspaceId: scope.workspaceId, deletedAt: null },
+      include: { tags: true },
+    });
+
+    if (!todo) {
+      throw new NotFoundException(`Todo with ID ${id} not found`);
+    }
+
+    return todo;
+  }
+
+  /**
+   * Load a todo the caller may change with update(): one of the
+   * workspace's todos, or one shared with them with the EDIT permission
+   * AttachmentService uses it too: the same people may attach files
+   * @throws NotFoundException if todo doesn't exist or the caller can't see it
+   * @throws ForbiddenException if it was only shared with them to VIEW
+   */
+  async findEditable(
+    scope: WorkspaceScope,
+    id: number,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const todo = await db.todo.findFirst({
+      where: { id, deletedAt: null, ...this.accessWhere(scope) },
+      include: { tags: true },
+    });
+
+    if (!todo) {
+      throw new NotFoundException(`Todo with ID ${id} not found`);
+    }
+
+    if (todo.workspaceId !== scope.workspaceId) {
+      const share = await db.todoShare.findUnique({
+        where: { todoId_userId: { todoId: id, userId: scope.userId } },
+      });
+      if (share?.permission !== SharePermission.EDIT) {
+        throw new ForbiddenException(
+          `Todo with ID ${id} was shared with you to view only`,
         );
       }
     }
 
+    return todo;
+  }
+
+  /**
+   * The where condition for "todos the caller can see": the todos of the
+   * active workspace, plus the ones shared with the caller
+   */
+  private accessWhere(scope: WorkspaceScope): Prisma.TodoWhereInput {
+    return {
+      OR: [
+        { workspaceId: scope.workspaceId },
+        { shares: { some: { userId: scope.userId } } },
+      ],
+    };
+  }
+
+  /**
+   * The where condition for "the caller's todos" in the active workspace:
+   * assigned to them, or unassigned and created by them
+   */
+  private responsibleWhere(scope: WorkspaceScope): Prisma.TodoWhereInput {
+    return {
+      workspaceId: scope.workspaceId,
+      OR: [
+        { assigneeId: scope.userId },
+        { assigneeId: null, userId: scope.userId },
+      ],
+    };
+  }
+
+  /**
+   * The body of create(), run inside the caller's transaction
+   * (create() opens its own, bulk() shares one between all operations)
+   */
+  private async createWith(
+    db: Prisma.TransactionClient,
+    scope: WorkspaceScope,
+    createTodoDto: CreateTodoDto,
+  ) {
+    const { tags, ...data } = createTodoDto;
+    await this.assertListOwned(scope.workspaceId, data.listId, db);
+    await this.assertAssignable(scope.workspaceId, data.assigneeId, db);
+    await this.assertParentAllowed(
+      scope.workspaceId,
+      data.parentId,
+      undefined,
+      db,
+    );
+    this.assertRecurrenceAnchored(data.recurrence, data.dueAt);
+
+    // prisma.todo.create() inserts a new record into the Todo table
+    // The 'data' property contains the values to insert
+    // The owner comes from the access token, never from the request body
+    // Include user and tag data in the response
+    const todo = await db.todo.create({
+      data: {
+        ...data,
+        userId: scope.userId,
+        workspaceId: scope.workspaceId,
+        recurrence: this.normalizeRecurrence(data.recurrence),
+        // A todo created as already completed is stamped right away
+        completedAt: data.completed ? new Date() : null,
+        // New subtasks go to the end of their parent's checklist
+        childOrder: await this.nextChildOrder(data.parentId, db),
+        // ...and new todos go to the end of the user's manual order
+        position: await this.nextPosition(scope.workspaceId, db),
+        tags: tags
+          ? { connect: await this.upsertTags(scope.userId, tags, db) }
+          : undefined,
+      },
+      include: { user: true, tags: true },
+    });
+
+    await this.recordChange(db, scope.userId, 'create', null, todo);
+    await this.notifyAssignee(db, scope.userId, todo);
+    return todo;
+  }
+
+  /**
+   * The body of update(), run inside the caller's transaction
+   */
+  private async updateWith(
+    db: Prisma.TransactionClient,
+    scope: WorkspaceScope,
+    id: number,
+    updateTodoDto: UpdateTodoDto,
+    ifMatch?: string,
+  ) {
+    // First check if the todo exists, the caller may change it and it is
+    // still the version the client edited
+    const existing = await this.findEditable(scope, id, db);
+    assertIfMatch(ifMatch, existing.version);
+    if (existing.workspaceId !== scope.workspaceId) {
+      this.assertNoWorkspaceFields(updateTodoDto);
+    }
+    await this.assertListOwned(scope.workspaceId, updateTodoDto.listId, db);
+
+    const reassigned =
+      updateTodoDto.assigneeId !== undefined &&
+      updateTodoDto.assigneeId !== existing.assigneeId;
+    if (reassigned) {
+      await this.assertAssignable(
+        scope.workspaceId,
+        updateTodoDto.assigneeId,
+        db,
+      );
+    }
+
+    // The tag fields are applied through the relation, not as columns
+    const { tags, addTags, removeTags, ...data } = updateTodoDto;
+
+    const parentChanged =
+      data.parentId !== undefined && data.parentId !== existing.parentId;
+    if (parentChanged) {
+      await this.assertParentAllowed(scope.workspaceId, data.parentId, id, db);
+    }
+
+    // Fields left out of the body keep their current value
+    const recurrence =
+      data.recurrence === undefined ? existing.recurrence : data.recurrence;
+    const dueAt = data.dueAt === undefined ? existing.dueAt : data.dueAt;
+    this.assertRecurrenceAnchored(recurrence, dueAt);
+    // A new due date gets a reminder of its own (see ReminderService)
+    const dueAtChanged = dueAt?.getTime() !== existing.dueAt?.getTime();
+
+    const completing = data.completed === true && !existing.completed;
+    const completedAt = this.nextCompletedAt(existing, data.completed);
+
     // prisma.todo.update() modifies an existing record
     // 'where' specifies which record to update
     // 'data' contains the new values
-    // Include user data in the response
-    return this.prisma.todo.update({
+    // Include user and tag data in the response
+    const todo = await db.todo.update({
       where: { id },
-      data: updateTodoDto,
-      include: { user: true },
+      data: {
+        ...data,
+        // Once the next occurrence exists it carries the rule instead
+        recurrence: completing
+          ? null
+          : this.normalizeRecurrence(data.recurrence),
+        completedAt,
+        remindedAt: dueAtChanged ? null : undefined,
+        version: { increment: 1 },
+        childOrder: parentChanged
+          ? await this.nextChildOrder(data.parentId, db)
+          : undefined,
+        tags: await this.buildTagUpdate(
+          scope.userId,
+          { tags, addTags, removeTags },
+          db,
+        ),
+      },
+      include: { user: true, tags: true },
     });
+    await this.recordChange(db, scope.userId, 'update', existing, todo);
+    if (reassigned) {
+      await this.notifyAssignee(db, scope.userId, todo);
+    }
+
+    if (!completing) {
+      return todo;
+    }
+
+    // Subtasks are always completed together with their parent
+    const descendantIds = await this.findDescendantIds(id, undefined, db);
+    await this.updateManyWithAudit(
+      db,
+      scope.userId,
+      { id: { in: descendantIds }, completed: false },
+      { completed: true, completedAt },
+      'update',
+    );
+
+    // Completing a recurring todo continues the series with a new todo
+    const next =
+      recurrence && dueAt
+        ? nextInSeries(parseRecurrence(recurrence), dueAt)
+        : null;
+    if (!next) {
+      return todo;
+    }
+
+    const nextOccurrence = await db.todo.create({
+      data: {
+        title: todo.title,
+        description: todo.description,
+        priority: todo.priority,
+        listId: todo.listId,
+        parentId: todo.parentId,
+        childOrder: await this.nextChildOrder(todo.parentId, db),
+        position: await this.nextPosition(todo.workspaceId, db),
+        userId: todo.userId,
+        assigneeId: todo.assigneeId,
+        workspaceId: todo.workspaceId,
+        dueAt: next.dueAt,
+        recurrence: formatRecurrence(next.rule),
+        tags: { connect: todo.tags.map((tag) => ({ id: tag.id })) },
+      },
+      include: { tags: true },
+    });
+    await this.recordChange(db, scope.userId, 'create', null, nextOccurrence);
+
+    return { ...todo, nextOccurrence };
   }
 
   /**
-   * Delete a todo by ID
-   * @param id - The todo's unique identifier
-   * @returns The deleted todo
-   * @throws NotFoundException if todo doesn't exist
+   * The body of remove(), run inside the caller's transaction
    */
-  async remove(id: number) {
-    // First check if the todo exists
-    await this.findOne(id);
+  private async removeWith(
+    db: Prisma.TransactionClient,
+    scope: WorkspaceScope,
+    id: number,
+    ifMatch?: string,
+  ) {
+    // Read first: the audit log needs the row as it was before the delete
+    // (its version and updatedAt change too)
+    const existing = await this.findOwned(scope, id, db);
+    assertIfMatch(ifMatch, existing.version);
 
-    // prisma.todo.delete() removes a record from the database
-    // It returns the deleted record
-    return this.prisma.todo.delete({
+    const deletedAt = new Date();
+    const todo = await db.todo.update({
       where: { id },
+      data: { deletedAt, version: { increment: 1 } },
+      include: { tags: true },
+    });
+    await this.recordChange(db, scope.userId, 'delete', existing, todo);
+
+    await this.updateManyWithAudit(
+      db,
+      scope.userId,
+      { id: { in: await this.findDescendantIds(id, undefined, db) } },
+      { deletedAt },
+      'delete',
+    );
+
+    return todo;
+  }
+
+  /**
+   * Run a single bulk operation inside the shared transaction
+   * @returns The IDs of the todos the operation touched
+   */
+  private async runBulkOperation(
+    db: Prisma.TransactionClient,
+    scope: WorkspaceScope,
+    operation: BulkOperation,
+  ): Promise<number[]> {
+    switch (operation.op) {
+      case 'create': {
+        const todo = await this.createWith(db, scope, operation.data);
+        return [todo.id];
+      }
+      case 'update':
+        await this.updateWith(db, scope, operation.id, operation.data);
+        return [operation.id];
+      case 'delete':
+        await this.removeWith(db, scope, operation.id);
+        return [operation.id];
+      case 'updateMany': {
+        const ids = await this.findMatchingIds(db, scope, operation.filter);
+        for (const id of ids) {
+          await this.updateWith(db, scope, id, operation.data);
+        }
+        return ids;
+      }
+      case 'deleteMany': {
+        // One UPDATE for all matches and their subtasks, instead of a
+        // lookup and an update per todo
+        const ids = await this.findMatchingIds(db, scope, operation.filter);
+        const descendantIds = await this.findDescendantIds(ids, undefined, db);
+        const all = [...new Set([...ids, ...descendantIds])];
+
+        await this.updateManyWithAudit(
+          db,
+          scope.userId,
+          { id: { in: all } },
+          { deletedAt: new Date() },
+          'delete',
+        );
+        return all;
+      }
+    }
+  }
+
+  /**
+   * The IDs of the caller's todos that match a bulk operation's filter
+   */
+  private async findMatchingIds(
+    db: Prisma.TransactionClient,
+    scope: WorkspaceScope,
+    filter: TodoFilterDto,
+  ) {
+    const todos = await db.todo.findMany({
+      where: this.buildWhere(scope.workspaceId, filter),
+      orderBy: { id: 'asc' },
+      select: { id: true },
+    });
+
+    return todos.map((todo) => todo.id);
+  }
+
+  /**
+   * Turn the error of a failed bulk operation into the response
+   * Keeps the status of the original error (e.g. 404 for a missing todo)
+   * and adds which operation failed and what happened to the others
+   */
+  private bulkFailure(
+    operations: BulkOperation[],
+    failedIndex: number,
+    error: unknown,
+  ) {
+    // Database errors get the status PrismaExceptionFilter would give them
+    const problem =
+      error instanceof Prisma.PrismaClientKnownRequestError
+        ? toProblemDetails(error)
+        : null;
+    const status =
+      error instanceof HttpException
+        ? error.getStatus()
+        : (problem?.status ?? HttpStatus.INTERNAL_SERVER_ERROR);
+    const reason =
+      error instanceof HttpException
+        ? error.message
+        : (problem?.detail ?? 'Internal server error');
+
+    return new HttpException(
+      {
+        statusCode: status,
+        error: 'Bulk operation failed',
+        message: `Operation ${failedIndex} failed: ${reason}`,
+        failedIndex,
+        results: operations.map((operation, index) => ({
+          index,
+          op: operation.op,
+          status:
+            index < failedIndex
+              ? 'rolledBack'
+              : index === failedIndex
+                ? 'failed'
+                : 'skipped',
+        })),
+      },
+      status,
+      { cause: error },
+    );
+  }
+
+  /**
+   * Translate the GET /todos filters into a Prisma where clause
+   * Filters that weren't supplied are left undefined, which Prisma ignores
+   */
+  private buildWhere(
+    workspaceId: number,
+    query: TodoFilterDto,
+  ): Prisma.TodoWhereInput {
+    return {
+      workspaceId,
+      deletedAt: null,
+      completed: query.completed,
+      priority: query.priority,
+      listId: query.listId,
+      assigneeId: query.assigneeId,
+      ...this.buildTagFilter(query),
+      // SQLite's LIKE (used by contains) is case-insensitive for ASCII text
+      title: query.contains ? { contains: query.contains } : undefined,
+      createdAt: {
+        lt: query.createdBefore ? new Date(query.createdBefore) : undefined,
+        gte: query.createdAfter ? new Date(query.createdAfter) : undefined,
+      },
+    };
+  }
+
+  /**
+   * Build the where conditions for ?tags=a,b&tagMatch=any|all
+   *
+   * - any: "some of the todo's tags have a name in [a, b]"
+   * - all: one "some tag is named X" condition per tag, combined with AND
+   */
+  private buildTagFilter(query: TodoFilterDto): Prisma.TodoWhereInput {
+    if (!query.tags?.length) {
+      return {};
+    }
+
+    if (query.tagMatch === 'all') {
+      return {
+        AND: query.tags.map((name) => ({ tags: { some: { name } } })),
+      };
+    }
+
+    return { tags: { some: { name: { in: query.tags } } } };
+  }
+
+  /**
+   * Make sure the caller has a tag for every name, creating missing ones
+   *
+   * upsert = "update or insert": it finds the tag by the compound unique
+   * key (userId + name) and creates it only if it doesn't exist yet
+   *
+   * @returns The tag IDs in a form Prisma's connect/set accept
+   */
+  private async upsertTags(
+    userId: number,
+    names: string[],
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const uniqueNames = [...new Set(names)];
+
+    const tags = await Promise.all(
+      uniqueNames.map((name) =>
+        db.tag.upsert({
+          where: { userId_name: { userId, name } },
+          create: { name, userId },
+          update: {},
+        }),
+      ),
+    );
+
+    return tags.map((tag) => ({ id: tag.id }));
+  }
+
+  /**
+   * Turn the tags/addTags/removeTags fields of UpdateTodoDto into a
+   * nested Prisma update for the many-to-many relation
+   * - set: replaces all connections
+   * - connect / disconnect: add or remove individual connections
+   */
+  private async buildTagUpdate(
+    userId: number,
+    {
+      tags,
+      addTags,
+      removeTags,
+    }: Pick<UpdateTodoDto, 'tags' | 'addTags' | 'removeTags'>,
+    db: Prisma.TransactionClient = this.prisma,
+  ): Promise<Prisma.TagUpdateManyWithoutTodosNestedInput | undefined> {
+    if (!tags && !addTags && !removeTags) {
+      return undefined;
+    }
+
+    const toDisconnect = removeTags?.length
+      ? await db.tag.findMany({
+          where: { userId, name: { in: removeTags } },
+          select: { id: true },
+        })
+      : undefined;
+
+    return {
+      set: tags ? await this.upsertTags(userId, tags, db) : undefined,
+      connect: addTags ? await this.upsertTags(userId, addTags, db) : undefined,
+      disconnect: toDisconnect,
+    };
+  }
+
+  /**
+   * A todo can only be put in a list owned by the same user
+   * @param listId - The requested list (null/undefined means "no list")
+   * @throws BadRequestException if the list doesn't exist or isn't the user's
+   */
+  private async assertListOwned(
+    workspaceId: number,
+    listId?: number | null,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (listId === undefined || listId === null) {
+      return;
+    }
+
+    const list = await db.todoList.findFirst({
+      where: { id: listId, workspaceId },
+    });
+
+    if (!list) {
+      throw new BadRequestException(`List with ID ${listId} not found`);
+    }
+  }
+
+  /**
+   * A todo can only be assigned to a member of its workspace who may
+   * work on todos - MEMBER or higher, not a VIEWER
+   * @param assigneeId - The requested assignee (null/undefined means "nobody")
+   * @throws BadRequestException if the user isn't a member, or only a viewer
+   */
+  private async assertAssignable(
+    workspaceId: number,
+    assigneeId?: number | null,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (assigneeId === undefined || assigneeId === null) {
+      return;
+    }
+
+    const member = await db.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: assigneeId } },
     });
+
+    if (!member) {
+      throw new BadRequestException(
+        `User with ID ${assigneeId} is not a member of this workspace`,
+      );
+    }
+    if (!hasRole(member.role, WorkspaceRole.MEMBER)) {
+      throw new BadRequestException(
+        `User with ID ${assigneeId} is a viewer and can't be assigned todos`,
+      );
+    }
+  }
+
+  /**
+   * Users a todo was shared with may edit its own fields, but not link it
+   * to lists, todos, members or tags of a workspace they aren't in
+   * @throws ForbiddenException if one of WORKSPACE_ONLY_FIELDS is set
+   */
+  private assertNoWorkspaceFields(updateTodoDto: UpdateTodoDto) {
+    const fields = WORKSPACE_ONLY_FIELDS.filter(
+      (field) => updateTodoDto[field] !== undefined,
+    );
+
+    if (fields.length > 0) {
+      throw new ForbiddenException(
+        `Only members of the todo's workspace can change ${fields.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Tell the assignee of a todo that it is now theirs
+   * (NotificationService skips people who assigned themselves)
+   * @param db - The transaction the assignment is made in
+   */
+  private async notifyAssignee(
+    db: Prisma.TransactionClient,
+    actorId: number,
+    todo: Todo,
+  ) {
+    if (todo.assigneeId === null) {
+      return;
+    }
+
+    await this.notifications.notify(db, {
+      userId: todo.assigneeId,
+      type: NotificationType.TODO_ASSIGNED,
+      todoId: todo.id,
+      actorId,
+    });
+  }
+
+  /**
+   * A subtask's parent must be one of the caller's todos, and the
+   * parent chain must never loop back to the todo itself
+   *
+   * Example of a cycle: A -> B -> C, then setting A's parent to C
+   * We walk up from the new parent (C, B, A...) and fail if we meet A.
+   *
+   * @param parentId - The requested parent (null/undefined means "no parent")
+   * @param todoId - The todo being moved (omit when creating a new todo)
+   * @throws BadRequestException if the parent isn't the user's or a cycle would form
+   */
+  private async assertParentAllowed(
+    workspaceId: number,
+    parentId?: number | null,
+    todoId?: number,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (parentId === undefined || parentId === null) {
+      return;
+    }
+
+    const parent = await db.todo.findFirst({
+      where: { id: parentId, workspaceId, deletedAt: null },
+    });
+
+    if (!parent) {
+      throw new BadRequestException(
+        `Parent todo with ID ${parentId} not found`,
+      );
+    }
+
+    let ancestor: Pick<Todo, 'id' | 'parentId'> | null = parent;
+    while (ancestor && todoId !== undefined) {
+      if (ancestor.id === todoId) {
+        throw new BadRequestException(
+          'A todo cannot be a subtask of itself or of one of its own subtasks',
+        );
+      }
+
+      ancestor = ancestor.parentId
+        ? await db.todo.findUnique({
+            where: { id: ancestor.parentId },
+            select: { id: true, parentId: true },
+          })
+        : null;
+    }
+  }
+
+  /**
+   * The childOrder for a todo added to the end of a parent's checklist
+   * (0 for top-level todos, which aren't part of a checklist)
+   * @param db - Pass a transaction client to run inside an existing transaction
+   */
+  private async nextChildOrder(
+    parentId?: number | null,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (parentId === undefined || parentId === null) {
+      return 0;
+    }
+
+    // aggregate with _max finds the highest childOrder among the siblings
+    const { _max } = await db.todo.aggregate({
+      where: { parentId },
+      _max: { childOrder: true },
+    });
+
+    return (_max.childOrder ?? -1) + 1;
+  }
+
+  /**
+   * The position for a todo added to the end of the user's manual order
+   * @param db - Pass a transaction client to run inside an existing transaction
+   */
+  private async nextPosition(
+    workspaceId: number,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const { _max } = await db.todo.aggregate({
+      where: { workspaceId },
+      _max: { position: true },
+    });
+
+    return positionBetween(_max.position ?? undefined) ?? POSITION_GAP;
+  }
+
+  /**
+   * Work out the position between the requested neighbours
+   *
+   * @returns The new position, or null if a rebalance is needed first
+   */
+  private async positionForMove(
+    scope: WorkspaceScope,
+    id: number,
+    { afterId, beforeId }: MoveTodoDto,
+  ) {
+    const after = afterId ? await this.findOwned(scope, afterId) : undefined;
+    const before = beforeId ? await this.findOwned(scope, beforeId) : undefined;
+
+    if (after && before && after.position >= before.position) {
+      throw new BadRequestException(
+        `Todo ${afterId} does not come before todo ${beforeId}`,
+      );
+    }
+
+    // Only one neighbour given: the other side is whichever todo sits
+    // next to it right now (excluding the todo that is being moved)
+    if (after && !before) {
+      const next = await this.prisma.todo.findFirst({
+        where: {
+          workspaceId: scope.workspaceId,
+          deletedAt: null,
+          id: { not: id },
+          position: { gt: after.position },
+        },
+        orderBy: { position: 'asc' },
+      });
+      return positionBetween(after.position, next?.position);
+    }
+    if (before && !after) {
+      const previous = await this.prisma.todo.findFirst({
+        where: {
+          workspaceId: scope.workspaceId,
+          deletedAt: null,
+          id: { not: id },
+          position: { lt: before.position },
+        },
+        orderBy: { position: 'desc' },
+      });
+      return positionBetween(previous?.position, before.position);
+    }
+
+    return positionBetween(after?.position, before?.position);
+  }
+
+  /**
+   * Renumber all of the user's todos POSITION_GAP apart, keeping their order
+   * This is the "occasional rebalance" that keeps fractional positions usable
+   * It isn't audited: the order the user sees doesn't change
+   */
+  private async rebalancePositions(workspaceId: number) {
+    const todos = await this.prisma.todo.findMany({
+      where: { workspaceId, deletedAt: null },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      select: { id: true },
+    });
+
+    await this.prisma.$transaction(
+      todos.map((todo, index) =>
+        this.prisma.todo.update({
+          where: { id: todo.id },
+          // The positions are part of every todo, so their ETags change too
+          data: {
+            position: (index + 1) * POSITION_GAP,
+            version: { increment: 1 },
+          },
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Collect the IDs of every subtask below a todo (or several), level by level
+   * @param where - Which subtasks count (default: the ones not in the trash)
+   */
+  async findDescendantIds(
+    id: number | number[],
+    where: Prisma.TodoWhereInput = { deletedAt: null },
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const ids: number[] = [];
+    let level = Array.isArray(id) ? id : [id];
+
+    while (level.length > 0) {
+      const children = await db.todo.findMany({
+        where: { ...where, parentId: { in: level } },
+        select: { id: true },
+      });
+      level = children.map((child) => child.id);
+      ids.push(...level);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Record a change to a single todo in the audit log, queue the webhook
+   * deliveries it triggers and tell open streams about it
+   * @param db - The transaction the change is made in
+   */
+  private async recordChange(
+    db: Prisma.TransactionClient,
+    actorId: number,
+    action: AuditAction,
+    before: Todo | null,
+    after: Todo,
+  ) {
+    await this.audit.record(db, {
+      actorId,
+      entityType: 'Todo',
+      entityId: after.id,
+      action,
+      before,
+      after,
+    });
+    await this.webhooks.enqueue(db, [
+      { entityType: 'Todo', action, before, after },
+    ]);
+    await this.events.publishAfterCommit(db, [{ action, before, after }]);
+  }
+
+  /**
+   * A recurring todo needs a due date - it is the first occurrence of the
+   * series, and every later one is calculated from it
+   * @throws BadRequestException if there is a rule but no due date
+   */
+  private assertRecurrenceAnchored(
+    recurrence?: string | null,
+    dueAt?: Date | null,
+  ) {
+    if (recurrence && !dueAt) {
+      throw new BadRequestException('A recurring todo needs a dueAt');
+    }
+  }
+
+  /**
+   * Store rules in their canonical form, e.g. "freq=weekly;interval=1"
+   * becomes "FREQ=WEEKLY" (null and undefined are passed through)
+   */
+  private normalizeRecurrence(recurrence?: string | null) {
+    return recurrence
+      ? formatRecurrence(parseRecurrence(recurrence))
+      : recurrence;
+  }
+
+  /**
+   * Work out the new completedAt when "completed" may be changing
+   * - Completing an open todo stamps the current time
+   * - Re-opening a todo clears the timestamp
+   * - Otherwise the existing value is kept (undefined = don't change it)
+   */
+  private nextCompletedAt(existing: Todo, completed?: boolean) {
+    if (completed === undefined || completed === existing.completed) {
+      return undefined;
+    }
+    return completed ? new Date() : null;
   }
 }
@@ -0,0 +1,10 @@
+/**
+ * How many days trashed todos and users are kept before they may be purged
+ * Set TRASH_RETENTION_DAYS to change it (defaults to 30 days)
+ */
+export const TRASH_RETENTION_DAYS = Number(
+  process.env.TRASH_RETENTION_DAYS ?? 30,
+);
+
+/** When expired trash is purged on its own: every night at 03:00 */
+export const TRASH_PURGE_SCHEDULE = '0 3 * * *';
@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TrashService } from './trash.service';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { Paginated } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import { ApiWorkspaceHeader } from '../workspace/api-workspace-header.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+
+/**
+ * TrashController - HTTP request handler for the trash
+ *
+ * Restoring is done on the resource itself:
+ * - POST /todos/:id/restore
+ * - POST /users/:id/restore
+ */
+@ApiTags('trash')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('trash')
+export class TrashController {
+  constructor(private readonly trashService: TrashService) {}
+
+  /**
+   * GET /trash - Get a page of the workspace's trashed todos
+   */
+  @Get()
+  @UseGuards(WorkspaceGuard)
+  @ApiWorkspaceHeader()
+  @ApiOperation({ summary: "Get a page of the workspace's trashed todos" })
+  @ApiOkResponse({ description: 'A page of trashed todos', type: Paginated })
+  findAll(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.trashService.findAll(scope, query);
+  }
+
+  /**
+   * POST /trash/purge - Permanently delete expired trash
+   *
+   * Removes every todo and user (of any account) that has been in the
+   * trash for longer than TRASH_RETENTION_DAYS. Newer trash is kept.
+   * The files attached to the removed todos are deleted as well.
+   */
+  @Post('purge')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Permanently delete trash past its retention' })
+  @ApiResponse({
+    status: 200,
+    description: 'How many todos, users and attachments were removed',
+  })
+  purge() {
+    return this.trashService.purgeExpired();
+  }
+}
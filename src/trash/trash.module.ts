@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TrashService } from './trash.service';
+import { TrashController } from './trash.controller';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+
+/**
+ * TrashModule - Feature module for soft-deleted todos and users
+ *
+ * Follows the same pattern as TagModule.
+ * Imports AttachmentModule to delete the files of purged todos, and
+ * SchedulerModule to purge expired trash every night.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  imports: [AttachmentModule, SchedulerModule],
+  controllers: [TrashController],
+  providers: [TrashService],
+  exports: [TrashService],
+})
+export class TrashModule {}
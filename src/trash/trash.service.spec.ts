@@ -0,0 +1,145 @@
+import { WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestTodoService,
+  createTestUser,
+} from '../../test/test-database';
+import { addDays } from '../common/dates';
+import { AttachmentService } from '../attachment/attachment.service';
+import { AttachmentStorage } from '../attachment/attachment-storage';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { TrashService } from './trash.service';
+import { TRASH_RETENTION_DAYS } from './trash.constants';
+
+describe('TrashService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  /** The storage driver's delete() */
+  let deleteFile: jest.Mock;
+  let trash: TrashService;
+
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  /** Deleted long enough ago to be purged */
+  const expired = addDays(now, -TRASH_RETENTION_DAYS - 1);
+  /** Deleted, but still within the retention period */
+  const recent = addDays(now, -1);
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    deleteFile = jest.fn().mockResolvedValue(undefined);
+    const storage: AttachmentStorage = {
+      save: jest.fn(),
+      read: jest.fn(),
+      delete: deleteFile,
+    };
+    const attachments = new AttachmentService(
+      prisma,
+      createTestTodoService(prisma),
+      storage,
+    );
+    // The scheduler is only needed to register the nightly job
+    trash = new TrashService(prisma, attachments, {} as SchedulerService);
+  });
+
+  afterEach(() => db.close());
+
+  describe('purgeExpired', () => {
+    it('should only delete todos past the retention period', async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+      const todo = (title: string, deletedAt: Date | null) =>
+        prisma.todo.create({
+          data: { title, userId: user.id, workspaceId, deletedAt },
+        });
+      await todo('Old', expired);
+      await todo('Recent', recent);
+      await todo('Open', null);
+
+      const result = await trash.purgeExpired(now);
+
+      expect(result).toMatchObject({ todos: 1, users: 0 });
+      const left = await prisma.todo.findMany({ orderBy: { id: 'asc' } });
+      expect(left.map((todo) => todo.title)).toEqual(['Recent', 'Open']);
+    });
+
+    it("should delete a purged user's personal workspace but keep their shared todos", async () => {
+      const { user: gone, workspaceId: personal } = await createTestUser(
+        prisma,
+        'Ben',
+      );
+      const { id: team } = await prisma.workspace.create({
+        data: {
+          name: 'Team',
+          members: { create: { userId: gone.id, role: WorkspaceRole.MEMBER } },
+        },
+      });
+      const shared = await prisma.todo.create({
+        data: { title: 'Shared', userId: gone.id, workspaceId: team },
+      });
+      await prisma.todo.create({
+        data: { title: 'Private', userId: gone.id, workspaceId: personal },
+      });
+      await prisma.user.update({
+        where: { id: gone.id },
+        data: { deletedAt: expired },
+      });
+
+      const result = await trash.purgeExpired(now);
+
+      expect(result).toMatchObject({ users: 1 });
+      expect(
+        await prisma.workspace.findUnique({ where: { id: personal } }),
+      ).toBeNull();
+      expect(
+        await prisma.todo.findUnique({ where: { id: shared.id } }),
+      ).toMatchObject({ userId: null, workspaceId: team });
+    });
+
+    it('should delete the files of purged todos once it committed', async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+      await prisma.todo.create({
+        data: {
+          title: 'Old',
+          userId: user.id,
+          workspaceId,
+          deletedAt: expired,
+          attachments: {
+            create: {
+              filename: 'plan.pdf',
+              mimeType: 'application/pdf',
+              size: 3,
+              storageKey: 'key-1',
+              uploadedById: user.id,
+            },
+          },
+        },
+      });
+
+      const result = await trash.purgeExpired(now);
+
+      expect(result.attachments).toBe(1);
+      expect(deleteFile).toHaveBeenCalledWith('key-1');
+    });
+
+    it('should do nothing when run again', async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+      await prisma.todo.create({
+        data: {
+          title: 'Old',
+          userId: user.id,
+          workspaceId,
+          deletedAt: expired,
+        },
+      });
+      await trash.purgeExpired(now);
+
+      expect(await trash.purgeExpired(now)).toMatchObject({
+        todos: 0,
+        users: 0,
+        attachments: 0,
+      });
+    });
+  });
+});
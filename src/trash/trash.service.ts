@@ -0,0 +1,109 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { addDays } from '../common/dates';
+import { paginate } from '../common/pagination';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { TRASH_PURGE_SCHEDULE, TRASH_RETENTION_DAYS } from './trash.constants';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { AttachmentService } from '../attachment/attachment.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+
+/**
+ * TrashService - Lists and purges soft-deleted rows
+ *
+ * Todos and users are never deleted straight away: TodoService.remove and
+ * UserService.remove only set deletedAt. Restoring happens in those services,
+ * while this one shows what is in the trash and empties it for good once
+ * the retention period (TRASH_RETENTION_DAYS) is over - on its own every
+ * night (a scheduled job, see SchedulerService), or with POST /trash/purge.
+ */
+@Injectable()
+export class TrashService implements OnModuleInit {
+  constructor(
+    private prisma: PrismaService,
+    private attachments: AttachmentService,
+    private scheduler: SchedulerService,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'trash-purge',
+      schedule: TRASH_PURGE_SCHEDULE,
+      run: () => this.purgeExpired(),
+    });
+  }
+
+  /**
+   * Get one page of the workspace's trashed todos, most recently deleted first
+   * @param scope - The caller and the workspace whose trash is returned
+   * @param query - Pagination options
+   * @returns A Paginated envelope; each todo has a purgeAt date telling
+   *          when it becomes eligible for permanent deletion
+   */
+  async findAll(scope: WorkspaceScope, query: PaginationQueryDto) {
+    const where = {
+      workspaceId: scope.workspaceId,
+      deletedAt: { not: null },
+    };
+
+    const [todos, total] = await this.prisma.$transaction([
+      this.prisma.todo.findMany({
+        where,
+        orderBy: [{ deletedAt: 'desc' }, { id: 'asc' }],
+        skip: query.offset,
+        take: query.limit,
+        include: { tags: true },
+      }),
+      this.prisma.todo.count({ where }),
+    ]);
+
+    const items = todos.map((todo) => ({
+      ...todo,
+      purgeAt: todo.deletedAt && addDays(todo.deletedAt, TRASH_RETENTION_DAYS),
+    }));
+
+    return paginate(items, total, query, '/trash');
+  }
+
+  /**
+   * Permanently delete everything that has been in the trash for longer
+   * than the retention period
+   *
+   * Only rows past their purgeAt date are touched, so running this any
+   * number of times (e.g. from a scheduled job) is always safe.
+   * Purging a user also removes their personal workspace, with everything
+   * in it. What they created in shared workspaces stays there for the
+   * other members, without a creator (onDelete: SetNull).
+   *
+   * The attachments of every todo that goes - trashed ones, and all todos
+   * of purged users' personal workspaces - are deleted with them, files
+   * included. Subtasks
+   * need no extra care: they are trashed together with their parent (or
+   * earlier), so they are always purged in the same run.
+   *
+   * @param now - The current time (a parameter so it can be pinned in tests)
+   * @returns How many todos, users and attachments were removed, and the
+   *          cutoff used
+   */
+  async purgeExpired(now = new Date()) {
+    const cutoff = addDays(now, -TRASH_RETENTION_DAYS);
+    const expired = { deletedAt: { lt: cutoff } };
+    // A personal workspace has exactly one member, its owner
+    const personalOfExpired = {
+      personal: true,
+      members: { some: { user: expired } },
+    };
+
+    return this.prisma.transaction(async (tx) => {
+      const attachments = await this.attachments.removeFilesOf(tx, {
+        OR: [expired, { workspace: personalOfExpired }],
+      });
+      const todos = await tx.todo.deleteMany({ where: expired });
+      // Before the users: their memberships are how the workspaces are found
+      await tx.workspace.deleteMany({ where: personalOfExpired });
+      const users = await tx.user.deleteMany({ where: expired });
+
+      return { cutoff, todos: todos.count, users: users.count, attachments };
+    });
+  }
+}
@@ -8,4 +8,6 @@ import { CreateUserDto } from './create-user.dto';
  * This allows partial updates (PATCH requests)
  * Follows the same pattern as UpdateTodoDto
  */
-export class UpdateUserDto extends PartialType(CreateUserDto) {}
+export class UpdateUserDto extends PartialType(CreateUserDto, {
+  skipNullProperties: false,
+}) {}
@@ -0,0 +1,68 @@
+import {
+  IsBoolean,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ToBoolean } from '../../common/transforms';
+
+/**
+ * UserQueryDto - Query parameters accepted by GET /users
+ *
+ * Follows the same pattern as TodoQueryDto:
+ * - Shared limit/offset from PaginationQueryDto
+ * - sort=field:direction with an allow-list of fields
+ * - Optional filters combined with AND
+ */
+export class UserQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Sort as field:direction. Fields: createdAt, updatedAt, name',
+    example: 'name:asc',
+    default: 'createdAt:desc',
+  })
+  @Matches(/^(createdAt|updatedAt|name)(:(asc|desc))?$/, {
+    message:
+      'sort must be one of createdAt, updatedAt, name, optionally followed by :asc or :desc',
+  })
+  @IsOptional()
+  sort: string = 'createdAt:desc';
+
+  @ApiPropertyOptional({
+    description: 'Only return users whose name contains this text',
+    example: 'John',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  contains?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return users created before this date (ISO 8601)',
+    example: '2025-12-31',
+  })
+  @IsISO8601()
+  @IsOptional()
+  createdBefore?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return users created on or after this date (ISO 8601)',
+    example: '2025-01-01',
+  })
+  @IsISO8601()
+  @IsOptional()
+  createdAfter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include todos in response',
+    type: Boolean,
+    default: false,
+  })
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  includeTodos?: boolean;
+}
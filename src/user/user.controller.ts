@@ -9,17 +9,47 @@ import {
   ParseIntPipe,
   Query,
   ParseBoolPipe,
+  UseGuards,
+  HttpCode,
+  UploadedFile,
+  UseInterceptors,
+  Headers,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOkResponse,
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiParam,
   ApiQuery,
 } from '@nestjs/swagger';
+import { WorkspaceRole } from '@prisma/client';
 import { UserService } from './user.service';
+import { TodoService } from '../todo/todo.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UserQueryDto } from './dto/user-query.dto';
+import { TodoQueryDto } from '../todo/dto/todo-query.dto';
+import { StatsService } from '../stats/stats.service';
+import { StatsQueryDto } from '../stats/dto/stats-query.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { Paginated } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AllowTrashedUser } from '../auth/allow-trashed-user.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+import { WorkspaceGuard } from '../workspace/workspace.guard';
+import { ActiveWorkspace } from '../workspace/active-workspace.decorator';
+import { ApiWorkspaceHeader } from '../workspace/api-workspace-header.decorator';
+import { RequireRole } from '../workspace/require-role.decorator';
+import type { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { MAX_IMPORT_BYTES, readImportFile } from '../common/import';
+import { EtagInterceptor } from '../common/etag.interceptor';
 
 /**
  * UserController - HTTP request handler for user operations
@@ -29,48 +59,120 @@ import { UpdateUserDto } from './dto/update-user.dto';
  * - Swagger/OpenAPI documentation for all endpoints
  * - ParseIntPipe for ID validation
  * - ParseBoolPipe for boolean query parameters
+ * - JwtAuthGuard on every route; users may only update or delete themselves
+ * - WorkspaceGuard on the routes that read users and todos: they only see
+ *   the members of the active workspace (X-Workspace-Id), while the routes
+ *   for the caller's own account work the same in every workspace
  */
 @ApiTags('users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
 @Controller('users')
 export class UserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly todoService: TodoService,
+    private readonly statsService: StatsService,
+  ) {}
 
   /**
-   * POST /users - Create a new user
+   * POST /users - Create an account and add it to the workspace
+   *
+   * Not how people sign up (that is POST /auth/signup): admins use it to
+   * set up the members of a shared workspace. The account has no email or
+   * password, so it can't log in - see UserService.create()
    */
   @Post()
-  @ApiOperation({ summary: 'Create a new user' })
+  @UseGuards(WorkspaceGuard)
+  @RequireRole(WorkspaceRole.ADMIN)
+  @ApiWorkspaceHeader()
+  @ApiOperation({ summary: 'Create a member of the workspace (admins only)' })
   @ApiResponse({ status: 201, description: 'User created successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
-  create(@Body() createUserDto: CreateUserDto) {
-    return this.userService.create(createUserDto);
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, or a personal workspace',
+  })
+  @ApiResponse({ status: 403, description: 'Not an admin of the workspace' })
+  create(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Body() createUserDto: CreateUserDto,
+  ) {
+    return this.userService.create(scope, createUserDto);
   }
 
   /**
-   * GET /users - Get all users
-   * Optional query parameter: includeTodos=true to include user's todos
+   * POST /users/import - Create users from an uploaded CSV, JSON or NDJSON file
+   * Works like POST /todos/import: rows are checked against CreateUserDto,
+   * valid rows are created in one transaction, ?dryRun=true saves nothing
+   * Like POST /users, only for admins, and the users join the workspace
    */
-  @Get()
-  @ApiOperation({ summary: 'Get all users' })
+  @Post('import')
+  @HttpCode(200)
+  @UseGuards(WorkspaceGuard)
+  @RequireRole(WorkspaceRole.ADMIN)
+  @ApiWorkspaceHeader()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }),
+  )
+  @ApiOperation({ summary: 'Import users from a CSV, JSON or NDJSON file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
   @ApiQuery({
-    name: 'includeTodos',
+    name: 'dryRun',
     required: false,
     type: Boolean,
-    description: 'Include todos in response',
+    description: 'Validate every row, but save nothing',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'How many rows were imported, and the errors of the others',
   })
-  @ApiResponse({ status: 200, description: 'List of all users' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'No file, the file could not be parsed, or a personal workspace',
+  })
+  @ApiResponse({ status: 403, description: 'Not an admin of the workspace' })
+  @ApiResponse({ status: 413, description: 'The file is too large' })
+  import(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query('dryRun', new ParseBoolPipe({ optional: true })) dryRun?: boolean,
+  ) {
+    return this.userService.import(scope, readImportFile(file), dryRun);
+  }
+
+  /**
+   * GET /users - Get one page of the members of the workspace
+   * Accepts the same limit/offset/sort parameters as GET /todos,
+   * plus contains (name search), createdBefore/createdAfter and includeTodos
+   */
+  @Get()
+  @UseGuards(WorkspaceGuard)
+  @ApiWorkspaceHeader()
+  @ApiOperation({ summary: 'Get a page of the members of the workspace' })
+  @ApiOkResponse({ description: 'A page of users', type: Paginated })
   findAll(
-    @Query('includeTodos', new ParseBoolPipe({ optional: true }))
-    includeTodos?: boolean,
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Query() query: UserQueryDto,
   ) {
-    return this.userService.findAll(includeTodos || false);
+    return this.userService.findAll(scope, query);
   }
 
   /**
-   * GET /users/:id - Get a single user by ID
+   * GET /users/:id - Get a single member of the workspace by ID
    * Optional query parameter: includeTodos=true to include user's todos
    */
   @Get(':id')
+  @UseGuards(WorkspaceGuard)
+  @UseInterceptors(EtagInterceptor)
+  @ApiWorkspaceHeader()
   @ApiOperation({ summary: 'Get a user by ID' })
   @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
   @ApiQuery({
@@ -79,42 +181,183 @@ export class UserController {
     type: Boolean,
     description: 'Include todos in response',
   })
-  @ApiResponse({ status: 200, description: 'The user' })
+  @ApiHeader({
+    name: 'If-None-Match',
+    required: false,
+    description: 'The ETag of your copy - 304 if the user is unchanged',
+  })
+  @ApiResponse({ status: 200, description: 'The user, with its ETag' })
+  @ApiResponse({ status: 304, description: 'The user is unchanged' })
   @ApiResponse({ status: 404, description: 'User not found' })
   findOne(
+    @ActiveWorkspace() scope: WorkspaceScope,
     @Param('id', ParseIntPipe) id: number,
     @Query('includeTodos', new ParseBoolPipe({ optional: true }))
     includeTodos?: boolean,
   ) {
-    return this.userService.findOne(id, includeTodos || false);
+    return this.userService.findOne(scope, id, includeTodos || false);
+  }
+
+  /**
+   * GET /users/:id/agenda - The user's open todos grouped by due date
+   * Only the account owner may see their agenda, one workspace at a time
+   */
+  @Get(':id/agenda')
+  @UseGuards(WorkspaceGuard)
+  @ApiWorkspaceHeader()
+  @ApiOperation({ summary: "Get a user's open todos grouped by due date" })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Open todos in overdue, today, upcoming and noDueDate groups',
+  })
+  @ApiResponse({ status: 403, description: 'Not your account' })
+  agenda(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.userService.assertSelf(scope.userId, id);
+    return this.todoService.agenda(scope);
+  }
+
+  /**
+   * GET /users/:id/assigned - A page of the todos assigned to a member
+   * Accepts the same query parameters as GET /todos
+   */
+  @Get(':id/assigned')
+  @UseGuards(WorkspaceGuard)
+  @ApiWorkspaceHeader()
+  @ApiOperation({ summary: 'Get a page of the todos assigned to a user' })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiOkResponse({ description: 'A page of todos', type: Paginated })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async assigned(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: TodoQueryDto,
+  ) {
+    // 404 for users that don't exist or aren't members of the workspace
+    await this.userService.findOne(scope, id);
+    return this.todoService.findAll(
+      scope,
+      { ...query, assigneeId: id },
+      `/users/${id}/assigned`,
+    );
+  }
+
+  /**
+   * GET /users/:id/stats - Statistics of a member's todos in the workspace
+   * Takes the same query parameters as GET /stats/overview
+   */
+  @Get(':id/stats')
+  @UseGuards(WorkspaceGuard)
+  @ApiWorkspaceHeader()
+  @ApiOperation({ summary: "Get the statistics of a user's todos" })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The statistics of the range' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid dates or time zone, or the range is too long',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async stats(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: StatsQueryDto,
+  ) {
+    await this.userService.findOne(scope, id);
+    return this.statsService.forUser(scope, id, query);
+  }
+
+  /**
+   * GET /users/:id/activity - Everything the user has changed, newest first
+   * Only the account owner may see their activity
+   */
+  @Get(':id/activity')
+  @ApiOperation({ summary: "Get a page of a user's changes (audit log)" })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiOkResponse({ description: 'A page of audit events', type: Paginated })
+  @ApiResponse({ status: 403, description: 'Not your account' })
+  activity(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.userService.activity(user.id, id, query);
   }
 
   /**
    * PATCH /users/:id - Update a user
+   * Only the account owner may update it
    */
   @Patch(':id')
+  @UseInterceptors(EtagInterceptor)
   @ApiOperation({ summary: 'Update a user' })
   @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'Only update if the user still has this ETag',
+  })
   @ApiResponse({ status: 200, description: 'User updated successfully' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 403, description: 'Not your account' })
   @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 412, description: 'The user has changed' })
   update(
+    @CurrentUser() user: AuthUser,
     @Param('id', ParseIntPipe) id: number,
     @Body() updateUserDto: UpdateUserDto,
+    @Headers('if-match') ifMatch?: string,
   ) {
-    return this.userService.update(id, updateUserDto);
+    return this.userService.update(user.id, id, updateUserDto, ifMatch);
   }
 
   /**
-   * DELETE /users/:id - Delete a user
-   * WARNING: This will also delete all todos belonging to this user (CASCADE)
+   * DELETE /users/:id - Move a user to the trash
+   * Only the account owner may delete it
+   * The todos in their personal workspace go to the trash with it
    */
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a user (cascades to todos)' })
+  @UseInterceptors(EtagInterceptor)
+  @ApiOperation({ summary: 'Move a user (and their todos) to the trash' })
   @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'Only delete if the user still has this ETag',
+  })
   @ApiResponse({ status: 200, description: 'User deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Not your account' })
   @ApiResponse({ status: 404, description: 'User not found' })
-  remove(@Param('id', ParseIntPipe) id: number) {
-    return this.userService.remove(id);
+  @ApiResponse({ status: 412, description: 'The user has changed' })
+  remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    return this.userService.remove(user.id, id, ifMatch);
+  }
+
+  /**
+   * POST /users/:id/restore - Bring a user back from the trash
+   * The todos that were trashed together with the account come back too
+   *
+   * @AllowTrashedUser(): the only route a trashed account can still call,
+   * with an access token it got before the deletion
+   */
+  @Post(':id/restore')
+  @HttpCode(200)
+  @AllowTrashedUser()
+  @ApiOperation({ summary: 'Restore a user (and their todos) from the trash' })
+  @ApiParam({ name: 'id', description: 'The user ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The restored user' })
+  @ApiResponse({ status: 403, description: 'Not your account' })
+  @ApiResponse({ status: 404, description: 'User not in the trash' })
+  restore(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.userService.restore(user.id, id);
   }
 }
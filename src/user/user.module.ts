@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
+import { TodoModule } from '../todo/todo.module';
+import { AuditModule } from '../audit/audit.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { StatsModule } from '../stats/stats.module';
 
 /**
  * UserModule - Feature module for user-related functionality
@@ -9,8 +13,14 @@ import { UserController } from './user.controller';
  * - Declares the controller and service
  * - Exports UserService for potential use in other modules (like TodoModule)
  * - PrismaService is available globally, so no need to import PrismaModule
+ * - Imports TodoModule for TodoService, which builds GET /users/:id/agenda
+ *   and trashes/restores a user's todos together with the user
+ * - Imports AuditModule to record every change to a user
+ * - Imports WebhookModule to queue webhook deliveries for those changes
+ * - Imports StatsModule for GET /users/:id/stats
  */
 @Module({
+  imports: [TodoModule, AuditModule, WebhookModule, StatsModule],
   controllers: [UserController],
   providers: [UserService],
   exports: [UserService], // Export for potential future use in other modules
@@ -0,0 +1,78 @@
+import { WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestTodoService,
+  createTestUser,
+} from '../../test/test-database';
+import { AuditService } from '../audit/audit.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { UserService } from './user.service';
+
+describe('UserService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let users: UserService;
+  /** The owner of a shared workspace */
+  let admin: WorkspaceScope;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    users = new UserService(
+      prisma,
+      new AuditService(prisma),
+      createTestTodoService(prisma),
+      new WebhookService(prisma),
+    );
+
+    const { user } = await createTestUser(prisma, 'Ann');
+    const team = await prisma.workspace.create({
+      data: {
+        name: 'Team',
+        members: { create: { userId: user.id, role: WorkspaceRole.OWNER } },
+      },
+    });
+    admin = {
+      userId: user.id,
+      workspaceId: team.id,
+      role: WorkspaceRole.OWNER,
+    };
+  });
+
+  afterEach(() => db.close());
+
+  describe('create', () => {
+    it('should add the account to the workspace as a member', async () => {
+      const user = await users.create(admin, { name: 'Ben' });
+
+      const memberships = await prisma.workspaceMember.findMany({
+        where: { userId: user.id },
+        include: { workspace: true },
+        orderBy: { workspaceId: 'asc' },
+      });
+      expect(
+        memberships.map(({ workspace, role }) => [workspace.name, role]),
+      ).toEqual([
+        ['Team', WorkspaceRole.MEMBER],
+        ['Personal', WorkspaceRole.OWNER],
+      ]);
+    });
+
+    it('should not create accounts in a personal workspace', async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Cid');
+      const personal = {
+        userId: user.id,
+        workspaceId,
+        role: WorkspaceRole.OWNER,
+      };
+
+      await expect(users.create(personal, { name: 'Ben' })).rejects.toThrow(
+        'Personal workspaces cannot be shared',
+      );
+      expect(await prisma.user.count({ where: { name: 'Ben' } })).toBe(0);
+    });
+  });
+});
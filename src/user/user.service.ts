@@ -1,7 +1,37 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, User, WorkspaceRole } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { paginate, parseSort } from '../common/pagination';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UserQueryDto } from './dto/user-query.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { runImport } from '../common/import';
+import { assertIfMatch } from '../common/etag';
+import { AuditAction, AuditService } from '../audit/audit.service';
+import { TodoService } from '../todo/todo.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { WorkspaceScope } from '../workspace/workspace-scope.interface';
+import { PERSONAL_WORKSPACE } from '../workspace/workspace-roles';
+
+/**
+ * Include a user's todos in one workspace, leaving out the ones in the trash
+ * @param workspaceId - The active workspace
+ */
+const activeTodos = (workspaceId: number) =>
+  ({
+    todos: { where: { workspaceId, deletedAt: null } },
+  }) satisfies Prisma.UserInclude;
+
+/** Trashing an account takes the todos in its personal workspace along */
+const PERSONAL_TODOS = {
+  workspace: { personal: true },
+} satisfies Prisma.TodoWhereInput;
 
 /**
  * UserService - Business logic layer for user operations
@@ -9,47 +39,137 @@ import { UpdateUserDto } from './dto/update-user.dto';
  * Mirrors the pattern used in TodoService:
  * - Injected PrismaService for database access
  * - Async methods for all CRUD operations
- * - Throws NotFoundException when user not found
+ * - Throws NotFoundException when user not found (or lets a write fail
+ *   with P2025, which PrismaExceptionFilter turns into a 404)
+ * - Throws ForbiddenException when someone tries to modify another account
+ * - Only shows the members of the active workspace (and only their todos in
+ *   that workspace) - other users get the same 404 as users that don't exist
+ * - Records every change in the audit log, in the same transaction
+ * - Queues webhook deliveries for the changes, in that same transaction
  */
 @Injectable()
 export class UserService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private audit: AuditService,
+    private todoService: TodoService,
+    private webhooks: WebhookService,
+  ) {}
 
   /**
-   * Create a new user
+   * Create an account for someone and add it to the active workspace
+   *
+   * Who is this for?
+   * - People sign up themselves (POST /auth/signup) - this is for an
+   *   admin setting up a team workspace, e.g. to assign todos right away
+   * - Only admins and owners may do it (the routes use @RequireRole), and
+   *   only in a shared workspace, which the account joins as a MEMBER
+   * - The account has no email or password, so nobody can log in with it
+   *
+   * @param scope - The caller (at least an ADMIN) and the workspace
    * @param createUserDto - The data for the new user
    * @returns The created user with all fields including id, createdAt, updatedAt
+   * @throws BadRequestException if the workspace is a personal one
    */
-  async create(createUserDto: CreateUserDto) {
-    return this.prisma.user.create({
-      data: createUserDto,
-    });
+  async create(scope: WorkspaceScope, createUserDto: CreateUserDto) {
+    await this.assertSharedWorkspace(scope.workspaceId);
+
+    return this.prisma.transaction((tx) =>
+      this.createWith(tx, scope, createUserDto),
+    );
   }
 
   /**
-   * Get all users
-   * @param includeTodos - Whether to include the user's todos in the response
-   * @returns Array of all users, ordered by creation date (newest first)
+   * Create users from the rows of an uploaded file, like create() does
+   * Every row is validated against CreateUserDto, and all valid rows are
+   * created in one transaction (see runImport)
+   * @param scope - The caller (at least an ADMIN) and the workspace
+   * @param rows - The parsed rows of the file
+   * @param dryRun - Check every row, but save nothing
+   * @returns A report with the number of imported rows and the errors per row
+   * @throws BadRequestException if the workspace is a personal one
+   */
+  async import(
+    scope: WorkspaceScope,
+    rows: Record<string, unknown>[],
+    dryRun = false,
+  ) {
+    await this.assertSharedWorkspace(scope.workspaceId);
+
+    return runImport(this.prisma, CreateUserDto, rows, dryRun, (tx, dto) =>
+      this.createWith(tx, scope, dto),
+    );
+  }
+
+  /**
+   * Get one page of the members of the active workspace
+   * @param scope - The caller and the workspace
+   * @param query - Pagination, sorting and filter options (see UserQueryDto)
+   * @returns A Paginated envelope with the page of users, total count and links
+   */
+  async findAll(scope: WorkspaceScope, query: UserQueryDto) {
+    const where: Prisma.UserWhereInput = {
+      deletedAt: null,
+      memberships: { some: { workspaceId: scope.workspaceId } },
+      name: query.contains ? { contains: query.contains } : undefined,
+      createdAt: {
+        lt: query.createdBefore ? new Date(query.createdBefore) : undefined,
+        gte: query.createdAfter ? new Date(query.createdAfter) : undefined,
+      },
+    };
+
+    const [users, total] = await this.prisma.$transaction([
+      this.prisma.user.findMany({
+        where,
+        orderBy: parseSort(query.sort),
+        skip: query.offset,
+        take: query.limit,
+        include: query.includeTodos
+          ? activeTodos(scope.workspaceId)
+          : undefined,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return paginate(users, total, query, '/users');
+  }
+
+  /**
+   * Get a single member of the active workspace by ID
+   * @param scope - The caller and the workspace
+   * @param id - The user's unique identifier
+   * @param includeTodos - Whether to include the user's todos in the workspace
+   * @returns The user if found
+   * @throws NotFoundException if user doesn't exist or isn't a member
    */
-  async findAll(includeTodos = false) {
-    return this.prisma.user.findMany({
-      orderBy: { createdAt: 'desc' },
-      include: includeTodos ? { todos: true } : undefined,
+  async findOne(scope: WorkspaceScope, id: number, includeTodos = false) {
+    // findFirst, because deletedAt isn't part of a unique key
+    const user = await this.prisma.user.findFirst({
+      where: {
+        id,
+        deletedAt: null,
+        memberships: { some: { workspaceId: scope.workspaceId } },
+      },
+      include: includeTodos ? activeTodos(scope.workspaceId) : undefined,
     });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
   }
 
   /**
-   * Get a single user by ID
+   * Get an account by ID, in whichever workspace it is
+   * For changes to the caller's own account, after assertSelf()
    * @param id - The user's unique identifier
-   * @param includeTodos - Whether to include the user's todos in the response
+   * @param db - Pass a transaction client to run inside an existing transaction
    * @returns The user if found
    * @throws NotFoundException if user doesn't exist
    */
-  async findOne(id: number, includeTodos = false) {
-    const user = await this.prisma.user.findUnique({
-      where: { id },
-      include: includeTodos ? { todos: true } : undefined,
-    });
+  async findAccount(id: number, db: Prisma.TransactionClient = this.prisma) {
+    const user = await db.user.findFirst({ where: { id, deletedAt: null } });
 
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found`);
@@ -60,34 +180,226 @@ export class UserService {
 
   /**
    * Update an existing user
+   * @param actorId - The authenticated user making the change
    * @param id - The user's unique identifier
    * @param updateUserDto - The fields to update (partial update supported)
+   * @param ifMatch - The request's If-Match header, if any (see common/etag.ts)
    * @returns The updated user
+   * @throws ForbiddenException if the caller isn't the account owner
    * @throws NotFoundException if user doesn't exist
+   * @throws PreconditionFailedException if the user has changed since ifMatch
    */
-  async update(id: number, updateUserDto: UpdateUserDto) {
-    // First check if the user exists
-    await this.findOne(id);
+  async update(
+    actorId: number,
+    id: number,
+    updateUserDto: UpdateUserDto,
+    ifMatch?: string,
+  ) {
+    this.assertSelf(actorId, id);
+
+    return this.prisma.transaction(async (tx) => {
+      // Check and write in one transaction, so nobody can change the user
+      // in between
+      const existing = await this.findAccount(id, tx);
+      assertIfMatch(ifMatch, existing.version);
+
+      const user = await tx.user.update({
+        where: { id },
+        data: { ...updateUserDto, version: { increment: 1 } },
+      });
 
-    return this.prisma.user.update({
-      where: { id },
-      data: updateUserDto,
+      await this.recordChange(tx, actorId, 'update', existing, user);
+      return user;
     });
   }
 
   /**
-   * Delete a user by ID
-   * WARNING: Due to onDelete: Cascade, this will also delete all the user's todos
+   * Move a user to the trash (soft delete)
+   *
+   * The todos in the user's personal workspace go to the trash with them,
+   * stamped with the same deletedAt - just like the database cascade would
+   * delete them together. Todos that were already in the trash keep their
+   * own deletedAt, so restore() can tell the two groups apart.
+   * Todos they created in shared workspaces stay where they are: those
+   * belong to the workspace, and keep belonging to it when the account is
+   * purged (see TrashService.purgeExpired).
+   *
+   * @param actorId - The authenticated user making the change
    * @param id - The user's unique identifier
-   * @returns The deleted user
-   * @throws NotFoundException if user doesn't exist
+   * @param ifMatch - The request's If-Match header, if any
+   * @returns The trashed user
+   * @throws ForbiddenException if the caller isn't the account owner
+   * @throws Prisma P2025 (a 404, see PrismaExceptionFilter) if the user
+   *         doesn't exist or is already in the trash
+   * @throws PreconditionFailedException if the user has changed since ifMatch
    */
-  async remove(id: number) {
-    // First check if the user exists
-    await this.findOne(id);
+  async remove(actorId: number, id: number, ifMatch?: string) {
+    this.assertSelf(actorId, id);
+
+    const deletedAt = new Date();
+    return this.prisma.transaction(async (tx) => {
+      // The version can only be compared after reading the user
+      if (ifMatch !== undefined) {
+        const current = await this.findAccount(id, tx);
+        assertIfMatch(ifMatch, current.version);
+      }
+
+      // Otherwise no lookup first - the update only matches a user outside
+      // the trash
+      const user = await tx.user.update({
+        where: { id, deletedAt: null },
+        data: { deletedAt, version: { increment: 1 } },
+      });
+      // Only deletedAt (and the version) changed, so the row before is easy
+      // to rebuild
+      const existing = { ...user, deletedAt: null };
+      await this.recordChange(tx, actorId, 'delete', existing, user);
 
-    return this.prisma.user.delete({
-      where: { id },
+      await this.todoService.updateManyWithAudit(
+        tx,
+        actorId,
+        { ...PERSONAL_TODOS, userId: id, deletedAt: null },
+        { deletedAt },
+        'delete',
+      );
+
+      return user;
     });
   }
+
+  /**
+   * Bring a user back from the trash, together with the todos that were
+   * trashed with them
+   *
+   * While the account is in the trash, its access tokens only work on
+   * this endpoint (see @AllowTrashedUser()), and it can't log in.
+   *
+   * @param actorId - The authenticated user making the change
+   * @param id - The trashed user's unique identifier
+   * @returns The restored user
+   * @throws ForbiddenException if the caller isn't the account owner
+   * @throws NotFoundException if the user isn't in the trash
+   */
+  async restore(actorId: number, id: number) {
+    this.assertSelf(actorId, id);
+
+    const user = await this.prisma.user.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} is not in the trash`);
+    }
+
+    return this.prisma.transaction(async (tx) => {
+      const restored = await tx.user.update({
+        where: { id },
+        data: { deletedAt: null, version: { increment: 1 } },
+      });
+      await this.recordChange(tx, actorId, 'restore', user, restored);
+
+      await this.todoService.updateManyWithAudit(
+        tx,
+        actorId,
+        { ...PERSONAL_TODOS, userId: id, deletedAt: user.deletedAt },
+        { deletedAt: null },
+        'restore',
+      );
+
+      return restored;
+    });
+  }
+
+  /**
+   * Get one page of everything a user has changed, newest first
+   * @param actorId - The authenticated user asking
+   * @param id - The user whose activity is returned
+   * @param query - Pagination options
+   * @returns A Paginated envelope of audit events
+   * @throws ForbiddenException if the caller isn't the account owner
+   */
+  async activity(actorId: number, id: number, query: PaginationQueryDto) {
+    this.assertSelf(actorId, id);
+
+    return this.audit.findForActor(id, query, `/users/${id}/activity`);
+  }
+
+  /**
+   * The body of create(), run inside the caller's transaction
+   * (create() opens its own, import() shares one between all rows)
+   */
+  private async createWith(
+    db: Prisma.TransactionClient,
+    scope: WorkspaceScope,
+    createUserDto: CreateUserDto,
+  ) {
+    const user = await db.user.create({
+      data: {
+        ...createUserDto,
+        // Their own workspace, like every account, and the caller's
+        memberships: {
+          create: [
+            PERSONAL_WORKSPACE.create,
+            {
+              role: WorkspaceRole.MEMBER,
+              workspace: { connect: { id: scope.workspaceId } },
+            },
+          ],
+        },
+      },
+    });
+
+    await this.recordChange(db, scope.userId, 'create', null, user);
+    return user;
+  }
+
+  /**
+   * Accounts are only added to shared workspaces, like invitations
+   * @throws BadRequestException if the workspace is a personal one
+   */
+  private async assertSharedWorkspace(workspaceId: number) {
+    const workspace = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+    });
+    if (workspace.personal) {
+      throw new BadRequestException(
+        'Personal workspaces cannot be shared - create a workspace first',
+      );
+    }
+  }
+
+  /**
+   * Record a change to a user in the audit log, and queue the webhook
+   * deliveries it triggers
+   * @param db - The transaction the change is made in
+   */
+  private async recordChange(
+    db: Prisma.TransactionClient,
+    actorId: number,
+    action: AuditAction,
+    before: User | null,
+    after: User,
+  ) {
+    await this.audit.record(db, {
+      actorId,
+      entityType: 'User',
+      entityId: after.id,
+      action,
+      before,
+      after,
+    });
+    await this.webhooks.enqueue(db, [
+      { entityType: 'User', action, before, after },
+    ]);
+  }
+
+  /**
+   * Accounts (and per-account views like the agenda) belong to their owner
+   * @throws ForbiddenException if actorId and id differ
+   */
+  assertSelf(actorId: number, id: number) {
+    if (actorId !== id) {
+      throw new ForbiddenException('You can only access your own account');
+    }
+  }
 }
@@ -0,0 +1,74 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { IsOptionalNotNull } from '../../common/is-optional-not-null.decorator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WEBHOOK_EVENTS, WebhookEvent } from '../webhook.constants';
+import { IsWebhookUrl } from '../webhook-url.validator';
+
+/**
+ * CreateWebhookDto - Data Transfer Object for subscribing a URL to events
+ *
+ * Which URLs are allowed?
+ * - @IsUrl() checks the format; hosts without a TLD get through it so
+ *   that @IsWebhookUrl() can give the actual reason
+ * - @IsWebhookUrl() rejects localhost, private and link-local hosts
+ *   (the server would POST into its own network), and http:// URLs in
+ *   production - see WEBHOOK_URL_POLICY
+ * - A receiver on your own machine needs WEBHOOK_ALLOW_PRIVATE_HOSTS=true
+ *
+ * The secret is optional: leave it out and a random one is generated.
+ * Either way it is returned once, in the response to POST /webhooks.
+ */
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'Where the events are POSTed to',
+    example: 'https://example.com/hooks/todos',
+  })
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  @IsWebhookUrl()
+  @MaxLength(2000)
+  url: string;
+
+  @ApiProperty({
+    description: 'The events to send to the URL',
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+    example: ['todo.created', 'todo.completed'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description:
+      'Secret used to sign the payloads (at least 16 characters) - generated when left out',
+    example: 'a-long-random-shared-secret',
+  })
+  @IsString()
+  @MinLength(16)
+  @MaxLength(200)
+  @IsOptional()
+  secret?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether events are sent (false pauses the webhook)',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptionalNotNull()
+  active?: boolean;
+}
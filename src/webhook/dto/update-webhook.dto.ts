@@ -0,0 +1,13 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateWebhookDto } from './create-webhook.dto';
+
+/**
+ * UpdateWebhookDto - Data Transfer Object for changing a webhook
+ *
+ * Uses PartialType like UpdateTodoDto, so every field is optional.
+ * The secret can't be changed - create a new webhook to rotate it.
+ */
+export class UpdateWebhookDto extends PartialType(
+  OmitType(CreateWebhookDto, ['secret'] as const),
+  { skipNullProperties: false },
+) {}
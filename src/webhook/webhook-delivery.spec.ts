@@ -0,0 +1,119 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { retryDelay, sendWebhook, signPayload } from './webhook-delivery';
+
+/**
+ * A local HTTP server standing in for a webhook receiver
+ * It answers with the next status from `statuses` and remembers every request
+ */
+function startStub(statuses: number[]) {
+  const received: { headers: IncomingMessage['headers']; body: string }[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses[received.length - 1] ?? 200;
+      res.end();
+    });
+  });
+
+  return new Promise<{
+    server: Server;
+    url: string;
+    received: typeof received;
+  }>((resolve) =>
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/hook`, received });
+    }),
+  );
+}
+
+// The stub listens on 127.0.0.1, which is blocked by default
+const LOCAL = { requireHttps: false, allowPrivateHosts: true };
+
+const request = (url: string) => ({
+  url,
+  secret: 'test-secret',
+  event: 'todo.completed',
+  deliveryId: 42,
+  payload: { event: 'todo.completed', data: { id: 7, title: 'Pay rent' } },
+});
+
+describe('sendWebhook', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  afterEach(async () => {
+    if (stub.server.listening) {
+      await new Promise((resolve) => stub.server.close(resolve));
+    }
+  });
+
+  it('should POST a signed payload the receiver can verify', async () => {
+    stub = await startStub([204]);
+    const now = new Date('2026-10-19T12:00:00.000Z');
+
+    const result = await sendWebhook(request(stub.url), now, LOCAL);
+
+    expect(result).toEqual({ ok: true, status: 204 });
+    const [{ headers, body }] = stub.received;
+    expect(JSON.parse(body)).toEqual(request(stub.url).payload);
+    expect(headers['x-webhook-event']).toBe('todo.completed');
+    expect(headers['x-webhook-delivery']).toBe('42');
+    // The receiver recomputes the signature from the raw body and t=
+    const timestamp = now.getTime() / 1000;
+    expect(headers['x-webhook-signature']).toBe(
+      signPayload('test-secret', timestamp, body),
+    );
+  });
+
+  it('should report non-2xx responses as failed', async () => {
+    stub = await startStub([500]);
+
+    const result = await sendWebhook(request(stub.url), undefined, LOCAL);
+
+    expect(result).toEqual({
+      ok: false,
+      status: 500,
+      error: 'Receiver responded with 500',
+    });
+  });
+
+  it('should report unreachable receivers without throwing', async () => {
+    // Start a stub only to get a free port, then stop it again
+    stub = await startStub([]);
+    await new Promise((resolve) => stub.server.close(resolve));
+
+    const result = await sendWebhook(request(stub.url), undefined, LOCAL);
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBeUndefined();
+    expect(result.error).toMatch(/ECONNREFUSED/);
+  });
+
+  it('should not send to a private address', async () => {
+    stub = await startStub([204]);
+
+    const result = await sendWebhook(request(stub.url), undefined, {
+      requireHttps: false,
+      allowPrivateHosts: false,
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: 'URL not allowed: it points to a private address',
+    });
+    expect(stub.received).toHaveLength(0);
+  });
+});
+
+describe('retryDelay', () => {
+  it('should double after every attempt, up to one hour', () => {
+    expect(retryDelay(1)).toBe(10_000);
+    expect(retryDelay(2)).toBe(20_000);
+    expect(retryDelay(4)).toBe(80_000);
+    expect(retryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
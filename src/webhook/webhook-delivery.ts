@@ -0,0 +1,122 @@
+import { createHmac } from 'crypto';
+import { WebhookUrlPolicy, webhookTargetProblem } from './webhook-url';
+import {
+  DELIVERY_TIMEOUT_MS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  WEBHOOK_URL_POLICY,
+} from './webhook.constants';
+
+/**
+ * Sending one webhook request, and the rules around retrying it
+ *
+ * Kept apart from the database code so it can be tested against a plain
+ * local HTTP server (see webhook-delivery.spec.ts).
+ *
+ * What does a receiver get?
+ * - A POST with the JSON payload as the body
+ * - X-Webhook-Event: the event type, e.g. todo.completed
+ * - X-Webhook-Delivery: the delivery ID (changes on a manual redeliver)
+ * - X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *
+ * How does a receiver verify the signature?
+ * 1. Take t and the raw request body
+ * 2. Compute HMAC-SHA256 of "<t>.<body>" with the webhook's secret
+ * 3. Compare it with v1 (in constant time), and reject old values of t
+ *    so a captured request can't be replayed later
+ */
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  event: string;
+  deliveryId: number;
+  payload: unknown;
+}
+
+/** The outcome of one attempt - status is missing if no response came back */
+export interface DeliveryResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * The X-Webhook-Signature header value for a body
+ * @param timestamp - Unix time in seconds, also sent as t=
+ */
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * How long to wait before the next attempt (exponential backoff)
+ * 10s, 20s, 40s, 80s, ... capped at one hour
+ * @param attempts - The number of attempts made so far (1 or more)
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+}
+
+/**
+ * POST one signed payload
+ * Never throws - network errors and timeouts come back as { ok: false }
+ * Only 2xx responses count as delivered (redirects are not followed)
+ * Nothing is sent if the URL isn't allowed, or its host resolves to a
+ * private address (see webhookTargetProblem)
+ */
+export async function sendWebhook(
+  request: WebhookRequest,
+  now = new Date(),
+  policy: WebhookUrlPolicy = WEBHOOK_URL_POLICY,
+): Promise<DeliveryResult> {
+  const body = JSON.stringify(request.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  try {
+    const problem = await webhookTargetProblem(request.url, policy);
+    if (problem) {
+      return { ok: false, error: `URL not allowed: ${problem}` };
+    }
+
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'PrismaDemo-Webhooks/1.0',
+        'X-Webhook-Event': request.event,
+        'X-Webhook-Delivery': String(request.deliveryId),
+        'X-Webhook-Signature': signPayload(request.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    // The body isn't needed - discard it so the connection is released
+    await response.body?.cancel();
+
+    return response.ok
+      ? { ok: true, status: response.status }
+      : {
+          ok: false,
+          status: response.status,
+          error: `Receiver responded with ${response.status}`,
+        };
+  } catch (error) {
+    // fetch() hides the real reason (e.g. ECONNREFUSED) in error.cause
+    const cause = (error as Error).cause as Error | undefined;
+    return { ok: false, error: cause?.message ?? (error as Error).message };
+  }
+}
@@ -0,0 +1,89 @@
+import { lookup } from 'dns/promises';
+import {
+  isPrivateAddress,
+  webhookTargetProblem,
+  webhookUrlProblem,
+} from './webhook-url';
+
+// Host names resolve to whatever each test says, not through real DNS
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+const resolve = (...addresses: string[]) =>
+  (lookup as unknown as jest.Mock).mockResolvedValue(
+    addresses.map((address) => ({ address })),
+  );
+
+const production = { requireHttps: true, allowPrivateHosts: false };
+const development = { requireHttps: false, allowPrivateHosts: true };
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '0.0.0.0',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+  ])('should be true for %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '172.32.0.1', '2606:2800:220:1::'])(
+    'should be false for %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    },
+  );
+});
+
+describe('webhookUrlProblem', () => {
+  it('should allow a public https URL', () => {
+    expect(webhookUrlProblem('https://example.com/hook', production)).toBe(
+      null,
+    );
+  });
+
+  it('should require https in production', () => {
+    expect(webhookUrlProblem('http://example.com/hook', production)).toBe(
+      'it must use https',
+    );
+  });
+
+  it.each([
+    ['https://localhost:4000/hook', 'it points to this machine'],
+    ['https://api.localhost/hook', 'it points to this machine'],
+    ['https://127.0.0.1/hook', 'it points to a private address'],
+    ['https://[::1]/hook', 'it points to a private address'],
+    ['https://169.254.169.254/latest', 'it points to a private address'],
+    ['https://intranet/hook', 'its host must be a public domain name'],
+  ])('should reject %s', (url, reason) => {
+    expect(webhookUrlProblem(url, production)).toBe(reason);
+  });
+
+  it('should allow local receivers when private hosts are allowed', () => {
+    expect(webhookUrlProblem('http://localhost:4000/hook', development)).toBe(
+      null,
+    );
+  });
+});
+
+describe('webhookTargetProblem', () => {
+  it('should allow a host that resolves to public addresses', async () => {
+    resolve('93.184.216.34');
+
+    expect(
+      await webhookTargetProblem('https://example.com/hook', production),
+    ).toBe(null);
+  });
+
+  it('should reject a host that resolves to a private address', async () => {
+    resolve('93.184.216.34', '10.0.0.5');
+
+    expect(
+      await webhookTargetProblem('https://example.com/hook', production),
+    ).toBe('example.com resolves to a private address');
+  });
+});
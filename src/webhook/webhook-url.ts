@@ -0,0 +1,114 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Which webhook URLs are allowed
+ *
+ * Why check at all?
+ * - The server POSTs to whatever URL a user saves, from inside our network
+ * - Without a check, http://127.0.0.1:6379 or the cloud metadata service
+ *   (http://169.254.169.254) could be reached through a webhook (SSRF)
+ *
+ * Checked twice:
+ * - webhookUrlProblem() when the webhook is saved (see @IsWebhookUrl())
+ * - webhookTargetProblem() before every delivery - a public host name can
+ *   be pointed at a private address after it was saved
+ */
+export interface WebhookUrlPolicy {
+  /** Only https:// URLs (on in production) */
+  requireHttps: boolean;
+  /** Loopback, private and link-local hosts too, e.g. for a local receiver */
+  allowPrivateHosts: boolean;
+}
+
+/** Addresses that aren't on the public internet */
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4'); // "this" network
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4'); // private
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // carrier-grade NAT
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4'); // loopback
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4'); // private
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4'); // private
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6'); // unspecified
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6'); // loopback
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6'); // unique local
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6'); // link-local
+
+/**
+ * Whether an IP address is loopback, private or link-local
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) count as their IPv4 one
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * What is wrong with a URL a webhook is saved with, if anything
+ * Host names are only checked by their name here - what they resolve to
+ * is checked by webhookTargetProblem() when sending
+ * @returns The reason it isn't allowed, or null if it is
+ */
+export function webhookUrlProblem(
+  url: string,
+  policy: WebhookUrlPolicy,
+): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'it is not a valid URL';
+  }
+
+  if (policy.requireHttps && parsed.protocol !== 'https:') {
+    return 'it must use https';
+  }
+  if (policy.allowPrivateHosts) {
+    return null;
+  }
+
+  // new URL() keeps the brackets of an IPv6 host, e.g. [::1]
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIP(host)) {
+    return isPrivateAddress(host) ? 'it points to a private address' : null;
+  }
+  // A name without a dot is resolved on the local network (or /etc/hosts)
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'it points to this machine';
+  }
+  if (!host.includes('.')) {
+    return 'its host must be a public domain name';
+  }
+
+  return null;
+}
+
+/**
+ * What is wrong with sending to a URL right now, if anything
+ * Like webhookUrlProblem(), and every address the host currently
+ * resolves to must be public as well
+ * @returns The reason it isn't allowed, or null if it is
+ */
+export async function webhookTargetProblem(
+  url: string,
+  policy: WebhookUrlPolicy,
+): Promise<string | null> {
+  const problem = webhookUrlProblem(url, policy);
+  if (problem || policy.allowPrivateHosts) {
+    return problem;
+  }
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host }]
+    : await lookup(host, { all: true });
+
+  return addresses.some(({ address }) => isPrivateAddress(address))
+    ? `${host} resolves to a private address`
+    : null;
+}
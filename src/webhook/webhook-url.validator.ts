@@ -0,0 +1,46 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+import { WebhookUrlPolicy, webhookUrlProblem } from './webhook-url';
+import { WEBHOOK_URL_POLICY } from './webhook.constants';
+
+/**
+ * @IsWebhookUrl() - Checks that a URL may be used for a webhook
+ *
+ * A custom class-validator decorator like @IsRecurrenceRule():
+ * webhookUrlProblem does the real work, and its reason (e.g. "it points
+ * to a private address") is reported back to the client.
+ *
+ * @param policy - Defaults to WEBHOOK_URL_POLICY, the app's configuration
+ */
+export function IsWebhookUrl(
+  policy: WebhookUrlPolicy = WEBHOOK_URL_POLICY,
+  validationOptions?: ValidationOptions,
+) {
+  return (object: object, propertyName: string) => {
+    // The last reason, so defaultMessage can explain what was wrong
+    let reason = 'it is not allowed';
+
+    registerDecorator({
+      name: 'isWebhookUrl',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          if (typeof value !== 'string') {
+            reason = 'it must be a string';
+            return false;
+          }
+          const problem = webhookUrlProblem(value, policy);
+          if (problem) {
+            reason = problem;
+            return false;
+          }
+          return true;
+        },
+        defaultMessage() {
+          return `${propertyName} is not allowed: ${reason}`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,50 @@
+import type { WebhookUrlPolicy } from './webhook-url';
+
+/**
+ * The events a webhook can subscribe to
+ * - todo.completed is sent in addition to todo.updated when a todo is checked off
+ * - deleted/restored mean moved to and back from the trash
+ */
+export const WEBHOOK_EVENTS = [
+  'todo.created',
+  'todo.updated',
+  'todo.completed',
+  'todo.deleted',
+  'todo.restored',
+  'user.updated',
+  'user.deleted',
+  'user.restored',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * How often the dispatcher looks for due deliveries, in milliseconds
+ * Set WEBHOOK_POLL_INTERVAL_MS to change it, or to 0 to turn delivery off
+ * (deliveries are still recorded and go out once it is turned back on)
+ */
+export const WEBHOOK_POLL_INTERVAL_MS = Number(
+  process.env.WEBHOOK_POLL_INTERVAL_MS ?? 5000,
+);
+
+/**
+ * Which URLs webhooks may point to (see webhook-url.ts)
+ * - https only when NODE_ENV is production
+ * - No loopback, private or link-local hosts - set
+ *   WEBHOOK_ALLOW_PRIVATE_HOSTS=true to try them with a local receiver
+ */
+export const WEBHOOK_URL_POLICY: WebhookUrlPolicy = {
+  requireHttps: process.env.NODE_ENV === 'production',
+  allowPrivateHosts: process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true',
+};
+
+/** Attempts before a delivery is given up on and marked FAILED */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** How long the receiver has to answer one attempt */
+export const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** The wait after the first failed attempt - it doubles after every failure */
+export const RETRY_BASE_DELAY_MS = 10_000;
+
+/** The longest wait between two attempts */
+export const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
@@ -0,0 +1,159 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WebhookService } from './webhook.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { Paginated } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+
+/**
+ * WebhookController - HTTP request handler for webhook subscriptions
+ *
+ * Follows the same pattern as ListController:
+ * - JwtAuthGuard on every route, the caller only sees their own webhooks
+ * - A webhook receives events about its owner's account, and about the
+ *   todos of the workspaces they are a member of or shared with them
+ */
+@ApiTags('webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('webhooks')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * POST /webhooks - Subscribe a URL to events
+   *
+   * The response contains the secret used to sign the deliveries.
+   * It is never shown again, so store it with the receiver.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a webhook' })
+  @ApiResponse({
+    status: 201,
+    description: 'The webhook, including its signing secret',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  create(
+    @CurrentUser() user: AuthUser,
+    @Body() createWebhookDto: CreateWebhookDto,
+  ) {
+    return this.webhookService.create(user.id, createWebhookDto);
+  }
+
+  /**
+   * GET /webhooks - Get all of the caller's webhooks
+   */
+  @Get()
+  @ApiOperation({ summary: "Get all of the caller's webhooks" })
+  @ApiResponse({ status: 200, description: "List of the caller's webhooks" })
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.webhookService.findAll(user.id);
+  }
+
+  /**
+   * GET /webhooks/:id - Get a single webhook by ID
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook by ID' })
+  @ApiParam({ name: 'id', description: 'The webhook ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'The webhook' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  findOne(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.webhookService.findOne(user.id, id);
+  }
+
+  /**
+   * GET /webhooks/:id/deliveries - The delivery log, newest first
+   *
+   * Every delivery shows its status (PENDING, DELIVERED or FAILED), the
+   * number of attempts and the outcome of the latest one.
+   */
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: "Get a page of a webhook's deliveries" })
+  @ApiParam({ name: 'id', description: 'The webhook ID', example: 1 })
+  @ApiOkResponse({ description: 'A page of deliveries', type: Paginated })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  findDeliveries(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.webhookService.findDeliveries(user.id, id, query);
+  }
+
+  /**
+   * POST /webhooks/:id/deliveries/:deliveryId/redeliver - Send a delivery again
+   *
+   * Queues a copy of the delivery; the dispatcher sends it within a few
+   * seconds. Works for deliveries in any status.
+   */
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(202)
+  @ApiOperation({ summary: 'Queue a delivery to be sent again' })
+  @ApiParam({ name: 'id', description: 'The webhook ID', example: 1 })
+  @ApiParam({ name: 'deliveryId', description: 'The delivery ID', example: 1 })
+  @ApiResponse({ status: 202, description: 'The new, pending delivery' })
+  @ApiResponse({ status: 404, description: 'Webhook or delivery not found' })
+  redeliver(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('deliveryId', ParseIntPipe) deliveryId: number,
+  ) {
+    return this.webhookService.redeliver(user.id, id, deliveryId);
+  }
+
+  /**
+   * PATCH /webhooks/:id - Change the URL or events, or pause the webhook
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a webhook' })
+  @ApiParam({ name: 'id', description: 'The webhook ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'Webhook updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+  ) {
+    return this.webhookService.update(user.id, id, updateWebhookDto);
+  }
+
+  /**
+   * DELETE /webhooks/:id - Delete a webhook and its delivery log
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a webhook' })
+  @ApiParam({ name: 'id', description: 'The webhook ID', example: 1 })
+  @ApiResponse({ status: 200, description: 'Webhook deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  remove(@CurrentUser() user: AuthUser, @Param('id', ParseIntPipe) id: number) {
+    return this.webhookService.remove(user.id, id);
+  }
+}
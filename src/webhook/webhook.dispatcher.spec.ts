@@ -0,0 +1,160 @@
+import { DeliveryStatus } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestUser,
+} from '../../test/test-database';
+import { PrismaService } from '../prisma/prisma.service';
+import { sendWebhook } from './webhook-delivery';
+import { WebhookDispatcher } from './webhook.dispatcher';
+import { MAX_DELIVERY_ATTEMPTS } from './webhook.constants';
+
+// Nothing is sent over the network - each test says how the receiver answers
+jest.mock('./webhook-delivery', () => ({
+  ...jest.requireActual<object>('./webhook-delivery'),
+  sendWebhook: jest.fn(),
+}));
+const send = jest.mocked(sendWebhook);
+
+describe('WebhookDispatcher', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    dispatcher = new WebhookDispatcher(prisma);
+    send.mockReset();
+  });
+
+  afterEach(() => db.close());
+
+  /** A pending delivery of a todo event to a webhook of the user */
+  const queue = async (
+    userId: number,
+    todo: { id: number; workspaceId: number },
+    attempts = 0,
+  ) => {
+    const webhook = await prisma.webhook.create({
+      data: {
+        url: 'https://example.com/hook',
+        events: ['todo.updated'],
+        secret: 'whsec_test',
+        userId,
+      },
+    });
+    return prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id,
+        event: 'todo.updated',
+        payload: { id: 'evt_1', data: todo },
+        attempts,
+      },
+    });
+  };
+
+  it('should send the due deliveries and log the outcome', async () => {
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    const delivery = await queue(user.id, { id: 1, workspaceId });
+    send.mockResolvedValue({ ok: true, status: 204 });
+
+    expect(await dispatcher.dispatchDue()).toBe(1);
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://example.com/hook',
+        secret: 'whsec_test',
+        deliveryId: delivery.id,
+      }),
+    );
+    expect(
+      await prisma.webhookDelivery.findUnique({ where: { id: delivery.id } }),
+    ).toMatchObject({
+      status: DeliveryStatus.DELIVERED,
+      attempts: 1,
+      responseStatus: 204,
+    });
+  });
+
+  it('should retry a failed delivery later', async () => {
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    const delivery = await queue(user.id, { id: 1, workspaceId });
+    send.mockResolvedValue({ ok: false, status: 500, error: 'Boom' });
+    const now = new Date();
+
+    await dispatcher.dispatchDue(now);
+
+    const retried = await prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: delivery.id },
+    });
+    expect(retried).toMatchObject({
+      status: DeliveryStatus.PENDING,
+      attempts: 1,
+      error: 'Boom',
+    });
+    expect(retried.nextAttemptAt.getTime()).toBeGreaterThan(now.getTime());
+    // Not due again yet
+    expect(await dispatcher.dispatchDue(now)).toBe(0);
+  });
+
+  it('should give up after the last attempt', async () => {
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    const delivery = await queue(
+      user.id,
+      { id: 1, workspaceId },
+      MAX_DELIVERY_ATTEMPTS - 1,
+    );
+    send.mockResolvedValue({ ok: false, error: 'ECONNREFUSED' });
+
+    await dispatcher.dispatchDue();
+
+    expect(
+      await prisma.webhookDelivery.findUnique({ where: { id: delivery.id } }),
+    ).toMatchObject({
+      status: DeliveryStatus.FAILED,
+      attempts: MAX_DELIVERY_ATTEMPTS,
+    });
+  });
+
+  it('should leave deliveries of paused webhooks pending', async () => {
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    const delivery = await queue(user.id, { id: 1, workspaceId });
+    await prisma.webhook.update({
+      where: { id: delivery.webhookId },
+      data: { active: false },
+    });
+
+    expect(await dispatcher.dispatchDue()).toBe(0);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should drop todo events once the owner left the workspace', async () => {
+    const { workspaceId } = await createTestUser(prisma, 'Ann');
+    const { user: former } = await createTestUser(prisma, 'Ben');
+    const delivery = await queue(former.id, { id: 1, workspaceId });
+
+    await dispatcher.dispatchDue();
+
+    expect(send).not.toHaveBeenCalled();
+    expect(
+      await prisma.webhookDelivery.findUnique({ where: { id: delivery.id } }),
+    ).toMatchObject({
+      status: DeliveryStatus.FAILED,
+      attempts: 0,
+      error: 'The webhook owner can no longer read this todo',
+    });
+  });
+
+  it('should only send a delivery once when it was claimed elsewhere', async () => {
+    const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+    await queue(user.id, { id: 1, workspaceId });
+    send.mockResolvedValue({ ok: true, status: 200 });
+
+    // A second instance polling the same database at the same time
+    const other = new WebhookDispatcher(prisma);
+    await Promise.all([dispatcher.dispatchDue(), other.dispatchDue()]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { DeliveryStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DeliveryResult, retryDelay, sendWebhook } from './webhook-delivery';
+import {
+  DELIVERY_TIMEOUT_MS,
+  MAX_DELIVERY_ATTEMPTS,
+  WEBHOOK_POLL_INTERVAL_MS,
+} from './webhook.constants';
+
+/** Most deliveries sent per poll - the rest wait for the next one */
+const DISPATCH_BATCH_SIZE = 20;
+
+/**
+ * WebhookDispatcher - Sends the pending webhook deliveries in the background
+ *
+ * How does it run in the background?
+ * - OnApplicationBootstrap starts a timer once the app is ready; every
+ *   WEBHOOK_POLL_INTERVAL_MS it sends the deliveries that are due
+ * - OnApplicationShutdown stops the timer again
+ * - A poll is skipped while the previous one is still sending
+ *
+ * What happens when a delivery fails?
+ * - attempts goes up and nextAttemptAt moves back by retryDelay()
+ *   (10s, 20s, 40s, ... up to an hour)
+ * - After MAX_DELIVERY_ATTEMPTS it is marked FAILED and left alone, until
+ *   someone redelivers it by hand
+ *
+ * What if the receiver lost access in the meantime?
+ * - A todo event is only sent while the webhook's owner is still a member
+ *   of the todo's workspace (or the todo is still shared with them) -
+ *   otherwise the delivery is marked FAILED without sending it
+ *
+ * What if two app instances share the database?
+ * - Before sending, a delivery is "claimed" by moving its nextAttemptAt
+ *   forward with a conditional update; only the instance whose update
+ *   matched the row sends it
+ */
+@Injectable()
+export class WebhookDispatcher
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  onApplicationBootstrap() {
+    if (WEBHOOK_POLL_INTERVAL_MS <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.dispatchDue().catch((error: Error) =>
+        this.logger.error(`Webhook dispatch failed: ${error.message}`),
+      );
+    }, WEBHOOK_POLL_INTERVAL_MS);
+    // Don't keep the process alive just for this timer
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Send every delivery that is due (up to DISPATCH_BATCH_SIZE)
+   * Deliveries of paused webhooks are left pending until they are resumed
+   * @returns How many deliveries were attempted
+   */
+  async dispatchDue(now = new Date()) {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: {
+          status: DeliveryStatus.PENDING,
+          nextAttemptAt: { lte: now },
+          webhook: { active: true },
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: DISPATCH_BATCH_SIZE,
+        include: { webhook: { omit: { secret: false } } },
+      });
+
+      let attempted = 0;
+      for (const delivery of due) {
+        // Claim the delivery: if another instance got there first,
+        // nextAttemptAt no longer matches and nothing is updated
+        const claimed = await this.prisma.webhookDelivery.updateMany({
+          where: {
+            id: delivery.id,
+            status: DeliveryStatus.PENDING,
+            nextAttemptAt: delivery.nextAttemptAt,
+          },
+          data: {
+            nextAttemptAt: new Date(now.getTime() + 2 * DELIVERY_TIMEOUT_MS),
+          },
+        });
+        if (claimed.count === 0) continue;
+
+        if (!(await this.canReceive(delivery.webhook.userId, delivery))) {
+          await this.prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: {
+              status: DeliveryStatus.FAILED,
+              lastAttemptAt: now,
+              error: 'The webhook owner can no longer read this todo',
+            },
+          });
+          continue;
+        }
+
+        const result = await sendWebhook({
+          url: delivery.webhook.url,
+          secret: delivery.webhook.secret,
+          event: delivery.event,
+          deliveryId: delivery.id,
+          payload: delivery.payload,
+        });
+        await this.recordAttempt(delivery.id, delivery.attempts + 1, result);
+        attempted++;
+      }
+
+      return attempted;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Whether the webhook's owner may still get this event
+   * Todo events need them to be a member of the todo's workspace, or the
+   * todo to be shared with them; user events only ever go to the user
+   */
+  private async canReceive(
+    userId: number,
+    delivery: { event: string; payload: Prisma.JsonValue },
+  ) {
+    if (!delivery.event.startsWith('todo.')) {
+      return true;
+    }
+
+    const { data } = delivery.payload as {
+      data: { id: number; workspaceId: number };
+    };
+    const [members, shares] = await Promise.all([
+      this.prisma.workspaceMember.count({
+        where: { workspaceId: data.workspaceId, userId },
+      }),
+      this.prisma.todoShare.count({ where: { todoId: data.id, userId } }),
+    ]);
+
+    return members + shares > 0;
+  }
+
+  /**
+   * Store the outcome of an attempt and schedule the next one if needed
+   */
+  private async recordAttempt(
+    id: number,
+    attempts: number,
+    result: DeliveryResult,
+  ) {
+    const now = new Date();
+    const gaveUp = !result.ok && attempts >= MAX_DELIVERY_ATTEMPTS;
+
+    if (!result.ok) {
+      this.logger.warn(
+        `Webhook delivery ${id} failed (attempt ${attempts}): ${result.error}`,
+      );
+    }
+
+    await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        attempts,
+        lastAttemptAt: now,
+        responseStatus: result.status ?? null,
+        error: result.error ?? null,
+        status: result.ok
+          ? DeliveryStatus.DELIVERED
+          : gaveUp
+            ? DeliveryStatus.FAILED
+            : DeliveryStatus.PENDING,
+        deliveredAt: result.ok ? now : null,
+        nextAttemptAt:
+          result.ok || gaveUp
+            ? now
+            : new Date(now.getTime() + retryDelay(attempts)),
+      },
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { WebhookDispatcher } from './webhook.dispatcher';
+import { WebhookController } from './webhook.controller';
+
+/**
+ * WebhookModule - Webhook subscriptions and their background delivery
+ *
+ * - WebhookService manages the subscriptions and queues deliveries
+ * - WebhookDispatcher sends the queued deliveries in the background
+ *
+ * Exports WebhookService so TodoModule and UserModule can queue events
+ * in the same transaction as their changes.
+ * PrismaService is available globally, so no need to import PrismaModule
+ */
+@Module({
+  controllers: [WebhookController],
+  providers: [WebhookService, WebhookDispatcher],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
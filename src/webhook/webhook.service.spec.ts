@@ -0,0 +1,159 @@
+import { DeliveryStatus, WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestUser,
+} from '../../test/test-database';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let webhooks: WebhookService;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    webhooks = new WebhookService(prisma);
+  });
+
+  afterEach(() => db.close());
+
+  /** A webhook of the user subscribed to every todo and user event */
+  const subscribe = (userId: number) =>
+    webhooks.create(userId, {
+      url: 'https://example.com/hook',
+      events: ['todo.created', 'todo.updated', 'user.updated'],
+    });
+
+  /** The users who got a delivery, by the webhooks' owners */
+  const recipients = async () => {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      include: { webhook: true },
+      orderBy: { id: 'asc' },
+    });
+    return deliveries.map((delivery) => delivery.webhook.userId);
+  };
+
+  describe('enqueue', () => {
+    it("should notify the current members of the todo's workspace", async () => {
+      const { user: owner, workspaceId } = await createTestUser(prisma, 'Ann');
+      const { user: member } = await createTestUser(prisma, 'Ben');
+      const { user: outsider } = await createTestUser(prisma, 'Cid');
+      await prisma.workspaceMember.create({
+        data: { workspaceId, userId: member.id, role: WorkspaceRole.VIEWER },
+      });
+      for (const user of [owner, member, outsider]) await subscribe(user.id);
+      const todo = await prisma.todo.create({
+        data: { title: 'Plan', userId: outsider.id, workspaceId },
+      });
+
+      await webhooks.enqueue(prisma, [
+        { entityType: 'Todo', action: 'create', before: null, after: todo },
+      ]);
+
+      expect(await recipients()).toEqual([owner.id, member.id]);
+    });
+
+    it('should stop notifying a creator who left the workspace', async () => {
+      const { workspaceId } = await createTestUser(prisma, 'Ann');
+      const { user: creator } = await createTestUser(prisma, 'Ben');
+      await subscribe(creator.id);
+      const todo = await prisma.todo.create({
+        data: { title: 'Plan', userId: creator.id, workspaceId },
+      });
+
+      await webhooks.enqueue(prisma, [
+        { entityType: 'Todo', action: 'create', before: null, after: todo },
+      ]);
+
+      expect(await recipients()).toEqual([]);
+    });
+
+    it('should notify the users the todo is shared with', async () => {
+      const { user: owner, workspaceId } = await createTestUser(prisma, 'Ann');
+      const { user: guest } = await createTestUser(prisma, 'Ben');
+      await subscribe(guest.id);
+      const todo = await prisma.todo.create({
+        data: {
+          title: 'Plan',
+          userId: owner.id,
+          workspaceId,
+          shares: { create: { userId: guest.id } },
+        },
+      });
+
+      const after = { ...todo, title: 'New plan' };
+      await webhooks.enqueue(prisma, [
+        { entityType: 'Todo', action: 'update', before: todo, after },
+      ]);
+
+      expect(await recipients()).toEqual([guest.id]);
+    });
+
+    it('should send user events to the user only', async () => {
+      const { user } = await createTestUser(prisma, 'Ann');
+      const { user: other } = await createTestUser(prisma, 'Ben');
+      await subscribe(user.id);
+      await subscribe(other.id);
+
+      const after = { ...user, name: 'Anne' };
+      await webhooks.enqueue(prisma, [
+        { entityType: 'User', action: 'update', before: user, after },
+      ]);
+
+      const deliveries = await prisma.webhookDelivery.findMany();
+      expect(deliveries.map((delivery) => delivery.event)).toEqual([
+        'user.updated',
+      ]);
+      expect(await recipients()).toEqual([user.id]);
+    });
+
+    it('should skip updates that changed nothing', async () => {
+      const { user, workspaceId } = await createTestUser(prisma, 'Ann');
+      await subscribe(user.id);
+      const todo = await prisma.todo.create({
+        data: { title: 'Plan', userId: user.id, workspaceId },
+      });
+
+      await webhooks.enqueue(prisma, [
+        { entityType: 'Todo', action: 'update', before: todo, after: todo },
+      ]);
+
+      expect(await prisma.webhookDelivery.count()).toBe(0);
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should queue a new delivery with the same payload', async () => {
+      const { user } = await createTestUser(prisma, 'Ann');
+      const webhook = await subscribe(user.id);
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          webhookId: webhook.id,
+          event: 'user.updated',
+          payload: { id: 'evt_1' },
+          status: DeliveryStatus.FAILED,
+        },
+      });
+
+      const copy = await webhooks.redeliver(user.id, webhook.id, delivery.id);
+
+      expect(copy).toMatchObject({
+        status: DeliveryStatus.PENDING,
+        payload: { id: 'evt_1' },
+      });
+    });
+
+    it("should not redeliver another user's deliveries", async () => {
+      const { user } = await createTestUser(prisma, 'Ann');
+      const { user: other } = await createTestUser(prisma, 'Ben');
+      const webhook = await subscribe(user.id);
+
+      await expect(webhooks.redeliver(other.id, webhook.id, 1)).rejects.toThrow(
+        `Webhook with ID ${webhook.id} not found`,
+      );
+    });
+  });
+});
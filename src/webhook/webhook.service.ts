@@ -0,0 +1,298 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomBytes, randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { paginate } from '../common/pagination';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { AuditAction } from '../audit/audit.service';
+import { diffSnapshots, toSnapshot } from '../audit/audit-diff';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WEBHOOK_EVENTS, WebhookEvent } from './webhook.constants';
+
+/**
+ * One change that may trigger webhooks - the same facts the audit log gets
+ * - after identifies whose webhooks are notified (see enqueue())
+ * - before is null for a create
+ */
+export type WebhookChange = {
+  action: AuditAction;
+  before: object | null;
+} & (
+  | { entityType: 'Todo'; after: { id: number; workspaceId: number } }
+  | { entityType: 'User'; after: { id: number } }
+);
+
+/** The event name for each audit action, e.g. delete -> todo.deleted */
+const ACTION_EVENT_SUFFIX: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored',
+};
+
+/**
+ * WebhookService - Webhook subscriptions, the outbox and the delivery log
+ *
+ * How does an event get from a change to a receiver?
+ * 1. TodoService/UserService call enqueue() with the transaction that makes
+ *    the change - one WebhookDelivery row per subscribed webhook is
+ *    inserted and committed (or rolled back) together with the change
+ * 2. WebhookDispatcher picks up the pending rows in the background and
+ *    POSTs them, retrying failures with exponential backoff - and drops
+ *    todo events whose receiver can no longer read the todo
+ * 3. The rows stay behind as the delivery log (GET /webhooks/:id/deliveries)
+ *
+ * This is the "transactional outbox" pattern: sending the request directly
+ * from TodoService could announce changes that are then rolled back, or
+ * lose events when the receiver is down.
+ */
+@Injectable()
+export class WebhookService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Subscribe a URL to events about the todos the caller can read and
+   * their account
+   * @param userId - The authenticated user who will own the webhook
+   * @param createWebhookDto - The URL, events and (optional) secret
+   * @returns The webhook including its secret - the only time it's shown
+   */
+  async create(userId: number, createWebhookDto: CreateWebhookDto) {
+    const secret =
+      createWebhookDto.secret ?? `whsec_${randomBytes(24).toString('hex')}`;
+
+    return this.prisma.webhook.create({
+      data: { ...createWebhookDto, secret, userId },
+      // Opt back in to the field PrismaService leaves out by default
+      omit: { secret: false },
+    });
+  }
+
+  /**
+   * Get all of the caller's webhooks (without their secrets)
+   */
+  async findAll(userId: number) {
+    return this.prisma.webhook.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * Get one of the caller's webhooks
+   * @throws NotFoundException if it doesn't exist or belongs to another user
+   */
+  async findOne(userId: number, id: number) {
+    const webhook = await this.prisma.webhook.findFirst({
+      where: { id, userId },
+    });
+
+    if (!webhook) {
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+
+    return webhook;
+  }
+
+  /**
+   * Change the URL, the events or pause/resume one of the caller's webhooks
+   * @throws Prisma P2025 (a 404, see PrismaExceptionFilter) if it doesn't
+   *         exist or belongs to another user
+   */
+  async update(userId: number, id: number, updateWebhookDto: UpdateWebhookDto) {
+    return this.prisma.webhook.update({
+      where: { id, userId },
+      data: updateWebhookDto,
+    });
+  }
+
+  /**
+   * Delete one of the caller's webhooks together with its delivery log
+   * @returns The deleted webhook
+   * @throws Prisma P2025 (a 404) if it doesn't exist or belongs to another user
+   */
+  async remove(userId: number, id: number) {
+    return this.prisma.webhook.delete({ where: { id, userId } });
+  }
+
+  /**
+   * Get one page of a webhook's deliveries, newest first
+   * @throws NotFoundException if it doesn't exist or belongs to another user
+   */
+  async findDeliveries(userId: number, id: number, query: PaginationQueryDto) {
+    await this.findOne(userId, id);
+
+    const where = { webhookId: id };
+    const [deliveries, total] = await this.prisma.$transaction([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: query.offset,
+        take: query.limit,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return paginate(deliveries, total, query, `/webhooks/${id}/deliveries`);
+  }
+
+  /**
+   * Send a delivery again, e.g. after fixing the receiver
+   *
+   * A new delivery with the same payload is queued, so the log keeps the
+   * original attempts. The payload's id stays the same, which lets
+   * receivers recognise events they have already processed.
+   *
+   * @returns The new (pending) delivery
+   * @throws NotFoundException if the webhook or delivery doesn't exist
+   */
+  async redeliver(userId: number, id: number, deliveryId: number) {
+    await this.findOne(userId, id);
+
+    const delivery = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId: id },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Delivery with ID ${deliveryId} not found`);
+    }
+
+    return this.prisma.webhookDelivery.create({
+      data: {
+        webhookId: id,
+        event: delivery.event,
+        payload: delivery.payload as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Queue deliveries for the webhooks subscribed to these changes
+   * Must be called with the transaction that makes the changes (see above)
+   *
+   * Whose webhooks get an event?
+   * - A user event: the user's own
+   * - A todo event: those of everyone who can read the todo right now -
+   *   the current members of its workspace and the users it is shared
+   *   with. Not its creator as such: someone who left the workspace no
+   *   longer hears about its todos.
+   *
+   * @param db - The transaction the changes are made in
+   */
+  async enqueue(db: Prisma.TransactionClient, changes: WebhookChange[]) {
+    const events = changes.flatMap((change) => this.toEvents(change));
+    if (events.length === 0) {
+      return;
+    }
+
+    const readers = await this.findTodoReaders(
+      db,
+      changes.flatMap((change) =>
+        change.entityType === 'Todo' ? [change.after] : [],
+      ),
+    );
+    const recipients = events.map(({ entityType, entityId }) =>
+      entityType === 'Todo' ? (readers.get(entityId) ?? []) : [entityId],
+    );
+
+    const webhooks = await db.webhook.findMany({
+      where: { userId: { in: [...new Set(recipients.flat())] }, active: true },
+      select: { id: true, userId: true, events: true },
+    });
+
+    const data = events.flatMap(({ event, payload }, i) =>
+      webhooks
+        .filter(
+          (webhook) =>
+            recipients[i].includes(webhook.userId) &&
+            (webhook.events as string[]).includes(event),
+        )
+        .map((webhook) => ({ webhookId: webhook.id, event, payload })),
+    );
+
+    if (data.length > 0) {
+      await db.webhookDelivery.createMany({ data });
+    }
+  }
+
+  /**
+   * Who can read each of these todos: the members of its workspace and the
+   * users it is shared with
+   * @returns The user IDs by todo ID
+   */
+  private async findTodoReaders(
+    db: Prisma.TransactionClient,
+    todos: { id: number; workspaceId: number }[],
+  ) {
+    const [members, shares] = await Promise.all([
+      db.workspaceMember.findMany({
+        where: {
+          workspaceId: {
+            in: [...new Set(todos.map((todo) => todo.workspaceId))],
+          },
+        },
+        select: { workspaceId: true, userId: true },
+      }),
+      db.todoShare.findMany({
+        where: { todoId: { in: todos.map((todo) => todo.id) } },
+        select: { todoId: true, userId: true },
+      }),
+    ]);
+
+    return new Map(
+      todos.map((todo) => [
+        todo.id,
+        [
+          ...members
+            .filter((member) => member.workspaceId === todo.workspaceId)
+            .map((member) => member.userId),
+          ...shares
+            .filter((share) => share.todoId === todo.id)
+            .map((share) => share.userId),
+        ],
+      ]),
+    );
+  }
+
+  /**
+   * Turn one change into its events and their payloads
+   * An update that changed nothing sends nothing; checking a todo off sends
+   * todo.completed in addition to todo.updated
+   */
+  private toEvents(change: WebhookChange) {
+    const before = change.before ? toSnapshot(change.before) : null;
+    const data = toSnapshot(change.after);
+    const changes = diffSnapshots(before, data);
+
+    if (change.action === 'update' && Object.keys(changes).length === 0) {
+      return [];
+    }
+
+    const prefix = change.entityType === 'Todo' ? 'todo' : 'user';
+    const names = [`${prefix}.${ACTION_EVENT_SUFFIX[change.action]}`];
+    if (change.entityType === 'Todo' && changes.completed?.to === true) {
+      names.push('todo.completed');
+    }
+
+    const occurredAt = new Date().toISOString();
+
+    return names
+      .filter((name): name is WebhookEvent =>
+        (WEBHOOK_EVENTS as readonly string[]).includes(name),
+      )
+      .map((event) => ({
+        entityType: change.entityType,
+        entityId: change.after.id,
+        event,
+        // The body the receiver gets - id identifies the event itself
+        payload: {
+          id: randomUUID(),
+          event,
+          occurredAt,
+          data,
+          changes: change.action === 'update' ? changes : undefined,
+        },
+      }));
+  }
+}
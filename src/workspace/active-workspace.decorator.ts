@@ -0,0 +1,21 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { getRequest } from '../common/get-request';
+import { WorkspaceScope } from './workspace-scope.interface';
+
+/**
+ * @ActiveWorkspace() - Injects the caller and their active workspace
+ *
+ * Only works on routes (and GraphQL resolvers) protected by WorkspaceGuard,
+ * which sets request.workspace
+ *
+ * Example:
+ *   @Get()
+ *   findAll(@ActiveWorkspace() scope: WorkspaceScope) { ... }
+ */
+export const ActiveWorkspace = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): WorkspaceScope => {
+    return getRequest<Request & { workspace: WorkspaceScope }>(context)
+      .workspace;
+  },
+);
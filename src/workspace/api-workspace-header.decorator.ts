@@ -0,0 +1,16 @@
+import { ApiHeader } from '@nestjs/swagger';
+import { WORKSPACE_HEADER } from './workspace.constants';
+
+/**
+ * @ApiWorkspaceHeader() - Documents the X-Workspace-Id header in Swagger UI
+ *
+ * Put it on controllers protected by WorkspaceGuard, so the header shows
+ * up as an optional field on every one of their routes
+ */
+export const ApiWorkspaceHeader = () =>
+  ApiHeader({
+    name: WORKSPACE_HEADER,
+    required: false,
+    description:
+      "The workspace to work in (defaults to the caller's personal workspace)",
+  });
@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * AcceptInviteDto - Data Transfer Object for accepting an invitation
+ *
+ * The token travels in the body rather than the URL, so it doesn't end
+ * up in server logs.
+ */
+export class AcceptInviteDto {
+  @ApiProperty({
+    description: 'The token returned when the invitation was created',
+    example: 'k3J9x...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
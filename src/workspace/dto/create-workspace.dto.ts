@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * CreateWorkspaceDto - Data Transfer Object for creating a workspace
+ *
+ * The caller becomes its first member, with the OWNER role.
+ */
+export class CreateWorkspaceDto {
+  @ApiProperty({
+    description: 'The name of the workspace',
+    example: 'Acme team',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
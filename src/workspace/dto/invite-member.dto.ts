@@ -0,0 +1,28 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { IsOptionalNotNull } from '../../common/is-optional-not-null.decorator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkspaceRole } from '@prisma/client';
+
+/**
+ * InviteMemberDto - Data Transfer Object for inviting someone to a workspace
+ *
+ * The invitation can only be accepted by an account with this email.
+ */
+export class InviteMemberDto {
+  @ApiProperty({
+    description: 'Email address of the person to invite',
+    example: 'jane@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiPropertyOptional({
+    description:
+      'The role they get when they accept - admins can invite members and viewers, owners anyone',
+    enum: WorkspaceRole,
+    default: WorkspaceRole.MEMBER,
+  })
+  @IsEnum(WorkspaceRole)
+  @IsOptionalNotNull()
+  role: WorkspaceRole = WorkspaceRole.MEMBER;
+}
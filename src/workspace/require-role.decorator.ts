@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+
+export const REQUIRED_ROLE = 'requiredWorkspaceRole';
+
+/**
+ * @RequireRole() - The lowest workspace role that may use a route
+ *
+ * Routes without it fall back to WorkspaceGuard's default: reading (GET,
+ * GraphQL queries) needs VIEWER, changing anything needs MEMBER.
+ *
+ * Example:
+ *   @Post(':workspaceId/invites')
+ *   @RequireRole(WorkspaceRole.ADMIN)
+ *   invite(...) { ... }
+ */
+export const RequireRole = (role: WorkspaceRole) =>
+  SetMetadata(REQUIRED_ROLE, role);
@@ -0,0 +1,35 @@
+import { canManageRole, hasRole } from './workspace-roles';
+
+describe('workspace roles', () => {
+  describe('hasRole', () => {
+    it('should accept the required role and the ones above it', () => {
+      expect(hasRole('MEMBER', 'MEMBER')).toBe(true);
+      expect(hasRole('ADMIN', 'MEMBER')).toBe(true);
+      expect(hasRole('OWNER', 'VIEWER')).toBe(true);
+    });
+
+    it('should reject the roles below it', () => {
+      expect(hasRole('VIEWER', 'MEMBER')).toBe(false);
+      expect(hasRole('ADMIN', 'OWNER')).toBe(false);
+    });
+  });
+
+  describe('canManageRole', () => {
+    it('should let owners manage every role', () => {
+      expect(canManageRole('OWNER', 'OWNER')).toBe(true);
+      expect(canManageRole('OWNER', 'VIEWER')).toBe(true);
+    });
+
+    it('should let admins manage members and viewers only', () => {
+      expect(canManageRole('ADMIN', 'MEMBER')).toBe(true);
+      expect(canManageRole('ADMIN', 'VIEWER')).toBe(true);
+      expect(canManageRole('ADMIN', 'ADMIN')).toBe(false);
+      expect(canManageRole('ADMIN', 'OWNER')).toBe(false);
+    });
+
+    it('should let members and viewers manage nobody', () => {
+      expect(canManageRole('MEMBER', 'VIEWER')).toBe(false);
+      expect(canManageRole('VIEWER', 'VIEWER')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { Prisma, WorkspaceRole } from '@prisma/client';
+
+/**
+ * Helpers for workspace roles
+ *
+ * Roles are ordered: every role may do everything the roles below it may.
+ *   OWNER > ADMIN > MEMBER > VIEWER
+ * So a permission check is "is the member's role at least X?"
+ */
+
+/** Name of the workspace every user gets when their account is created */
+export const PERSONAL_WORKSPACE_NAME = 'Personal';
+
+/**
+ * The nested write that gives a new user their personal workspace
+ * Used as `memberships` in every user.create(), so no account is ever
+ * without a workspace
+ */
+export const PERSONAL_WORKSPACE = {
+  create: {
+    role: WorkspaceRole.OWNER,
+    workspace: { create: { name: PERSONAL_WORKSPACE_NAME, personal: true } },
+  },
+} satisfies Prisma.WorkspaceMemberCreateNestedManyWithoutUserInput;
+
+/** Higher is more powerful */
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  OWNER: 3,
+  ADMIN: 2,
+  MEMBER: 1,
+  VIEWER: 0,
+};
+
+/**
+ * Does a member with this role have at least the required one?
+ * @example hasRole('ADMIN', 'MEMBER') // true
+ * @example hasRole('VIEWER', 'MEMBER') // false
+ */
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * May a member hand out or take away the target role?
+ * - Only owners manage owners and admins
+ * - Admins manage members and viewers
+ * - Members and viewers manage nobody
+ */
+export function canManageRole(role: WorkspaceRole, target: WorkspaceRole) {
+  if (role === WorkspaceRole.OWNER) {
+    return true;
+  }
+  return (
+    hasRole(role, WorkspaceRole.ADMIN) && !hasRole(target, WorkspaceRole.ADMIN)
+  );
+}
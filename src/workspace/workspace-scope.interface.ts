@@ -0,0 +1,17 @@
+import { WorkspaceRole } from '@prisma/client';
+
+/**
+ * WorkspaceScope - Who is calling, and in which workspace
+ *
+ * WorkspaceGuard works it out for every request and attaches it to the
+ * request (request.workspace); the @ActiveWorkspace() decorator reads it
+ * back in controllers and resolvers, which pass it on to the services.
+ */
+export interface WorkspaceScope {
+  /** The authenticated caller */
+  userId: number;
+  /** The active workspace - the todos and lists read or written belong to it */
+  workspaceId: number;
+  /** The caller's role in the active workspace */
+  role: WorkspaceRole;
+}
@@ -0,0 +1,12 @@
+/**
+ * The request header that selects the active workspace, e.g.
+ *   X-Workspace-Id: 3
+ * Requests without it use the caller's personal workspace
+ */
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+/**
+ * How many days an invitation can be accepted before it expires
+ * Set WORKSPACE_INVITE_DAYS to change it (defaults to 7 days)
+ */
+export const INVITE_TTL_DAYS = Number(process.env.WORKSPACE_INVITE_DAYS ?? 7);
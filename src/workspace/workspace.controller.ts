@@ -0,0 +1,166 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WorkspaceRole } from '@prisma/client';
+import { WorkspaceService } from './workspace.service';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { AcceptInviteDto } from './dto/accept-invite.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/auth-user.interface';
+import { WorkspaceGuard } from './workspace.guard';
+import { RequireRole } from './require-role.decorator';
+import { ActiveWorkspace } from './active-workspace.decorator';
+import type { WorkspaceScope } from './workspace-scope.interface';
+
+/**
+ * WorkspaceController - HTTP request handler for workspaces and members
+ *
+ * Routes under /workspaces/:workspaceId add WorkspaceGuard, which takes
+ * the workspace from the path and checks the caller's role in it.
+ * The other routes work across all of the caller's workspaces.
+ *
+ * Using a workspace elsewhere: send its ID as the X-Workspace-Id header,
+ * and /todos, /lists, /users etc. work inside it.
+ */
+@ApiTags('workspaces')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('workspaces')
+export class WorkspaceController {
+  constructor(private readonly workspaceService: WorkspaceService) {}
+
+  /**
+   * POST /workspaces - Create a shared workspace
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a workspace, owned by the caller' })
+  @ApiResponse({ status: 201, description: 'Workspace created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  create(
+    @CurrentUser() user: AuthUser,
+    @Body() createWorkspaceDto: CreateWorkspaceDto,
+  ) {
+    return this.workspaceService.create(user.id, createWorkspaceDto);
+  }
+
+  /**
+   * GET /workspaces - The caller's workspaces and their role in each
+   */
+  @Get()
+  @ApiOperation({ summary: "Get the caller's workspaces" })
+  @ApiResponse({
+    status: 200,
+    description: 'The workspaces, personal first, with the caller role',
+  })
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.workspaceService.findAll(user.id);
+  }
+
+  /**
+   * POST /workspaces/invites/accept - Join a workspace
+   * The caller must be logged in with the email the invitation was sent to
+   */
+  @Post('invites/accept')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Accept an invitation to a workspace' })
+  @ApiResponse({ status: 200, description: 'The new membership' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired invitation' })
+  @ApiResponse({ status: 409, description: 'Already a member' })
+  acceptInvite(
+    @CurrentUser() user: AuthUser,
+    @Body() acceptInviteDto: AcceptInviteDto,
+  ) {
+    return this.workspaceService.acceptInvite(user.id, acceptInviteDto);
+  }
+
+  /**
+   * GET /workspaces/:workspaceId/members - Everyone in the workspace
+   */
+  @Get(':workspaceId/members')
+  @UseGuards(WorkspaceGuard)
+  @ApiOperation({ summary: 'Get the members of a workspace' })
+  @ApiParam({
+    name: 'workspaceId',
+    description: 'The workspace ID',
+    example: 1,
+  })
+  @ApiResponse({ status: 200, description: 'The members and their roles' })
+  @ApiResponse({ status: 404, description: 'Workspace not found' })
+  findMembers(@ActiveWorkspace() scope: WorkspaceScope) {
+    return this.workspaceService.findMembers(scope);
+  }
+
+  /**
+   * POST /workspaces/:workspaceId/invites - Invite someone by email
+   *
+   * Returns a token that is shown only once - pass it on to the invitee,
+   * who accepts with POST /workspaces/invites/accept.
+   */
+  @Post(':workspaceId/invites')
+  @UseGuards(WorkspaceGuard)
+  @RequireRole(WorkspaceRole.ADMIN)
+  @ApiOperation({ summary: 'Invite someone to a workspace' })
+  @ApiParam({
+    name: 'workspaceId',
+    description: 'The workspace ID',
+    example: 1,
+  })
+  @ApiResponse({ status: 201, description: 'The invitation and its token' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input, or a personal workspace',
+  })
+  @ApiResponse({ status: 403, description: 'Not allowed to invite this role' })
+  @ApiResponse({ status: 404, description: 'Workspace not found' })
+  @ApiResponse({ status: 409, description: 'Already a member' })
+  invite(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Body() inviteMemberDto: InviteMemberDto,
+  ) {
+    return this.workspaceService.invite(scope, inviteMemberDto);
+  }
+
+  /**
+   * DELETE /workspaces/:workspaceId/members/:userId - Remove a member
+   *
+   * Every member may remove themselves (leave the workspace), so the guard
+   * only requires VIEWER - the service checks who may remove whom.
+   */
+  @Delete(':workspaceId/members/:userId')
+  @UseGuards(WorkspaceGuard)
+  @RequireRole(WorkspaceRole.VIEWER)
+  @ApiOperation({ summary: 'Remove a member from a workspace (or leave it)' })
+  @ApiParam({
+    name: 'workspaceId',
+    description: 'The workspace ID',
+    example: 1,
+  })
+  @ApiParam({ name: 'userId', description: 'The member to remove', example: 2 })
+  @ApiResponse({ status: 200, description: 'The removed membership' })
+  @ApiResponse({ status: 400, description: 'The last owner cannot leave' })
+  @ApiResponse({ status: 403, description: 'Not allowed to remove them' })
+  @ApiResponse({ status: 404, description: 'Workspace or member not found' })
+  removeMember(
+    @ActiveWorkspace() scope: WorkspaceScope,
+    @Param('userId', ParseIntPipe) userId: number,
+  ) {
+    return this.workspaceService.removeMember(scope, userId);
+  }
+}
@@ -0,0 +1,137 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WorkspaceRole } from '@prisma/client';
+import {
+  TestDatabase,
+  createTestDatabase,
+  createTestUser,
+} from '../../test/test-database';
+import { PrismaService } from '../prisma/prisma.service';
+import { RequireRole } from './require-role.decorator';
+import { WorkspaceGuard } from './workspace.guard';
+import { WorkspaceScope } from './workspace-scope.interface';
+
+/** Stands in for a controller: a default route and an admin-only one */
+class TodosController {
+  list() {}
+
+  @RequireRole(WorkspaceRole.ADMIN)
+  invite() {}
+}
+
+interface TestRequest {
+  user: { id: number };
+  method: string;
+  headers: Record<string, string>;
+  workspace?: WorkspaceScope;
+}
+
+/** The ExecutionContext of a REST request to one of the routes above */
+const httpContext = (request: TestRequest, route: 'list' | 'invite' = 'list') =>
+  ({
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => TodosController.prototype[route],
+    getClass: () => TodosController,
+  }) as unknown as ExecutionContext;
+
+describe('WorkspaceGuard', () => {
+  let db: TestDatabase;
+  let prisma: PrismaService;
+  let guard: WorkspaceGuard;
+  /** A shared workspace with Ann as its owner */
+  let team: number;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    prisma = db.prisma;
+    guard = new WorkspaceGuard(prisma, new Reflector());
+
+    const { user } = await createTestUser(prisma, 'Ann');
+    ({ id: team } = await prisma.workspace.create({
+      data: {
+        name: 'Team',
+        members: { create: { userId: user.id, role: WorkspaceRole.OWNER } },
+      },
+    }));
+  });
+
+  afterEach(() => db.close());
+
+  /** A user with the role in the team workspace */
+  const member = async (name: string, role: WorkspaceRole) => {
+    const { user } = await createTestUser(prisma, name);
+    await prisma.workspaceMember.create({
+      data: { workspaceId: team, userId: user.id, role },
+    });
+    return user;
+  };
+
+  const request = (
+    userId: number,
+    method = 'GET',
+    workspaceId?: number,
+  ): TestRequest => ({
+    user: { id: userId },
+    method,
+    headers:
+      workspaceId === undefined
+        ? {}
+        : { 'x-workspace-id': String(workspaceId) },
+  });
+
+  it('should use the personal workspace without a header', async () => {
+    const { user, workspaceId } = await createTestUser(prisma, 'Ben');
+    const req = request(user.id);
+
+    expect(await guard.canActivate(httpContext(req))).toBe(true);
+    expect(req.workspace).toEqual({
+      userId: user.id,
+      workspaceId,
+      role: WorkspaceRole.OWNER,
+    });
+  });
+
+  it('should hide workspaces the caller is not a member of', async () => {
+    const { user } = await createTestUser(prisma, 'Ben');
+
+    await expect(
+      guard.canActivate(httpContext(request(user.id, 'GET', team))),
+    ).rejects.toThrow(`Workspace with ID ${team} not found`);
+  });
+
+  it('should let viewers read but not write', async () => {
+    const viewer = await member('Ben', WorkspaceRole.VIEWER);
+
+    expect(
+      await guard.canActivate(httpContext(request(viewer.id, 'GET', team))),
+    ).toBe(true);
+    await expect(
+      guard.canActivate(httpContext(request(viewer.id, 'POST', team))),
+    ).rejects.toThrow(
+      'This needs the MEMBER role in the workspace, you are VIEWER',
+    );
+  });
+
+  it('should check the role a route requires', async () => {
+    const writer = await member('Ben', WorkspaceRole.MEMBER);
+
+    await expect(
+      guard.canActivate(
+        httpContext(request(writer.id, 'POST', team), 'invite'),
+      ),
+    ).rejects.toThrow(
+      'This needs the ADMIN role in the workspace, you are MEMBER',
+    );
+  });
+
+  it('should reject a workspace ID that is not a number', async () => {
+    const { user } = await createTestUser(prisma, 'Ben');
+    const req = request(user.id);
+    req.headers['x-workspace-id'] = 'abc';
+
+    await expect(guard.canActivate(httpContext(req))).rejects.toThrow(
+      'The workspace ID must be a number',
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { WorkspaceRole } from '@prisma/client';
+import { Request } from 'express';
+import { GraphQLResolveInfo, OperationTypeNode } from 'graphql';
+import { PrismaService } from '../prisma/prisma.service';
+import { getRequest } from '../common/get-request';
+import { AuthUser } from '../auth/auth-user.interface';
+import { ALLOW_QUERY_TOKEN } from '../auth/allow-query-token.decorator';
+import { WorkspaceScope } from './workspace-scope.interface';
+import { REQUIRED_ROLE } from './require-role.decorator';
+import { WORKSPACE_HEADER } from './workspace.constants';
+import { hasRole } from './workspace-roles';
+
+type WorkspaceRequest = Request & {
+  user: AuthUser;
+  workspace?: WorkspaceScope;
+};
+
+/**
+ * WorkspaceGuard - Picks the active workspace and checks the caller's role
+ *
+ * Runs after JwtAuthGuard, which has already identified the caller:
+ *   @UseGuards(JwtAuthGuard, WorkspaceGuard)
+ *
+ * 1. Finds the workspace the request is about, in this order:
+ *    - the :workspaceId path segment (e.g. /workspaces/3/members)
+ *    - the X-Workspace-Id header
+ *    - ?workspaceId= on routes marked with @AllowQueryToken(), which
+ *      can't send headers either (EventSource)
+ *    - otherwise, the caller's personal workspace
+ * 2. Loads the caller's membership - a workspace they don't belong to
+ *    gets a 404, like a todo of another user, so IDs can't be probed
+ * 3. Checks the role: @RequireRole() if the route has it, otherwise
+ *    VIEWER for reads (GET, GraphQL queries) and MEMBER for writes
+ * 4. Attaches { userId, workspaceId, role } to request.workspace, where
+ *    @ActiveWorkspace() picks it up
+ */
+@Injectable()
+export class WorkspaceGuard implements CanActivate {
+  constructor(
+    private prisma: PrismaService,
+    private reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = getRequest<WorkspaceRequest>(context);
+    const userId = request.user.id;
+    const workspaceId = this.requestedWorkspaceId(context, request);
+
+    const membership = await this.prisma.workspaceMember.findFirst({
+      where:
+        workspaceId === undefined
+          ? { userId, workspace: { personal: true } }
+          : { userId, workspaceId },
+    });
+
+    if (!membership) {
+      throw new NotFoundException(
+        workspaceId === undefined
+          ? 'You have no personal workspace'
+          : `Workspace with ID ${workspaceId} not found`,
+      );
+    }
+
+    const required = this.requiredRole(context, request);
+    if (!hasRole(membership.role, required)) {
+      throw new ForbiddenException(
+        `This needs the ${required} role in the workspace, you are ${membership.role}`,
+      );
+    }
+
+    request.workspace = {
+      userId,
+      workspaceId: membership.workspaceId,
+      role: membership.role,
+    };
+    return true;
+  }
+
+  /**
+   * The workspace ID from the path, header or query - undefined if the
+   * request doesn't name one
+   * @throws BadRequestException if the ID isn't a positive whole number
+   */
+  private requestedWorkspaceId(
+    context: ExecutionContext,
+    request: WorkspaceRequest,
+  ): number | undefined {
+    const allowQuery = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_QUERY_TOKEN,
+      [context.getHandler(), context.getClass()],
+    );
+
+    // Express sets params, headers and query, GraphQL requests have no
+    // :workspaceId, so every source is optional
+    const value: unknown =
+      request.params?.workspaceId ??
+      request.headers[WORKSPACE_HEADER] ??
+      (allowQuery ? request.query?.workspaceId : undefined);
+
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string' || !/^[1-9]\d*$/.test(value)) {
+      throw new BadRequestException('The workspace ID must be a number');
+    }
+
+    return Number(value);
+  }
+
+  /** The role the route needs: @RequireRole(), or read/write by default */
+  private requiredRole(
+    context: ExecutionContext,
+    request: WorkspaceRequest,
+  ): WorkspaceRole {
+    const required = this.reflector.getAllAndOverride<WorkspaceRole>(
+      REQUIRED_ROLE,
+      [context.getHandler(), context.getClass()],
+    );
+    if (required) {
+      return required;
+    }
+
+    // Every GraphQL operation is a POST, so ask GraphQL what it is instead
+    const writes =
+      context.getType<GqlContextType>() === 'graphql'
+        ? GqlExecutionContext.create(context).getInfo<GraphQLResolveInfo>()
+            .operation.operation === OperationTypeNode.MUTATION
+        : !['GET', 'HEAD'].includes(request.method);
+
+    return writes ? WorkspaceRole.MEMBER : WorkspaceRole.VIEWER;
+  }
+}
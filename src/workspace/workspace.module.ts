@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceController } from './workspace.controller';
+
+/**
+ * WorkspaceModule - Feature module for workspaces and their members
+ *
+ * WorkspaceGuard isn't provided here: guards are created by the module of
+ * the controller that uses them, and its only dependencies (PrismaService
+ * and Reflector) are available everywhere.
+ */
+@Module({
+  controllers: [WorkspaceController],
+  providers: [WorkspaceService],
+})
+export class WorkspaceModule {}
@@ -0,0 +1,236 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { addDays } from '../common/dates';
+import { createSecretToken, hashSecretToken } from '../common/secret-token';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { AcceptInviteDto } from './dto/accept-invite.dto';
+import { WorkspaceScope } from './workspace-scope.interface';
+import { INVITE_TTL_DAYS } from './workspace.constants';
+import { canManageRole, hasRole } from './workspace-roles';
+
+/**
+ * WorkspaceService - Business logic layer for workspaces and their members
+ *
+ * Who may do what is checked in two places:
+ * - WorkspaceGuard checks the minimum role of a route (e.g. ADMIN to invite)
+ * - This service checks the rules that depend on the data, e.g. an admin
+ *   may remove a member but not an owner
+ */
+@Injectable()
+export class WorkspaceService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a new shared workspace, with the caller as its owner
+   * @param userId - The authenticated user who will own the workspace
+   * @param createWorkspaceDto - The data for the new workspace
+   * @returns The created workspace
+   */
+  async create(userId: number, createWorkspaceDto: CreateWorkspaceDto) {
+    return this.prisma.workspace.create({
+      data: {
+        ...createWorkspaceDto,
+        members: { create: { userId, role: WorkspaceRole.OWNER } },
+      },
+    });
+  }
+
+  /**
+   * Get every workspace the caller belongs to
+   * @param userId - The authenticated user whose workspaces are returned
+   * @returns The workspaces (personal first, then A-Z), each with the
+   *          caller's role and the number of members
+   */
+  async findAll(userId: number) {
+    const memberships = await this.prisma.workspaceMember.findMany({
+      where: { userId },
+      include: {
+        workspace: { include: { _count: { select: { members: true } } } },
+      },
+      orderBy: [
+        { workspace: { personal: 'desc' } },
+        { workspace: { name: 'asc' } },
+      ],
+    });
+
+    return memberships.map(({ workspace, role }) => ({ ...workspace, role }));
+  }
+
+  /**
+   * Get the members of the active workspace
+   * @param scope - The caller and the workspace
+   * @returns The members with their role, owners first
+   */
+  async findMembers(scope: WorkspaceScope) {
+    const members = await this.prisma.workspaceMember.findMany({
+      where: { workspaceId: scope.workspaceId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: [{ createdAt: 'asc' }],
+    });
+
+    // The roles aren't in rank order alphabetically, so sort them here
+    const order = Object.values(WorkspaceRole);
+    return members.sort(
+      (a, b) => order.indexOf(a.role) - order.indexOf(b.role),
+    );
+  }
+
+  /**
+   * Invite someone to the active workspace
+   *
+   * Nothing is sent: the response contains the token, which the inviter
+   * passes on and the invitee sends to POST /workspaces/invites/accept.
+   * Only a hash of the token is stored (see common/secret-token.ts).
+   *
+   * @param scope - The caller (at least an ADMIN) and the workspace
+   * @param inviteMemberDto - Who to invite, and with which role
+   * @returns The invitation and its token - the only time it is shown
+   * @throws BadRequestException if the workspace is a personal one
+   * @throws ForbiddenException if the caller may not hand out the role
+   * @throws ConflictException if the email already belongs to a member
+   */
+  async invite(scope: WorkspaceScope, inviteMemberDto: InviteMemberDto) {
+    const { email, role } = inviteMemberDto;
+
+    const workspace = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: scope.workspaceId },
+    });
+    if (workspace.personal) {
+      throw new BadRequestException(
+        'Personal workspaces cannot be shared - create a workspace first',
+      );
+    }
+    if (!canManageRole(scope.role, role)) {
+      throw new ForbiddenException(`You cannot invite someone as ${role}`);
+    }
+
+    const member = await this.prisma.workspaceMember.findFirst({
+      where: { workspaceId: scope.workspaceId, user: { email } },
+    });
+    if (member) {
+      throw new ConflictException(`${email} is already a member`);
+    }
+
+    const token = createSecretToken();
+    const invite = await this.prisma.workspaceInvite.create({
+      data: {
+        workspaceId: scope.workspaceId,
+        email,
+        role,
+        tokenHash: hashSecretToken(token),
+        invitedById: scope.userId,
+        expiresAt: addDays(new Date(), INVITE_TTL_DAYS),
+      },
+    });
+
+    return { ...invite, token };
+  }
+
+  /**
+   * Join a workspace with an invitation
+   *
+   * The invitation is used up: accepting deletes it, in the same
+   * transaction that creates the membership.
+   *
+   * @param userId - The authenticated user accepting the invitation
+   * @param acceptInviteDto - The invitation token
+   * @returns The new membership, with the workspace
+   * @throws NotFoundException if the token is unknown, expired or meant
+   *         for another email address
+   * @throws Prisma P2002 (a 409) if the caller is already a member
+   */
+  async acceptInvite(userId: number, acceptInviteDto: AcceptInviteDto) {
+    const [user, invite] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({ where: { id: userId } }),
+      this.prisma.workspaceInvite.findUnique({
+        where: { tokenHash: hashSecretToken(acceptInviteDto.token) },
+      }),
+    ]);
+
+    // The same 404 for every reason, so tokens can't be probed
+    const valid =
+      invite &&
+      invite.expiresAt > new Date() &&
+      invite.email.toLowerCase() === user.email?.toLowerCase();
+
+    if (!valid) {
+      throw new NotFoundException('Invitation not found or expired');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.workspaceInvite.delete({ where: { id: invite.id } });
+
+      return tx.workspaceMember.create({
+        data: { workspaceId: invite.workspaceId, userId, role: invite.role },
+        include: { workspace: true },
+      });
+    });
+  }
+
+  /**
+   * Remove a member from the active workspace
+   *
+   * - Anyone may leave (remove themselves)
+   * - Admins may remove members and viewers, owners anyone
+   * - The last owner can't go, so a workspace is never left without one
+   *   (which also keeps everyone in their personal workspace)
+   *
+   * The todos and lists the member created stay in the workspace.
+   *
+   * @param scope - The caller and the workspace
+   * @param userId - The member to remove
+   * @returns The removed membership
+   * @throws NotFoundException if the user isn't a member
+   * @throws ForbiddenException if the caller may not remove them
+   * @throws BadRequestException if they are the last owner
+   */
+  async removeMember(scope: WorkspaceScope, userId: number) {
+    const { workspaceId } = scope;
+
+    return this.prisma.$transaction(async (tx) => {
+      const member = await tx.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId, userId } },
+      });
+
+      if (!member) {
+        throw new NotFoundException(
+          `User ${userId} is not a member of this workspace`,
+        );
+      }
+
+      const leaving = userId === scope.userId;
+      const allowed =
+        leaving ||
+        (hasRole(scope.role, WorkspaceRole.ADMIN) &&
+          canManageRole(scope.role, member.role));
+      if (!allowed) {
+        throw new ForbiddenException(
+          `You cannot remove a member with the ${member.role} role`,
+        );
+      }
+
+      if (member.role === WorkspaceRole.OWNER) {
+        const owners = await tx.workspaceMember.count({
+          where: { workspaceId, role: WorkspaceRole.OWNER },
+        });
+        if (owners === 1) {
+          throw new BadRequestException(
+            'The last owner cannot leave the workspace',
+          );
+        }
+      }
+
+      return tx.workspaceMember.delete({
+        where: { workspaceId_userId: { workspaceId, userId } },
+      });
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditService } from '../src/audit/audit.service';
+import { ConsoleChannel } from '../src/notification/console.channel';
+import { NotificationService } from '../src/notification/notification.service';
+import { PrismaService } from '../src/prisma/prisma.service';
+import { TodoEventsService } from '../src/todo/todo-events.service';
+import { TodoService } from '../src/todo/todo.service';
+import { WebhookService } from '../src/webhook/webhook.service';
+import { PERSONAL_WORKSPACE } from '../src/workspace/workspace-roles';
+
+const MIGRATIONS_DIR = join(__dirname, '../prisma/migrations');
+
+/**
+ * A throwaway SQLite database for service specs
+ *
+ * Every call creates a new database file in the OS temp directory, applies
+ * all migrations to it and connects a PrismaService, so a spec can run the
+ * real queries without touching dev.db. close() deletes the file again.
+ *
+ * Usage:
+ *   let db: TestDatabase;
+ *   beforeEach(async () => (db = await createTestDatabase()));
+ *   afterEach(() => db.close());
+ */
+export interface TestDatabase {
+  prisma: PrismaService;
+  close: () => Promise<void>;
+}
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const dir = mkdtempSync(join(tmpdir(), 'todo-spec-'));
+
+  // PrismaService reads the location from the environment, like in the app
+  const previousUrl = process.env.DATABASE_URL;
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+  const prisma = new PrismaService();
+  process.env.DATABASE_URL = previousUrl;
+
+  const migrations = readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  for (const migration of migrations) {
+    const sql = readFileSync(
+      join(MIGRATIONS_DIR, migration, 'migration.sql'),
+      'utf8',
+    );
+    for (const statement of splitStatements(sql)) {
+      await prisma.$executeRawUnsafe(statement);
+    }
+  }
+
+  return {
+    prisma,
+    close: async () => {
+      await prisma.$disconnect();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Create a user with their personal workspace, like signing up does
+ * @returns The user and the ID of their personal workspace
+ */
+export async function createTestUser(prisma: PrismaService, name: string) {
+  const user = await prisma.user.create({
+    data: {
+      name,
+      email: `${name.toLowerCase()}@example.com`,
+      memberships: PERSONAL_WORKSPACE,
+    },
+    include: { memberships: true },
+  });
+
+  return { user, workspaceId: user.memberships[0].workspaceId };
+}
+
+/**
+ * A TodoService with its real dependencies, the way TodoModule builds it
+ * (notifications go to the ConsoleChannel, like in development)
+ */
+export function createTestTodoService(prisma: PrismaService) {
+  return new TodoService(
+    prisma,
+    new AuditService(prisma),
+    new WebhookService(prisma),
+    new TodoEventsService(prisma),
+    new NotificationService(prisma, new ConsoleChannel()),
+  );
+}
+
+/**
+ * Split a migration into the statements the driver runs one at a time
+ * Statements end with a ; at the end of a line - except inside a trigger,
+ * whose body runs until END;
+ */
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+
+  for (const line of sql.split('\n')) {
+    if (line.trim().startsWith('--') || line.trim() === '') continue;
+
+    current.push(line);
+    if (/^\s*CREATE TRIGGER/i.test(line)) inTrigger = true;
+
+    const ends = inTrigger ? /^\s*END;\s*$/i.test(line) : /;\s*$/.test(line);
+    if (ends) {
+      statements.push(current.join('\n'));
+      current = [];
+      inTrigger = false;
+    }
+  }
+
+  return statements;
+}